@@ -9,6 +9,7 @@ import { ThemeProvider } from "@/contexts/ThemeContext";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { PWAInstallPrompt } from "@/components/pwa/PWAInstallPrompt";
 import { KeyboardShortcutsProvider } from "@/components/KeyboardShortcutsProvider";
+import { RecordingRecoveryDialog } from "@/components/recording/RecordingRecoveryDialog";
 import Home from "./pages/Home";
 import Record from "./pages/Record";
 import Library from "./pages/Library";
@@ -26,6 +27,7 @@ const App = () => (
         <TooltipProvider>
           <Toaster />
           <Sonner />
+          <RecordingRecoveryDialog />
           <BrowserRouter>
             <Routes>
               <Route path="/editor" element={<VideoEditor />} />
@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AnnotationEditor } from '@/hooks/useAnnotationEditor';
+import { drawAnnotation, getAnnotationBounds, getShapeSize } from '@/lib/annotations';
+
+interface AnnotationSurfaceProps {
+  editor: AnnotationEditor;
+  background?: string; // canvas fill; transparent when unset
+  // Blur boxes blur what is behind the surface, such as the page, instead of the drawing
+  blurBehind?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const TEXT_INPUT_STYLE: React.CSSProperties = {
+  position: 'absolute',
+  background: 'rgba(0, 0, 0, 0.75)',
+  border: '1px solid #3b82f6',
+  borderRadius: '4px',
+  padding: '1px 4px',
+  outline: 'none',
+  minWidth: '80px',
+  transform: 'translateY(-100%)',
+};
+
+// Typed text goes into the editor on Enter or when focus leaves; Escape drops it
+const TextInput = ({ editor }: { editor: AnnotationEditor }) => {
+  const [value, setValue] = useState('');
+  // Enter unmounts the input, which can blur it too
+  const doneRef = useRef(false);
+  if (!editor.textAnchor) return null;
+
+  const finish = (commit: boolean) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    if (commit) editor.commitText(value);
+    else editor.cancelText();
+  };
+
+  return (
+    <input
+      type="text"
+      value={value}
+      autoFocus
+      placeholder="Type here..."
+      onChange={(e) => setValue(e.target.value)}
+      onPointerDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') finish(true);
+        if (e.key === 'Escape') finish(false);
+      }}
+      onBlur={() => finish(true)}
+      style={{
+        ...TEXT_INPUT_STYLE,
+        left: `${editor.textAnchor.x * 100}%`,
+        top: `${editor.textAnchor.y * 100}%`,
+        color: editor.color,
+        fontSize: `${Math.min(getShapeSize('text', editor.brushSize), 32)}px`,
+      }}
+    />
+  );
+};
+
+/**
+ * Canvas the annotation tools draw on, filling its container. Shapes are kept
+ * in fractions of the surface, so it can be any size. Styled inline so it also
+ * renders inside the Document PiP window.
+ */
+export const AnnotationSurface = ({ editor, background, blurBehind = false, className, style }: AnnotationSurfaceProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { shapes, draft, selectedId } = editor;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const draw = () => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      const pixelRatio = canvas.ownerDocument.defaultView?.devicePixelRatio || 1;
+      canvas.width = width * pixelRatio;
+      canvas.height = height * pixelRatio;
+      ctx.scale(pixelRatio, pixelRatio);
+
+      if (background) {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, width, height);
+      }
+      [...shapes, ...(draft ? [draft] : [])].forEach(shape => {
+        if (blurBehind && shape.kind === 'blur') return;
+        drawAnnotation(ctx, shape, width, height);
+      });
+
+      const selected = shapes.find(shape => shape.id === selectedId);
+      if (selected && height > 0) {
+        const bounds = getAnnotationBounds(selected, width / height);
+        const padding = 4;
+        ctx.setLineDash([5, 3]);
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = '#3b82f6';
+        ctx.strokeRect(
+          bounds.x * width - padding,
+          bounds.y * height - padding,
+          bounds.width * width + padding * 2,
+          bounds.height * height + padding * 2
+        );
+      }
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [shapes, draft, selectedId, background, blurBehind]);
+
+  const getPoint = (e: React.PointerEvent) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      point: { x: (e.clientX - bounds.left) / bounds.width, y: (e.clientY - bounds.top) / bounds.height },
+      surface: { width: bounds.width, height: bounds.height },
+    };
+  };
+
+  const blurShapes = blurBehind
+    ? [...shapes, ...(draft ? [draft] : [])].filter(shape => shape.kind === 'blur' && shape.points.length === 2)
+    : [];
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      tabIndex={0}
+      style={{
+        position: 'relative',
+        outline: 'none',
+        touchAction: 'none',
+        cursor: editor.tool === 'select' ? 'default' : editor.tool === 'text' ? 'text' : 'crosshair',
+        ...style,
+      }}
+      onPointerDown={(e) => {
+        // A pending text entry is committed by its own blur first
+        if (editor.textAnchor) return;
+        containerRef.current?.focus();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const { point, surface } = getPoint(e);
+        editor.pointerDown(point, surface);
+      }}
+      onPointerMove={(e) => editor.pointerMove(getPoint(e).point)}
+      onPointerUp={editor.pointerUp}
+      onPointerCancel={editor.pointerUp}
+      onKeyDown={(e) => {
+        if (e.key === 'Delete' || e.key === 'Backspace') editor.deleteSelected();
+      }}
+    >
+      <canvas ref={canvasRef} style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', display: 'block' }} />
+      {blurShapes.map(shape => {
+        const [from, to] = shape.points;
+        return (
+          <div
+            key={shape.id}
+            style={{
+              position: 'absolute',
+              left: `${Math.min(from.x, to.x) * 100}%`,
+              top: `${Math.min(from.y, to.y) * 100}%`,
+              width: `${Math.abs(to.x - from.x) * 100}%`,
+              height: `${Math.abs(to.y - from.y) * 100}%`,
+              backdropFilter: 'blur(12px)',
+              WebkitBackdropFilter: 'blur(12px)',
+              pointerEvents: 'none',
+            }}
+          />
+        );
+      })}
+      <TextInput key={editor.textAnchor ? `${editor.textAnchor.x},${editor.textAnchor.y}` : 'none'} editor={editor} />
+    </div>
+  );
+};
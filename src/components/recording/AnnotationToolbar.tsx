@@ -0,0 +1,131 @@
+import type { ReactNode } from 'react';
+import {
+  Circle,
+  Droplets,
+  Eraser,
+  Hash,
+  Highlighter,
+  MousePointer2,
+  MoveUpRight,
+  Pencil,
+  Square,
+  Type,
+  type LucideIcon,
+} from 'lucide-react';
+import type { AnnotationEditor } from '@/hooks/useAnnotationEditor';
+import { ANNOTATION_COLORS, ANNOTATION_TOOLS, AnnotationTool, BRUSH_SIZES } from '@/lib/annotations';
+
+const TOOL_ICONS: Record<AnnotationTool, LucideIcon> = {
+  select: MousePointer2,
+  stroke: Pencil,
+  highlight: Highlighter,
+  arrow: MoveUpRight,
+  rectangle: Square,
+  ellipse: Circle,
+  blur: Droplets,
+  step: Hash,
+  text: Type,
+};
+
+interface AnnotationToolbarProps {
+  editor: AnnotationEditor;
+  tools?: AnnotationTool[];
+  colors?: string[];
+  children?: ReactNode; // the host's own actions, after the shared ones
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const divider: React.CSSProperties = {
+  width: '1px',
+  height: '16px',
+  background: 'currentColor',
+  opacity: 0.2,
+  margin: '0 2px',
+};
+
+const toolButton = (isActive: boolean, disabled = false): React.CSSProperties => ({
+  width: '24px',
+  height: '24px',
+  borderRadius: '6px',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  border: 'none',
+  padding: 0,
+  color: 'inherit',
+  background: isActive ? 'rgba(59, 130, 246, 0.35)' : 'rgba(127, 127, 127, 0.15)',
+  opacity: disabled ? 0.4 : 1,
+  cursor: disabled ? 'default' : 'pointer',
+});
+
+/**
+ * Tool, color and brush size pickers for an annotation editor. Styled inline so
+ * it also renders inside the Document PiP window, which has no app stylesheet.
+ */
+export const AnnotationToolbar = ({
+  editor,
+  tools = ANNOTATION_TOOLS.map(tool => tool.id),
+  colors = ANNOTATION_COLORS,
+  children,
+  className,
+  style,
+}: AnnotationToolbarProps) => (
+  <div
+    className={className}
+    style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '3px', ...style }}
+  >
+    {ANNOTATION_TOOLS.filter(tool => tools.includes(tool.id)).map(({ id, label }) => {
+      const Icon = TOOL_ICONS[id];
+      return (
+        <button key={id} onClick={() => editor.setTool(id)} style={toolButton(editor.tool === id)} title={label}>
+          <Icon size={14} />
+        </button>
+      );
+    })}
+    <button
+      onClick={editor.deleteSelected}
+      disabled={!editor.selectedId}
+      style={toolButton(false, !editor.selectedId)}
+      title="Delete selected (Del)"
+    >
+      <Eraser size={14} />
+    </button>
+
+    <div style={divider} />
+
+    {colors.map(color => (
+      <button
+        key={color}
+        onClick={() => editor.setColor(color)}
+        style={{
+          width: '16px',
+          height: '16px',
+          borderRadius: '50%',
+          padding: 0,
+          background: color,
+          border: editor.color === color ? '2px solid #3b82f6' : '1px solid rgba(127, 127, 127, 0.5)',
+          transform: editor.color === color ? 'scale(1.15)' : undefined,
+          cursor: 'pointer',
+        }}
+        title={color}
+      />
+    ))}
+
+    <div style={divider} />
+
+    {BRUSH_SIZES.map(size => (
+      <button
+        key={size}
+        onClick={() => editor.setBrushSize(size)}
+        style={toolButton(editor.brushSize === size)}
+        title={`${size}px`}
+      >
+        <div style={{ width: Math.min(size + 2, 12), height: Math.min(size + 2, 12), borderRadius: '50%', background: 'currentColor' }} />
+      </button>
+    ))}
+
+    {children && <div style={divider} />}
+    {children}
+  </div>
+);
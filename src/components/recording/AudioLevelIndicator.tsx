@@ -1,80 +1,78 @@
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Mic, Volume2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { readLevels, toDecibels, toMeterPosition } from '@/lib/audioMixer';
 
 interface AudioLevelIndicatorProps {
-  stream: MediaStream | null;
+  stream?: MediaStream | null;
+  analyser?: AnalyserNode | null; // meter an existing graph instead of opening the stream
   type: 'mic' | 'system';
   label: string;
   isActive: boolean;
 }
 
+// How fast the peak marker falls back, in meter positions per second
+const PEAK_FALL_RATE = 0.5;
+
 /**
  * AudioLevelIndicator - Real-time audio level visualization
- * Shows a moving bar graph of audio input levels
+ * Lit bars follow the RMS level, the marker bar holds the recent peak
  */
-export const AudioLevelIndicator = ({ stream, type, label, isActive }: AudioLevelIndicatorProps) => {
-  const [level, setLevel] = useState(0);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const animationRef = useRef<number | null>(null);
+export const AudioLevelIndicator = ({ stream, analyser, type, label, isActive }: AudioLevelIndicatorProps) => {
+  const [levels, setLevels] = useState({ rms: 0, peak: 0, peakDb: -Infinity });
 
   useEffect(() => {
-    if (!stream || !isActive) {
-      setLevel(0);
-      return;
-    }
+    setLevels({ rms: 0, peak: 0, peakDb: -Infinity });
+    if (!isActive) return;
 
-    const audioTracks = stream.getAudioTracks();
-    if (audioTracks.length === 0) {
-      setLevel(0);
-      return;
-    }
+    let meterAnalyser = analyser;
+    let audioContext: AudioContext | null = null;
 
-    try {
-      const audioContext = new AudioContext();
-      const source = audioContext.createMediaStreamSource(stream);
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      analyser.smoothingTimeConstant = 0.8;
-      
-      source.connect(analyser);
-      analyserRef.current = analyser;
+    if (!meterAnalyser) {
+      if (!stream || stream.getAudioTracks().length === 0) return;
+      try {
+        audioContext = new AudioContext();
+        const source = audioContext.createMediaStreamSource(stream);
+        meterAnalyser = audioContext.createAnalyser();
+        meterAnalyser.fftSize = 1024;
+        source.connect(meterAnalyser);
+      } catch (err) {
+        console.warn('Could not create audio analyzer:', err);
+        return;
+      }
+    }
 
-      const dataArray = new Uint8Array(analyser.frequencyBinCount);
+    const buffer = new Float32Array(meterAnalyser.fftSize);
+    let heldPeak = 0;
+    let lastFrame = performance.now();
+    let animationFrame: number;
 
-      const updateLevel = () => {
-        if (!analyserRef.current) return;
-        
-        analyserRef.current.getByteFrequencyData(dataArray);
-        
-        // Calculate average level
-        const average = dataArray.reduce((sum, val) => sum + val, 0) / dataArray.length;
-        const normalizedLevel = Math.min(100, (average / 128) * 100);
-        
-        setLevel(normalizedLevel);
-        animationRef.current = requestAnimationFrame(updateLevel);
-      };
+    const updateLevel = (now: number) => {
+      const { rms, peak } = readLevels(meterAnalyser, buffer);
+      const elapsed = (now - lastFrame) / 1000;
+      lastFrame = now;
+      heldPeak = Math.max(toMeterPosition(peak), heldPeak - PEAK_FALL_RATE * elapsed);
 
-      updateLevel();
+      setLevels({ rms: toMeterPosition(rms), peak: heldPeak, peakDb: toDecibels(peak) });
+      animationFrame = requestAnimationFrame(updateLevel);
+    };
+    animationFrame = requestAnimationFrame(updateLevel);
 
-      return () => {
-        if (animationRef.current) {
-          cancelAnimationFrame(animationRef.current);
-        }
-        audioContext.close();
-        analyserRef.current = null;
-      };
-    } catch (err) {
-      console.warn('Could not create audio analyzer:', err);
-    }
-  }, [stream, isActive]);
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      audioContext?.close();
+    };
+  }, [stream, analyser, isActive]);
 
   const Icon = type === 'mic' ? Mic : Volume2;
-  
+
   // Create level bars
   const bars = 8;
-  const activeBars = Math.ceil((level / 100) * bars);
+  const activeBars = Math.ceil(levels.rms * bars);
+  const peakBar = Math.ceil(levels.peak * bars) - 1;
+  const barColor = (i: number) =>
+    i < bars * 0.6 ? "bg-success" : i < bars * 0.8 ? "bg-warning" : "bg-recording";
 
   return (
     <div className={cn(
@@ -83,9 +81,9 @@ export const AudioLevelIndicator = ({ stream, type, label, isActive }: AudioLeve
     )}>
       <Icon className={cn(
         "w-4 h-4",
-        isActive && level > 10 ? "text-primary" : "text-muted-foreground"
+        isActive && levels.rms > 0.3 ? "text-primary" : "text-muted-foreground"
       )} />
-      
+
       <div className="flex-1">
         <span className="text-xs text-muted-foreground">{label}</span>
         <div className="flex gap-0.5 mt-1">
@@ -94,32 +92,26 @@ export const AudioLevelIndicator = ({ stream, type, label, isActive }: AudioLeve
               key={i}
               className={cn(
                 "h-2 flex-1 rounded-sm",
-                i < activeBars
-                  ? i < bars * 0.6
-                    ? "bg-success"
-                    : i < bars * 0.8
-                    ? "bg-warning"
-                    : "bg-recording"
-                  : "bg-muted"
+                i < activeBars || i === peakBar ? barColor(i) : "bg-muted"
               )}
               initial={false}
               animate={{
-                scaleY: i < activeBars ? 1 : 0.5,
+                scaleY: i < activeBars ? 1 : i === peakBar ? 0.75 : 0.5,
               }}
               transition={{ duration: 0.05 }}
             />
           ))}
         </div>
       </div>
-      
+
       {isActive && (
         <span className={cn(
-          "text-[10px] font-mono min-w-[24px] text-right",
-          level > 80 ? "text-recording" : level > 50 ? "text-warning" : "text-muted-foreground"
+          "text-[10px] font-mono min-w-[40px] text-right",
+          levels.peakDb > -3 ? "text-recording" : levels.peakDb > -12 ? "text-warning" : "text-muted-foreground"
         )}>
-          {Math.round(level)}%
+          {levels.peakDb > -60 ? `${Math.round(levels.peakDb)} dB` : '-∞'}
         </span>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
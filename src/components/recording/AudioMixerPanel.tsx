@@ -0,0 +1,135 @@
+import { Mic, MicOff, Volume2, VolumeX } from 'lucide-react';
+import { useRecording, RecordingSettings } from '@/contexts/RecordingContext';
+import { MAX_CHANNEL_VOLUME } from '@/lib/audioMixer';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { AudioLevelIndicator } from './AudioLevelIndicator';
+import { cn } from '@/lib/utils';
+
+interface AudioMixerPanelProps {
+  // Meters the mic before recording starts, when the user is checking levels
+  micPreviewStream?: MediaStream | null;
+  className?: string;
+}
+
+interface ChannelStripProps {
+  type: 'mic' | 'system';
+  label: string;
+  volume: number;
+  muted: boolean;
+  analyser: AnalyserNode | null;
+  previewStream?: MediaStream | null;
+  onChange: (changes: Partial<RecordingSettings>) => void;
+}
+
+const ChannelStrip = ({ type, label, volume, muted, analyser, previewStream, onChange }: ChannelStripProps) => {
+  const volumeKey = type === 'mic' ? 'micVolume' : 'systemVolume';
+  const mutedKey = type === 'mic' ? 'micMuted' : 'systemMuted';
+  const MuteIcon = type === 'mic' ? (muted ? MicOff : Mic) : (muted ? VolumeX : Volume2);
+
+  return (
+    <div className="space-y-1.5">
+      <AudioLevelIndicator
+        type={type}
+        label={label}
+        analyser={analyser}
+        stream={previewStream}
+        isActive={!muted && (!!analyser || !!previewStream)}
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange({ [mutedKey]: !muted })}
+          className={cn(
+            "p-1.5 rounded-lg transition-colors",
+            muted ? "bg-destructive/10 text-destructive" : "bg-secondary text-muted-foreground hover:text-foreground"
+          )}
+          title={muted ? `Unmute ${label}` : `Mute ${label}`}
+        >
+          <MuteIcon className="w-3.5 h-3.5" />
+        </button>
+        <Slider
+          value={[volume * 100]}
+          onValueChange={([value]) => onChange({ [volumeKey]: value / 100 })}
+          min={0}
+          max={MAX_CHANNEL_VOLUME * 100}
+          step={5}
+          disabled={muted}
+          className="flex-1"
+        />
+        <span className="text-[10px] font-mono text-muted-foreground w-9 text-right">
+          {Math.round(volume * 100)}%
+        </span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * AudioMixerPanel - Faders, mutes and meters for each audio source
+ * Settings apply to the running graph while recording and to the next recording otherwise
+ */
+export const AudioMixerPanel = ({ micPreviewStream, className }: AudioMixerPanelProps) => {
+  const { settings, updateSettings, audioMixer } = useRecording();
+
+  const usesMic = settings.audioSource === 'mic' || settings.audioSource === 'both';
+  const usesSystem = settings.audioSource === 'system' || settings.audioSource === 'both';
+
+  if (!usesMic && !usesSystem) return null;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {usesSystem && (
+        <ChannelStrip
+          type="system"
+          label="System Audio"
+          volume={settings.systemVolume}
+          muted={settings.systemMuted}
+          analyser={audioMixer?.system.analyser ?? null}
+          onChange={updateSettings}
+        />
+      )}
+      {usesMic && (
+        <ChannelStrip
+          type="mic"
+          label="Microphone"
+          volume={settings.micVolume}
+          muted={settings.micMuted}
+          analyser={audioMixer?.mic.analyser ?? null}
+          previewStream={audioMixer ? null : micPreviewStream}
+          onChange={updateSettings}
+        />
+      )}
+
+      {usesMic && usesSystem && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div>
+              <p className="text-xs font-medium text-foreground">Duck system audio</p>
+              <p className="text-[10px] text-muted-foreground">Lower desktop sound while you speak</p>
+            </div>
+            <Switch
+              checked={settings.duckingEnabled}
+              onCheckedChange={(checked) => updateSettings({ duckingEnabled: checked })}
+            />
+          </div>
+          {settings.duckingEnabled && (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-muted-foreground w-14">Duck to</span>
+              <Slider
+                value={[settings.duckingLevel * 100]}
+                onValueChange={([value]) => updateSettings({ duckingLevel: value / 100 })}
+                min={0}
+                max={90}
+                step={5}
+                className="flex-1"
+              />
+              <span className="text-[10px] font-mono text-muted-foreground w-9 text-right">
+                {Math.round(settings.duckingLevel * 100)}%
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
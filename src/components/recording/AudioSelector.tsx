@@ -1,7 +1,15 @@
 import { useState, useEffect } from 'react';
-import { Mic, Volume2, MicOff, AlertCircle, Info, CheckCircle, XCircle } from 'lucide-react';
+import { Mic, Volume2, MicOff, AlertCircle, Info, CheckCircle, XCircle, Activity, AudioWaveform, Loader2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useRecording, AudioSource } from '@/contexts/RecordingContext';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import { toast } from '@/hooks/use-toast';
+import { openMicrophone } from '@/lib/mediaDevices';
+import { createNoiseSuppressor, loadNoiseProfile, saveNoiseProfile } from '@/lib/noiseSuppression';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { DeviceSelect } from './DeviceSelect';
+import { AudioMixerPanel } from './AudioMixerPanel';
 import { cn } from '@/lib/utils';
 
 const audioOptions: { id: AudioSource; label: string; icon: typeof Mic; description: string }[] = [
@@ -12,8 +20,13 @@ const audioOptions: { id: AudioSource; label: string; icon: typeof Mic; descript
 ];
 
 export const AudioSelector = () => {
-  const { settings, updateSettings } = useRecording();
+  const { settings, updateSettings, isRecording } = useRecording();
   const [micPermission, setMicPermission] = useState<'granted' | 'denied' | 'prompt' | 'unknown'>('unknown');
+  const { microphones, refresh: refreshDevices } = useMediaDevices();
+  const [isCheckingLevels, setIsCheckingLevels] = useState(false);
+  const [micPreviewStream, setMicPreviewStream] = useState<MediaStream | null>(null);
+  const [hasNoiseProfile, setHasNoiseProfile] = useState(() => loadNoiseProfile() !== null);
+  const [isLearningNoise, setIsLearningNoise] = useState(false);
 
   // Check microphone permission status
   useEffect(() => {
@@ -24,6 +37,8 @@ export const AudioSelector = () => {
         
         result.addEventListener('change', () => {
           setMicPermission(result.state as 'granted' | 'denied' | 'prompt');
+          // Device labels only become readable after access is granted
+          if (result.state === 'granted') refreshDevices();
         });
       } catch {
         // Permissions API not supported
@@ -32,10 +47,44 @@ export const AudioSelector = () => {
     };
     
     checkMicPermission();
-  }, []);
+  }, [refreshDevices]);
+
+  const usesMic = settings.audioSource === 'mic' || settings.audioSource === 'both';
+
+  // Open the selected mic only while the user is checking levels, so the browser's
+  // recording indicator isn't left on
+  useEffect(() => {
+    if (!isCheckingLevels || !usesMic || isRecording) {
+      setMicPreviewStream(null);
+      return;
+    }
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    openMicrophone(settings.micDeviceId)
+      .then(opened => {
+        stream = opened;
+        if (cancelled) {
+          opened.getTracks().forEach(track => track.stop());
+          return;
+        }
+        setMicPreviewStream(opened);
+        setMicPermission('granted');
+        refreshDevices();
+      })
+      .catch(err => {
+        console.error('Mic level check failed:', err);
+        setIsCheckingLevels(false);
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isCheckingLevels, usesMic, isRecording, settings.micDeviceId, refreshDevices]);
 
   const showSystemAudioTip = settings.audioSource === 'system' || settings.audioSource === 'both';
-  const showMicTip = (settings.audioSource === 'mic' || settings.audioSource === 'both') && micPermission === 'denied';
+  const showMicTip = usesMic && micPermission === 'denied';
 
   // Test microphone to request permission
   const testMicrophone = async () => {
@@ -43,11 +92,55 @@ export const AudioSelector = () => {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       stream.getTracks().forEach(track => track.stop());
       setMicPermission('granted');
+      refreshDevices();
     } catch {
       setMicPermission('denied');
     }
   };
 
+  // Listens to the room through the selected mic and remembers its noise for the suppressor
+  const learnNoise = async () => {
+    setIsLearningNoise(true);
+    let stream: MediaStream | null = null;
+    const context = new AudioContext();
+
+    try {
+      stream = await openMicrophone(settings.micDeviceId);
+      const suppressor = await createNoiseSuppressor(context, { strength: 0, profile: null });
+      const silent = context.createGain();
+      silent.gain.value = 0;
+      context.createMediaStreamSource(stream).connect(suppressor.node);
+      // Worklets only run while connected to the rendered graph
+      suppressor.node.connect(silent);
+      silent.connect(context.destination);
+      await context.resume();
+
+      saveNoiseProfile(await suppressor.learnNoise());
+      setHasNoiseProfile(true);
+      updateSettings({ noiseSuppression: true });
+      toast({
+        title: 'Noise learned',
+        description: 'Background noise will be filtered from your microphone',
+      });
+    } catch (err) {
+      console.error('Failed to learn noise:', err);
+      toast({
+        title: 'Could not learn noise',
+        description: err instanceof Error ? err.message : 'Microphone could not be analyzed',
+        variant: 'destructive',
+      });
+    } finally {
+      stream?.getTracks().forEach(track => track.stop());
+      context.close().catch(console.error);
+      setIsLearningNoise(false);
+    }
+  };
+
+  const forgetNoise = () => {
+    saveNoiseProfile(null);
+    setHasNoiseProfile(false);
+  };
+
   return (
     <div className="space-y-3">
       <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
@@ -102,6 +195,111 @@ export const AudioSelector = () => {
         })}
       </div>
 
+      {/* Microphone Device */}
+      {usesMic && (
+        <div className="space-y-1.5">
+          <span className="text-xs text-muted-foreground">Microphone</span>
+          <DeviceSelect
+            devices={microphones}
+            value={settings.micDeviceId}
+            onChange={(deviceId) => updateSettings({ micDeviceId: deviceId })}
+            icon={Mic}
+          />
+          {micPermission !== 'granted' && microphones.length > 0 && !microphones[0].label && (
+            <button
+              onClick={testMicrophone}
+              className="text-xs underline text-muted-foreground hover:text-foreground"
+            >
+              Allow microphone access to see device names
+            </button>
+          )}
+
+          {/* Noise Suppression */}
+          <div className="space-y-2 pt-1">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <p className="text-xs font-medium text-foreground">Noise suppression</p>
+                <p className="text-[10px] text-muted-foreground">
+                  {hasNoiseProfile ? 'Using your learned room noise' : 'Adapts to steady background noise'}
+                </p>
+              </div>
+              <Switch
+                checked={settings.noiseSuppression}
+                onCheckedChange={(checked) => updateSettings({ noiseSuppression: checked })}
+              />
+            </div>
+            {settings.noiseSuppression && (
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] text-muted-foreground w-14">Strength</span>
+                <Slider
+                  value={[settings.noiseSuppressionStrength * 100]}
+                  onValueChange={([value]) => updateSettings({ noiseSuppressionStrength: value / 100 })}
+                  min={0}
+                  max={100}
+                  step={5}
+                  className="flex-1"
+                />
+                <span className="text-[10px] font-mono text-muted-foreground w-9 text-right">
+                  {Math.round(settings.noiseSuppressionStrength * 100)}%
+                </span>
+              </div>
+            )}
+            <div className="flex items-center gap-3">
+              <button
+                onClick={learnNoise}
+                disabled={isLearningNoise}
+                className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground disabled:opacity-70"
+              >
+                {isLearningNoise ? <Loader2 className="w-3 h-3 animate-spin" /> : <AudioWaveform className="w-3 h-3" />}
+                {isLearningNoise ? 'Listening... stay quiet' : 'Learn noise'}
+              </button>
+              {hasNoiseProfile && !isLearningNoise && (
+                <button
+                  onClick={forgetNoise}
+                  className="text-xs underline text-muted-foreground hover:text-foreground"
+                >
+                  Forget learned noise
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Mixer */}
+      {settings.audioSource !== 'none' && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">Mixer</span>
+            {usesMic && (
+              <button
+                onClick={() => setIsCheckingLevels(prev => !prev)}
+                className={cn(
+                  "flex items-center gap-1 text-xs transition-colors",
+                  isCheckingLevels ? "text-primary" : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                <Activity className="w-3 h-3" />
+                {isCheckingLevels ? 'Stop level check' : 'Check mic level'}
+              </button>
+            )}
+          </div>
+          <AudioMixerPanel micPreviewStream={micPreviewStream} />
+          {settings.audioSource === 'both' && (
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <p className="text-xs font-medium text-foreground">Save separate tracks</p>
+                <p className="text-[10px] text-muted-foreground">Keep mic and system audio apart for remixing in the editor</p>
+              </div>
+              <Switch
+                checked={settings.recordStems}
+                onCheckedChange={(checked) => updateSettings({ recordStems: checked })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* System Audio Warning - Critical for user understanding */}
       <AnimatePresence>
         {showSystemAudioTip && (
@@ -158,7 +356,7 @@ export const AudioSelector = () => {
       </AnimatePresence>
 
       {/* Microphone Status */}
-      {(settings.audioSource === 'mic' || settings.audioSource === 'both') && micPermission !== 'denied' && (
+      {usesMic && micPermission !== 'denied' && (
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
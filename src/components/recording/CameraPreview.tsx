@@ -7,63 +7,147 @@ import {
   Square, 
   RectangleHorizontal,
   FlipHorizontal,
-  Sparkles
+  Sparkles,
+  Ban,
+  Droplets,
+  Image as ImageIcon
 } from 'lucide-react';
 import { motion as m, AnimatePresence } from 'framer-motion';
-import { useRecording, CameraShape, WebcamSize, WebcamCorner } from '@/contexts/RecordingContext';
+import { useRecording, CameraShape, WebcamSize, WebcamCorner, RecordingSettings } from '@/contexts/RecordingContext';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import { openCamera } from '@/lib/mediaDevices';
+import { createWebcamBackgroundProcessor, loadSegmenter, prepareBackgroundImage, WebcamBackground } from '@/lib/webcamBackground';
+import { toast } from '@/hooks/use-toast';
+import { DeviceSelect } from './DeviceSelect';
 import { cn } from '@/lib/utils';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 
 export const CameraPreview = () => {
-  const { settings, updateSettings, setCameraStream, isRecording } = useRecording();
+  const { settings, updateSettings, setCameraStream, isRecording, webcamBackgroundImageUrl, setWebcamBackgroundImage } = useRecording();
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [hasCamera, setHasCamera] = useState(false);
+  const effectCanvasRef = useRef<HTMLCanvasElement>(null);
+  const backgroundInputRef = useRef<HTMLInputElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const { cameras, refresh: refreshDevices } = useMediaDevices();
+  const hasCamera = cameras.length > 0;
 
+  // (Re)open the preview whenever the camera is toggled or a different device is picked
   useEffect(() => {
-    const checkCamera = async () => {
-      try {
-        const devices = await navigator.mediaDevices.enumerateDevices();
-        setHasCamera(devices.some(d => d.kind === 'videoinput'));
-      } catch {
-        setHasCamera(false);
+    if (!settings.cameraEnabled || !hasCamera) return;
+
+    let cancelled = false;
+    let previewStream: MediaStream | null = null;
+
+    openCamera(settings.cameraDeviceId, { width: 320, height: 240 })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        previewStream = mediaStream;
+        setStream(mediaStream);
+        setCameraStream(mediaStream);
+        // Labels are hidden until camera access has been granted
+        refreshDevices();
+      })
+      .catch((err) => {
+        console.error('Camera access denied:', err);
+        updateSettings({ cameraEnabled: false });
+      });
+
+    return () => {
+      cancelled = true;
+      if (previewStream) {
+        const stopped = previewStream;
+        stopped.getTracks().forEach(track => track.stop());
+        setStream(null);
+        // The recording may have taken over the shared camera stream by now
+        setCameraStream(prev => (prev === stopped ? null : prev));
       }
     };
-    checkCamera();
-  }, []);
+  }, [settings.cameraEnabled, settings.cameraDeviceId, hasCamera, setCameraStream, updateSettings, refreshDevices]);
 
+  // The preview element only mounts once a stream exists
   useEffect(() => {
-    const setupCamera = async () => {
-      if (settings.cameraEnabled && hasCamera) {
-        try {
-          const mediaStream = await navigator.mediaDevices.getUserMedia({
-            video: { width: 320, height: 240, facingMode: 'user' }
-          });
-          setStream(mediaStream);
-          setCameraStream(mediaStream);
-          if (videoRef.current) {
-            videoRef.current.srcObject = mediaStream;
-          }
-        } catch (err) {
-          console.error('Camera access denied:', err);
-          updateSettings({ cameraEnabled: false });
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream]);
+
+  // Preview the background effect with the same processing the recording uses;
+  // paused while recording so the two don't compete for the CPU
+  const backgroundOptionsRef = useRef({ mode: settings.webcamBackground, imageUrl: webcamBackgroundImageUrl });
+  backgroundOptionsRef.current = { mode: settings.webcamBackground, imageUrl: webcamBackgroundImageUrl };
+  const showBackgroundEffect = settings.cameraEnabled && settings.webcamBackground !== 'none' && !isRecording;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = effectCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!showBackgroundEffect || !stream || !video || !canvas || !ctx) return;
+
+    const processor = createWebcamBackgroundProcessor(() => backgroundOptionsRef.current);
+    let frame = 0;
+    const draw = (now: number) => {
+      if (video.readyState >= 2) {
+        if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+          canvas.width = video.videoWidth;
+          canvas.height = video.videoHeight;
         }
-      } else if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-        setStream(null);
-        setCameraStream(null);
+        ctx.drawImage(processor.render(video, now), 0, 0, canvas.width, canvas.height);
       }
+      frame = requestAnimationFrame(draw);
     };
-
-    setupCamera();
+    frame = requestAnimationFrame(draw);
 
     return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
+      cancelAnimationFrame(frame);
+      processor.dispose();
     };
-  }, [settings.cameraEnabled, hasCamera]);
+  }, [showBackgroundEffect, stream]);
+
+  const applyBackground = (changes: Partial<RecordingSettings> & { webcamBackground: WebcamBackground }) => {
+    updateSettings(changes);
+    if (changes.webcamBackground === 'none') return;
+
+    loadSegmenter().catch((err) => {
+      console.error('Could not load background segmentation:', err);
+      updateSettings({ webcamBackground: 'none' });
+      toast({
+        title: "Background Effects Unavailable",
+        description: "This browser could not run background segmentation.",
+        variant: "destructive",
+      });
+    });
+  };
+
+  // Replacing needs an image first
+  const selectBackground = (mode: WebcamBackground) => {
+    if (mode === 'image' && !settings.webcamBackgroundImage) {
+      backgroundInputRef.current?.click();
+      return;
+    }
+    applyBackground({ webcamBackground: mode });
+  };
+
+  const handleBackgroundImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      await setWebcamBackgroundImage(await prepareBackgroundImage(file));
+      applyBackground({ webcamBackground: 'image' });
+    } catch (err) {
+      console.error('Failed to load background image:', err);
+      toast({
+        title: "Image Not Loaded",
+        description: err instanceof Error ? err.message : "Could not use that image",
+        variant: "destructive",
+      });
+    }
+  };
 
   const toggleCamera = () => {
     updateSettings({ cameraEnabled: !settings.cameraEnabled });
@@ -88,6 +172,12 @@ export const CameraPreview = () => {
     { id: 'bottom-right', label: 'BR', position: 'bottom-1 right-1' },
   ];
 
+  const backgrounds: { id: WebcamBackground; icon: typeof Circle; label: string }[] = [
+    { id: 'none', icon: Ban, label: 'No effect' },
+    { id: 'blur', icon: Droplets, label: 'Blur background' },
+    { id: 'image', icon: ImageIcon, label: 'Replace background' },
+  ];
+
   const isLocked = isRecording;
 
   return (
@@ -106,6 +196,16 @@ export const CameraPreview = () => {
       <p className="text-xs text-muted-foreground">
         Webcam will be composited into the final recording.
       </p>
+
+      {hasCamera && (
+        <DeviceSelect
+          devices={cameras}
+          value={settings.cameraDeviceId}
+          onChange={(deviceId) => updateSettings({ cameraDeviceId: deviceId })}
+          icon={Camera}
+          disabled={isLocked}
+        />
+      )}
       
       <div className="flex gap-4">
         {/* Toggle & Preview */}
@@ -144,6 +244,15 @@ export const CameraPreview = () => {
                     settings.webcamMirror && "scale-x-[-1]"
                   )}
                 />
+                {showBackgroundEffect && (
+                  <canvas
+                    ref={effectCanvasRef}
+                    className={cn(
+                      "absolute inset-0 w-full h-full object-cover",
+                      settings.webcamMirror && "scale-x-[-1]"
+                    )}
+                  />
+                )}
               </m.div>
             ) : (
               <m.div
@@ -257,6 +366,46 @@ export const CameraPreview = () => {
             </div>
           </div>
 
+          {/* Background Effect */}
+          <div className="space-y-2">
+            <span className="text-xs text-muted-foreground">Background</span>
+            <div className="flex items-center gap-1">
+              {backgrounds.map((background) => (
+                <button
+                  key={background.id}
+                  onClick={() => selectBackground(background.id)}
+                  disabled={!settings.cameraEnabled || isLocked}
+                  title={background.label}
+                  className={cn(
+                    "p-2 rounded-lg border transition-all",
+                    settings.webcamBackground === background.id && settings.cameraEnabled
+                      ? "border-primary bg-primary/10 text-primary"
+                      : "border-border bg-card text-muted-foreground hover:border-primary/50",
+                    (!settings.cameraEnabled || isLocked) && "opacity-50 cursor-not-allowed"
+                  )}
+                >
+                  <background.icon className="w-4 h-4" />
+                </button>
+              ))}
+              {settings.webcamBackground === 'image' && settings.cameraEnabled && (
+                <button
+                  onClick={() => backgroundInputRef.current?.click()}
+                  disabled={isLocked}
+                  className="ml-1 text-xs text-primary hover:underline disabled:opacity-50"
+                >
+                  Change image
+                </button>
+              )}
+              <input
+                ref={backgroundInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={handleBackgroundImage}
+              />
+            </div>
+          </div>
+
           {/* Toggle Options */}
           <div className="flex flex-wrap gap-4 pt-1">
             <div className="flex items-center gap-2">
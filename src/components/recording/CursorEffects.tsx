@@ -64,7 +64,8 @@ export const CursorEffects = () => {
     };
   }, [isRecording, handleMouseMove, handleClick, handleMouseLeave]);
 
-  if (!isRecording) return null;
+  // The compositor draws the cursor and its effects into the video itself
+  if (!isRecording || settings.customCursor) return null;
 
   return (
     <div 
@@ -0,0 +1,43 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_DEVICE_VALUE, getDeviceLabel } from '@/lib/mediaDevices';
+import { cn } from '@/lib/utils';
+
+interface DeviceSelectProps {
+  devices: MediaDeviceInfo[];
+  value: string; // deviceId, empty for the system default
+  onChange: (deviceId: string) => void;
+  icon: React.ElementType;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const DeviceSelect = ({ devices, value, onChange, icon: Icon, disabled, className }: DeviceSelectProps) => {
+  // A remembered device that is unplugged right now stays selectable so the choice isn't lost
+  const isMissing = value !== '' && !devices.some(device => device.deviceId === value);
+
+  return (
+    <Select
+      value={value || DEFAULT_DEVICE_VALUE}
+      onValueChange={(v) => onChange(v === DEFAULT_DEVICE_VALUE ? '' : v)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={cn("h-9 text-xs", className)}>
+        <div className="flex items-center gap-2 min-w-0">
+          <Icon className="w-3.5 h-3.5 shrink-0 text-muted-foreground" />
+          <SelectValue />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_DEVICE_VALUE}>System default</SelectItem>
+        {devices.map((device, index) => (
+          <SelectItem key={device.deviceId} value={device.deviceId}>
+            {getDeviceLabel(device, index)}
+          </SelectItem>
+        ))}
+        {isMissing && (
+          <SelectItem value={value}>Disconnected device (default until reconnected)</SelectItem>
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -1,5 +1,12 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { createRoot, Root } from 'react-dom/client';
+import type { CameraShape } from '@/contexts/RecordingContext';
+import type { WebcamLayout } from '@/lib/webcamLayout';
+import { useAnnotationEditor } from '@/hooks/useAnnotationEditor';
+import { renderAnnotationImage } from '@/lib/annotations';
+import { AnnotationSurface } from './AnnotationSurface';
+import { AnnotationToolbar } from './AnnotationToolbar';
+import { WebcamLayoutPad } from './WebcamLayoutPad';
 
 interface CanvasOverlayCallback {
   (imageData: string, width: number, height: number): void;
@@ -23,6 +30,10 @@ interface DocumentPiPControllerProps {
   onChangeDrawingColor?: (color: string) => void;
   onClearDrawings?: () => void;
   onSaveCanvasOverlay?: CanvasOverlayCallback;
+  webcamLayout?: WebcamLayout | null;
+  webcamShape?: CameraShape;
+  webcamAspectRatio?: number;
+  onChangeWebcamLayout?: (layout: WebcamLayout, commit: boolean) => void;
 }
 
 const formatDuration = (seconds: number) => {
@@ -31,9 +42,7 @@ const formatDuration = (seconds: number) => {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
-// Canvas colors and brush sizes
-const CANVAS_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ffffff', '#000000'];
-const BRUSH_SIZES = [2, 4, 8, 12];
+const CANVAS_BACKGROUND = 'rgba(255, 255, 255, 0.95)';
 
 // Inline styles for offline support
 const styles = {
@@ -158,19 +167,6 @@ const styles = {
     cursor: 'pointer',
     border: 'none',
   }),
-  canvasColorButton: (color: string, isSelected: boolean) => ({
-    width: '14px',
-    height: '14px',
-    borderRadius: '50%',
-    background: color,
-    border: isSelected ? '2px solid #fff' : '1px solid rgba(255,255,255,0.3)',
-    cursor: 'pointer',
-  }),
-  canvas: {
-    flex: 1,
-    cursor: 'crosshair',
-    display: 'block',
-  },
 };
 
 // SVG Icons
@@ -257,21 +253,6 @@ const CanvasIcon = () => (
   </svg>
 );
 
-const TextIcon = () => (
-  <svg style={{ width: '10px', height: '10px' }} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-    <polyline points="4 7 4 4 20 4 20 7" />
-    <line x1="9" y1="20" x2="15" y2="20" />
-    <line x1="12" y1="4" x2="12" y2="20" />
-  </svg>
-);
-
-const DrawIcon = () => (
-  <svg style={{ width: '10px', height: '10px' }} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
-    <path d="M12 19l7-7 3 3-7 7-3-3z" />
-    <path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z" />
-  </svg>
-);
-
 const FilmIcon = () => (
   <svg style={{ width: '10px', height: '10px' }} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
     <rect x="2" y="2" width="20" height="20" rx="2.18" ry="2.18" />
@@ -289,6 +270,17 @@ const DownloadIcon = () => (
   </svg>
 );
 
+const MoveIcon = () => (
+  <svg style={styles.buttonIcon} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
+    <polyline points="5 9 2 12 5 15" />
+    <polyline points="9 5 12 2 15 5" />
+    <polyline points="15 19 12 22 9 19" />
+    <polyline points="19 9 22 12 19 15" />
+    <line x1="2" y1="12" x2="22" y2="12" />
+    <line x1="12" y1="2" x2="12" y2="22" />
+  </svg>
+);
+
 const CloseIcon = () => (
   <svg style={{ width: '10px', height: '10px' }} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round">
     <line x1="18" y1="6" x2="6" y2="18" />
@@ -323,20 +315,20 @@ const PiPControlPanel = ({
   onChangeDrawingColor,
   onClearDrawings,
   onSaveCanvasOverlay,
+  webcamLayout,
+  webcamShape = 'circle',
+  webcamAspectRatio = 16 / 9,
+  onChangeWebcamLayout,
   pipWindow,
 }: PiPControlPanelProps) => {
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [isCanvasOpen, setIsCanvasOpen] = useState(false);
+  const [isWebcamPadOpen, setIsWebcamPadOpen] = useState(false);
+  const showWebcamPad = isWebcamPadOpen && !isCanvasOpen && !!webcamLayout && !!onChangeWebcamLayout;
   
   // Canvas state
-  const [canvasTool, setCanvasTool] = useState<'draw' | 'text'>('draw');
-  const [canvasColor, setCanvasColor] = useState('#ef4444');
-  const [brushSize, setBrushSize] = useState(4);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [textInput, setTextInput] = useState('');
-  const [textPosition, setTextPosition] = useState<{ x: number; y: number } | null>(null);
-  
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const canvasEditor = useAnnotationEditor();
+  const canvasSurfaceRef = useRef<HTMLDivElement | null>(null);
 
   // Resize PiP window when canvas opens/closes
   useEffect(() => {
@@ -344,133 +336,40 @@ const PiPControlPanel = ({
     
     try {
       if (isCanvasOpen) {
-        pipWindow.resizeTo(320, 350);
+        pipWindow.resizeTo(340, 420);
+      } else if (showWebcamPad) {
+        pipWindow.resizeTo(260, 250);
       } else {
         pipWindow.resizeTo(260, 90);
       }
     } catch (e) {
       // Ignore resize errors
     }
-  }, [isCanvasOpen, pipWindow]);
-
-  // Initialize canvas when opened
-  useEffect(() => {
-    if (!isCanvasOpen) return;
-    
-    // Small delay to ensure canvas is in DOM
-    const timer = setTimeout(() => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) return;
-      
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-    }, 50);
-    
-    return () => clearTimeout(timer);
-  }, [isCanvasOpen]);
-
-  // Drawing handlers
-  const handleMouseDown = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (canvasTool !== 'draw') {
-      // Handle text placement
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      const rect = canvas.getBoundingClientRect();
-      setTextPosition({ x: e.clientX - rect.left, y: e.clientY - rect.top });
-      return;
-    }
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    ctx.beginPath();
-    ctx.moveTo(x, y);
-    ctx.strokeStyle = canvasColor;
-    ctx.lineWidth = brushSize;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    
-    setIsDrawing(true);
-  }, [canvasTool, canvasColor, brushSize]);
-
-  const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing || canvasTool !== 'draw') return;
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    ctx.lineTo(x, y);
-    ctx.stroke();
-  }, [isDrawing, canvasTool]);
-
-  const handleMouseUp = useCallback(() => {
-    setIsDrawing(false);
-  }, []);
-
-  const addText = useCallback(() => {
-    if (!textPosition || !textInput.trim()) return;
-    
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    ctx.font = '16px Arial, sans-serif';
-    ctx.fillStyle = canvasColor;
-    ctx.fillText(textInput, textPosition.x, textPosition.y);
-    
-    setTextInput('');
-    setTextPosition(null);
-  }, [textPosition, textInput, canvasColor]);
-
-  const clearCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    ctx.fillStyle = 'rgba(255, 255, 255, 0.95)';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    setTextPosition(null);
-    setTextInput('');
-  }, []);
+  }, [isCanvasOpen, showWebcamPad, pipWindow]);
+
+  // The canvas is flattened at the size it is shown at, so shapes keep their proportions
+  const renderCanvas = useCallback(() => {
+    const bounds = canvasSurfaceRef.current?.getBoundingClientRect();
+    return renderAnnotationImage(
+      canvasEditor.shapes,
+      Math.round(bounds?.width || 300),
+      Math.round(bounds?.height || 200),
+      CANVAS_BACKGROUND
+    );
+  }, [canvasEditor.shapes]);
 
   const downloadCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    
     const link = document.createElement('a');
     link.download = `drawing-${Date.now()}.png`;
-    link.href = canvas.toDataURL('image/png');
+    link.href = renderCanvas().toDataURL('image/png');
     link.click();
-  }, []);
+  }, [renderCanvas]);
 
   const saveToVideo = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || !onSaveCanvasOverlay) return;
-    
-    const imageData = canvas.toDataURL('image/png');
-    onSaveCanvasOverlay(imageData, canvas.width, canvas.height);
-  }, [onSaveCanvasOverlay]);
+    if (!onSaveCanvasOverlay) return;
+    const canvas = renderCanvas();
+    onSaveCanvasOverlay(canvas.toDataURL('image/png'), canvas.width, canvas.height);
+  }, [renderCanvas, onSaveCanvasOverlay]);
 
   return (
     <div style={styles.container}>
@@ -618,6 +517,20 @@ const PiPControlPanel = ({
           </button>
         )}
 
+        {/* Webcam Position */}
+        {webcamLayout && onChangeWebcamLayout && (
+          <button
+            onClick={() => {
+              setIsWebcamPadOpen(!showWebcamPad);
+              setIsCanvasOpen(false);
+            }}
+            style={styles.button('#3b82f6', showWebcamPad)}
+            title="Move/Resize Webcam"
+          >
+            <MoveIcon />
+          </button>
+        )}
+
         <div style={styles.divider} />
 
         {/* Canvas Toggle - Opens embedded canvas */}
@@ -634,63 +547,9 @@ const PiPControlPanel = ({
       {isCanvasOpen && (
         <div style={styles.canvasContainer}>
           {/* Canvas Toolbar */}
-          <div style={styles.canvasToolbar}>
-            {/* Tool selection */}
+          <AnnotationToolbar editor={canvasEditor} style={{ ...styles.canvasToolbar, color: '#e5e7eb' }}>
             <button
-              onClick={() => setCanvasTool('draw')}
-              style={styles.canvasToolButton(canvasTool === 'draw')}
-              title="Draw"
-            >
-              <DrawIcon />
-            </button>
-            <button
-              onClick={() => setCanvasTool('text')}
-              style={styles.canvasToolButton(canvasTool === 'text')}
-              title="Text"
-            >
-              <TextIcon />
-            </button>
-
-            <div style={{ width: '1px', height: '14px', background: 'rgba(255,255,255,0.2)', margin: '0 2px' }} />
-
-            {/* Colors */}
-            {CANVAS_COLORS.map(color => (
-              <button
-                key={color}
-                onClick={() => setCanvasColor(color)}
-                style={styles.canvasColorButton(color, canvasColor === color)}
-                title={color}
-              />
-            ))}
-
-            <div style={{ width: '1px', height: '14px', background: 'rgba(255,255,255,0.2)', margin: '0 2px' }} />
-
-            {/* Brush sizes */}
-            {BRUSH_SIZES.map(size => (
-              <button
-                key={size}
-                onClick={() => setBrushSize(size)}
-                style={{
-                  ...styles.canvasToolButton(brushSize === size),
-                  width: '18px',
-                  height: '18px',
-                }}
-                title={`${size}px`}
-              >
-                <div style={{
-                  width: Math.min(size, 8),
-                  height: Math.min(size, 8),
-                  borderRadius: '50%',
-                  background: 'currentColor',
-                }} />
-              </button>
-            ))}
-
-            <div style={{ width: '1px', height: '14px', background: 'rgba(255,255,255,0.2)', margin: '0 2px' }} />
-
-            {/* Actions */}
-            <button
-              onClick={clearCanvas}
+              onClick={canvasEditor.clear}
               style={styles.canvasToolButton(false)}
               title="Clear"
             >
@@ -719,64 +578,35 @@ const PiPControlPanel = ({
             >
               <CloseIcon />
             </button>
-          </div>
-
-          {/* Canvas Element */}
-          <div style={{ position: 'relative', flex: 1 }}>
-            <canvas
-              ref={canvasRef}
-              width={300}
-              height={200}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseUp}
-              style={{
-                ...styles.canvas,
-                width: '100%',
-                height: '100%',
-                cursor: canvasTool === 'draw' ? 'crosshair' : 'text',
-              }}
+          </AnnotationToolbar>
+
+          {/* Canvas Surface */}
+          <div ref={canvasSurfaceRef} style={{ position: 'relative', flex: 1 }}>
+            <AnnotationSurface
+              editor={canvasEditor}
+              background={CANVAS_BACKGROUND}
+              style={{ position: 'absolute', inset: 0 }}
             />
-
-            {/* Text Input */}
-            {textPosition && (
-              <input
-                type="text"
-                value={textInput}
-                onChange={(e) => setTextInput(e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter') addText();
-                  if (e.key === 'Escape') {
-                    setTextPosition(null);
-                    setTextInput('');
-                  }
-                }}
-                onBlur={addText}
-                autoFocus
-                style={{
-                  position: 'absolute',
-                  left: textPosition.x,
-                  top: textPosition.y - 10,
-                  background: 'rgba(0,0,0,0.8)',
-                  border: '1px solid #3b82f6',
-                  borderRadius: '4px',
-                  color: canvasColor,
-                  padding: '2px 4px',
-                  fontSize: '14px',
-                  outline: 'none',
-                  minWidth: '60px',
-                }}
-                placeholder="Type..."
-              />
-            )}
           </div>
         </div>
       )}
 
+      {/* Webcam Position Pad */}
+      {showWebcamPad && (
+        <div style={{ flex: 1, display: 'flex', alignItems: 'center', padding: '6px 10px' }}>
+          <WebcamLayoutPad
+            layout={webcamLayout}
+            shape={webcamShape}
+            aspectRatio={webcamAspectRatio}
+            onChange={onChangeWebcamLayout}
+          />
+        </div>
+      )}
+
       {/* Footer */}
       <div style={styles.footer}>
         {isCanvasOpen ? 'Draw or type on canvas • Works across all screens!' :
+         showWebcamPad ? 'Drag the webcam to move it, its corner to resize' :
          isDrawingMode ? 'Draw on screen • ESC to clear' : 
          isZoomMode ? 'Click to spotlight' : 'Click Canvas icon to draw anywhere'}
       </div>
@@ -805,6 +635,10 @@ export const DocumentPiPController = ({
   onChangeDrawingColor,
   onClearDrawings,
   onSaveCanvasOverlay,
+  webcamLayout,
+  webcamShape,
+  webcamAspectRatio,
+  onChangeWebcamLayout,
 }: DocumentPiPControllerProps) => {
   const pipWindowRef = useRef<Window | null>(null);
   const rootRef = useRef<Root | null>(null);
@@ -905,10 +739,14 @@ export const DocumentPiPController = ({
         onChangeDrawingColor={onChangeDrawingColor}
         onClearDrawings={onClearDrawings}
         onSaveCanvasOverlay={onSaveCanvasOverlay}
+        webcamLayout={webcamLayout}
+        webcamShape={webcamShape}
+        webcamAspectRatio={webcamAspectRatio}
+        onChangeWebcamLayout={onChangeWebcamLayout}
         pipWindow={pipWindowRef.current}
       />
     );
-  }, [duration, isPaused, isMicOn, isDrawingMode, isZoomMode, drawingColor, isPipOpen, onPause, onResume, onStop, onToggleMic, onScreenshot, onToggleDrawing, onToggleZoom, onChangeDrawingColor, onClearDrawings, onSaveCanvasOverlay]);
+  }, [duration, isPaused, isMicOn, isDrawingMode, isZoomMode, drawingColor, isPipOpen, onPause, onResume, onStop, onToggleMic, onScreenshot, onToggleDrawing, onToggleZoom, onChangeDrawingColor, onClearDrawings, onSaveCanvasOverlay, webcamLayout, webcamShape, webcamAspectRatio, onChangeWebcamLayout]);
 
   // Auto-open PiP on mount if supported
   useEffect(() => {
@@ -17,14 +17,22 @@ import {
   Sun,
   Trash2,
   Info,
-  Keyboard
+  Keyboard,
+  SlidersHorizontal,
+  Move,
+  LayoutPanelLeft,
+  Crop
 } from 'lucide-react';
 import { useRecording } from '@/contexts/RecordingContext';
 import { useMediaSession } from '@/hooks/useMediaSession';
 import { useBackgroundStability } from '@/hooks/useBackgroundStability';
 import { useDocumentPiP } from './DocumentPiPController';
 import { ScreenAnnotationOverlay } from './ScreenAnnotationOverlay';
+import { AudioMixerPanel } from './AudioMixerPanel';
+import { WebcamLayoutPad } from './WebcamLayoutPad';
+import { RegionSelector } from './RegionSelector';
 import { cn } from '@/lib/utils';
+import { getLayoutLabel, getNextLayout } from '@/lib/sceneLayout';
 
 const formatDuration = (seconds: number) => {
   const mins = Math.floor(seconds / 60);
@@ -59,6 +67,17 @@ export const FloatingControls = () => {
     isPipActive,
     toggleMic,
     isRecording,
+    addCanvasOverlay,
+    setVisibleAnnotations,
+    webcamLayout,
+    updateWebcamLayout,
+    sceneLayout,
+    availableLayouts,
+    setSceneLayout,
+    screenStream,
+    captureRegion,
+    setCaptureRegion,
+    canvasRef,
   } = useRecording();
 
   // Drawing and zoom state
@@ -72,8 +91,17 @@ export const FloatingControls = () => {
   const [isMinimized, setIsMinimized] = useState(false);
   const [showPipHint, setShowPipHint] = useState(true);
   const [isTabFocused, setIsTabFocused] = useState(true);
+  const [showMixer, setShowMixer] = useState(false);
+  const [showWebcamLayout, setShowWebcamLayout] = useState(false);
+  const [showRegion, setShowRegion] = useState(false);
 
   const isMicOn = settings.audioSource === 'mic' || settings.audioSource === 'both';
+  // The bubble can only be placed freely in the plain screen layout
+  const canPlaceWebcam = !!webcamLayout && sceneLayout === 'screen';
+  const canCrop = !!screenStream && sceneLayout !== 'camera';
+  const compositeAspectRatio = canvasRef.current && canvasRef.current.height > 0
+    ? canvasRef.current.width / canvasRef.current.height
+    : 16 / 9;
 
   // Initialize Media Session API for hardware media key control
   useMediaSession({
@@ -139,6 +167,11 @@ export const FloatingControls = () => {
     onToggleZoom: toggleZoomMode,
     onChangeDrawingColor: setDrawingColor,
     onClearDrawings: clearDrawings,
+    onSaveCanvasOverlay: addCanvasOverlay,
+    webcamLayout: canPlaceWebcam ? webcamLayout : null,
+    webcamShape: settings.cameraShape,
+    webcamAspectRatio: compositeAspectRatio,
+    onChangeWebcamLayout: updateWebcamLayout,
   });
 
   // Track tab focus
@@ -185,6 +218,7 @@ export const FloatingControls = () => {
         animate={{ opacity: 1, scale: 1 }}
         style={{ left: position.x, bottom: position.y }}
         className="fixed z-[9999]"
+        data-recording-controls
       >
         <button
           onClick={() => setIsMinimized(false)}
@@ -217,6 +251,7 @@ export const FloatingControls = () => {
         zoomPosition={zoomPosition}
         drawingColor={drawingColor}
         brushSize={4}
+        onAnnotationsChange={setVisibleAnnotations}
         key={clearTrigger}
       />
 
@@ -231,6 +266,8 @@ export const FloatingControls = () => {
         exit={{ opacity: 0, scale: 0.9, y: 20 }}
         style={{ left: position.x, bottom: position.y }}
         className="fixed z-[9999] glass rounded-2xl shadow-xl p-2 border border-border"
+        // Clicks on the controls themselves are not logged for auto-zoom
+        data-recording-controls
       >
       <div className="flex items-center gap-2">
         {/* Drag Handle */}
@@ -311,6 +348,59 @@ export const FloatingControls = () => {
           {isMicOn ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4" />}
         </button>
 
+        {/* Audio Mixer */}
+        {settings.audioSource !== 'none' && (
+          <button
+            onClick={() => setShowMixer(prev => !prev)}
+            className={cn(
+              "p-2.5 rounded-xl transition-colors",
+              showMixer ? "bg-primary/10 text-primary" : "bg-secondary text-muted-foreground"
+            )}
+            title="Audio Mixer"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+          </button>
+        )}
+
+        {/* Scene Layout */}
+        {sceneLayout && availableLayouts.length > 1 && (
+          <button
+            onClick={() => setSceneLayout(getNextLayout(sceneLayout, availableLayouts))}
+            className="p-2.5 rounded-xl bg-secondary text-muted-foreground hover:bg-secondary/80 transition-colors"
+            title={`Layout: ${getLayoutLabel(sceneLayout)} (Shift+L to switch)`}
+          >
+            <LayoutPanelLeft className="w-4 h-4" />
+          </button>
+        )}
+
+        {/* Capture Region */}
+        {canCrop && (
+          <button
+            onClick={() => setShowRegion(prev => !prev)}
+            className={cn(
+              "p-2.5 rounded-xl transition-colors",
+              showRegion || captureRegion ? "bg-primary/10 text-primary" : "bg-secondary text-muted-foreground"
+            )}
+            title="Crop Recording Region"
+          >
+            <Crop className="w-4 h-4" />
+          </button>
+        )}
+
+        {/* Webcam Position */}
+        {canPlaceWebcam && (
+          <button
+            onClick={() => setShowWebcamLayout(prev => !prev)}
+            className={cn(
+              "p-2.5 rounded-xl transition-colors",
+              showWebcamLayout ? "bg-primary/10 text-primary" : "bg-secondary text-muted-foreground"
+            )}
+            title="Move/Resize Webcam"
+          >
+            <Move className="w-4 h-4" />
+          </button>
+        )}
+
         {/* Click Animation Toggle */}
         <button
           onClick={() => updateSettings({ clickAnimation: !settings.clickAnimation })}
@@ -420,6 +510,82 @@ export const FloatingControls = () => {
 
       {/* Status Indicators */}
       <div className="mt-2 pt-2 border-t border-border space-y-2">
+        {/* Audio Mixer Panel */}
+        <AnimatePresence>
+          {showMixer && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+              // Dragging a fader shouldn't drag the whole control bar
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <AudioMixerPanel className="p-2" />
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Capture Region Pad */}
+        <AnimatePresence>
+          {showRegion && canCrop && screenStream && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <div className="p-2 space-y-1.5">
+                <RegionSelector
+                  stream={screenStream}
+                  region={captureRegion}
+                  aspectRatio={compositeAspectRatio}
+                  onChange={setCaptureRegion}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-[10px] text-muted-foreground">
+                    Drag to pick a region, drag inside it to pan
+                  </p>
+                  {captureRegion && (
+                    <button
+                      onClick={() => setCaptureRegion(null)}
+                      className="text-[10px] text-primary hover:underline flex-shrink-0"
+                    >
+                      Show all
+                    </button>
+                  )}
+                </div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Webcam Position Pad */}
+        <AnimatePresence>
+          {showWebcamLayout && canPlaceWebcam && (
+            <motion.div
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              className="overflow-hidden"
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              <div className="p-2 space-y-1.5">
+                <WebcamLayoutPad
+                  layout={webcamLayout}
+                  shape={settings.cameraShape}
+                  aspectRatio={compositeAspectRatio}
+                  onChange={updateWebcamLayout}
+                />
+                <p className="text-[10px] text-muted-foreground">
+                  Drag the bubble to move it, its corner to resize
+                </p>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Tab Focus Warning */}
         <AnimatePresence>
           {!isTabFocused && (
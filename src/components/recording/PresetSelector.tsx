@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Bookmark, Plus, X, Check } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useRecording } from '@/contexts/RecordingContext';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+export const PresetSelector = () => {
+  const { settings, presets, applyPreset, savePreset, deletePreset, isRecording } = useRecording();
+  const [isNaming, setIsNaming] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  // A preset is active when every value it sets matches the current settings
+  const isPresetActive = (presetSettings: Partial<typeof settings>) =>
+    (Object.keys(presetSettings) as Array<keyof typeof settings>).every(
+      key => settings[key] === presetSettings[key]
+    );
+
+  const handleSave = () => {
+    if (!presetName.trim()) return;
+    savePreset(presetName);
+    setPresetName('');
+    setIsNaming(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+          Presets
+        </h3>
+        {!isNaming && (
+          <button
+            onClick={() => setIsNaming(true)}
+            disabled={isRecording}
+            className="flex items-center gap-1 text-xs text-primary hover:text-primary/80 disabled:opacity-50"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Save current
+          </button>
+        )}
+      </div>
+
+      {isNaming && (
+        <div className="flex gap-2">
+          <Input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setIsNaming(false);
+            }}
+            placeholder="Preset name..."
+            autoFocus
+          />
+          <button
+            onClick={handleSave}
+            className="p-2 rounded-lg bg-primary text-primary-foreground"
+            title="Save Preset"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setIsNaming(false)}
+            className="p-2 rounded-lg bg-secondary text-muted-foreground"
+            title="Cancel"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {presets.map((preset) => {
+          const isActive = isPresetActive(preset.settings);
+
+          return (
+            <motion.div
+              key={preset.id}
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              className={cn(
+                "flex items-center rounded-lg border-2 text-sm font-medium transition-all",
+                isActive
+                  ? "border-primary bg-primary/10 text-primary"
+                  : "border-border bg-card text-muted-foreground hover:border-primary/50"
+              )}
+            >
+              <button
+                onClick={() => applyPreset(preset.id)}
+                disabled={isRecording}
+                className="flex items-center gap-2 px-3 py-2 disabled:cursor-not-allowed"
+              >
+                <Bookmark className="w-4 h-4" />
+                {preset.name}
+              </button>
+              {!preset.builtIn && (
+                <button
+                  onClick={() => deletePreset(preset.id)}
+                  disabled={isRecording}
+                  className="pr-2 text-muted-foreground hover:text-destructive"
+                  title="Delete Preset"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,8 @@
-import React, { forwardRef } from 'react';
+import React, { forwardRef, useEffect, useState } from 'react';
 import { Play, Download, Trash2, Clock, HardDrive, Edit3 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Recording } from '@/contexts/RecordingContext';
+import { Recording, useRecording } from '@/contexts/RecordingContext';
 
 interface RecordingCardProps {
   recording: Recording;
@@ -39,10 +39,25 @@ const formatDate = (date: Date) => {
 export const RecordingCard = forwardRef<HTMLDivElement, RecordingCardProps>(
   ({ recording, onPlay, onDownload, onDelete }, ref) => {
     const navigate = useNavigate();
+    const { ensureThumbnails } = useRecording();
+    const [scrubFrame, setScrubFrame] = useState<number | null>(null);
+    const sprite = recording.thumbnailSprite;
+
+    // Older recordings were saved without thumbnails, fill them in once the card is shown
+    useEffect(() => {
+      ensureThumbnails(recording);
+    }, [recording, ensureThumbnails]);
     
     const handleEdit = () => {
       navigate(`/editor?id=${recording.id}`);
     };
+
+    const handleScrub = (e: React.MouseEvent<HTMLDivElement>) => {
+      if (!sprite) return;
+      const rect = e.currentTarget.getBoundingClientRect();
+      const ratio = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 0.999);
+      setScrubFrame(Math.floor(ratio * sprite.frameCount));
+    };
     
     return (
       <motion.div
@@ -54,13 +69,35 @@ export const RecordingCard = forwardRef<HTMLDivElement, RecordingCardProps>(
         className="card-elevated overflow-hidden group"
       >
         {/* Thumbnail/Preview */}
-        <div className="relative aspect-video bg-secondary">
-          <video
-            src={recording.url}
-            className="w-full h-full object-cover"
-            preload="metadata"
-          />
-          <div className="absolute inset-0 bg-background/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+        <div
+          className="relative aspect-video bg-secondary overflow-hidden"
+          onMouseMove={handleScrub}
+          onMouseLeave={() => setScrubFrame(null)}
+        >
+          {sprite && scrubFrame !== null ? (
+            <div
+              className="w-full h-full"
+              style={{
+                backgroundImage: `url(${sprite.imageData})`,
+                backgroundSize: `${sprite.frameCount * 100}% 100%`,
+                backgroundPosition: `${sprite.frameCount > 1 ? (scrubFrame / (sprite.frameCount - 1)) * 100 : 0}% 0`,
+              }}
+            />
+          ) : recording.thumbnail ? (
+            <img
+              src={recording.thumbnail}
+              alt=""
+              className="w-full h-full object-cover"
+              loading="lazy"
+            />
+          ) : (
+            <video
+              src={recording.url}
+              className="w-full h-full object-cover"
+              preload="metadata"
+            />
+          )}
+          <div className="absolute inset-0 bg-background/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
             <motion.button
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.95 }}
@@ -79,6 +116,16 @@ export const RecordingCard = forwardRef<HTMLDivElement, RecordingCardProps>(
             </motion.button>
           </div>
           
+          {/* Scrub Position */}
+          {sprite && scrubFrame !== null && (
+            <div className="absolute bottom-0 left-0 right-0 h-1 bg-background/40">
+              <div
+                className="h-full bg-primary"
+                style={{ width: `${((scrubFrame + 1) / sprite.frameCount) * 100}%` }}
+              />
+            </div>
+          )}
+
           {/* Duration Badge */}
           <div className="absolute bottom-2 right-2 px-2 py-1 rounded-md bg-background/80 backdrop-blur-sm">
             <span className="text-xs font-mono font-medium text-foreground">
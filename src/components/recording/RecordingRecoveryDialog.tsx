@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { LifeBuoy, Clock, Loader2 } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { useRecording } from '@/contexts/RecordingContext';
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatDate = (iso: string) => {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(iso));
+};
+
+/**
+ * RecordingRecoveryDialog - Offers to restore recordings interrupted by a crash or reload
+ *
+ * Chunks are streamed to IndexedDB while recording, so a session that never
+ * reached its stop handler can be stitched back into a playable recording.
+ */
+export const RecordingRecoveryDialog = () => {
+  const { unfinishedSessions, recoverSession, discardSession, isRecording } = useRecording();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const session = unfinishedSessions[0];
+  if (!session || isRecording) return null;
+
+  const handleRecover = async () => {
+    setBusyId(session.id);
+    await recoverSession(session.id);
+    setBusyId(null);
+  };
+
+  const handleDiscard = async () => {
+    setBusyId(session.id);
+    await discardSession(session.id);
+    setBusyId(null);
+  };
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <LifeBuoy className="h-5 w-5 text-primary" />
+            Unfinished Recording Found
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            A recording was interrupted before it could be saved. You can recover
+            what was captured into your library or discard it. Drawings, clicks and
+            camera moves come back with it; separate mic and system audio tracks don't.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 text-sm">
+          <span className="text-foreground">Started {formatDate(session.startedAt)}</span>
+          <span className="flex items-center gap-1 text-muted-foreground font-mono">
+            <Clock className="w-3.5 h-3.5" />
+            {formatDuration(session.duration)}
+          </span>
+        </div>
+
+        {unfinishedSessions.length > 1 && (
+          <p className="text-xs text-muted-foreground">
+            {unfinishedSessions.length - 1} more unfinished recording{unfinishedSessions.length > 2 ? 's' : ''} waiting
+          </p>
+        )}
+
+        <AlertDialogFooter>
+          <Button variant="outline" onClick={handleDiscard} disabled={busyId !== null}>
+            Discard
+          </Button>
+          <Button onClick={handleRecover} disabled={busyId !== null} className="gap-2">
+            {busyId === session.id && <Loader2 className="w-4 h-4 animate-spin" />}
+            Recover
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
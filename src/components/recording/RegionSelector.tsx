@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { CaptureRegion, clampRegion, fitRegionToAspect, MIN_REGION_SIZE } from '@/lib/captureRegion';
+import { cn } from '@/lib/utils';
+
+interface RegionSelectorProps {
+  stream: MediaStream;
+  region: CaptureRegion | null;
+  aspectRatio: number; // output width / height
+  onChange: (region: CaptureRegion | null) => void;
+  className?: string;
+}
+
+interface DragState {
+  mode: 'select' | 'move';
+  startX: number; // pointer position as fractions of the preview
+  startY: number;
+  start: CaptureRegion | null;
+}
+
+/**
+ * Live preview of the shared surface. Drag across it to pick the region to
+ * record, or drag inside the current region to pan it. The region always
+ * keeps the output's aspect ratio, so what is outlined is what gets recorded.
+ */
+export const RegionSelector = ({ stream, region, aspectRatio, onChange, className }: RegionSelectorProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [sourceSize, setSourceSize] = useState({ width: 16, height: 9 });
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    video.play().catch(console.error);
+    return () => {
+      video.srcObject = null;
+    };
+  }, [stream]);
+
+  const getPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - bounds.left) / bounds.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - bounds.top) / bounds.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getPoint(e);
+    const inside = !!region && x >= region.x && x <= region.x + region.width && y >= region.y && y <= region.y + region.height;
+    dragRef.current = { mode: inside ? 'move' : 'select', startX: x, startY: y, start: region };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = getPoint(e);
+
+    if (drag.mode === 'move' && drag.start) {
+      onChange(clampRegion({ ...drag.start, x: drag.start.x + x - drag.startX, y: drag.start.y + y - drag.startY }));
+      return;
+    }
+
+    const width = Math.abs(x - drag.startX);
+    const height = Math.abs(y - drag.startY);
+    // Ignore the jitter of a plain click
+    if (width < MIN_REGION_SIZE && height < MIN_REGION_SIZE) return;
+    const selection = { x: Math.min(x, drag.startX), y: Math.min(y, drag.startY), width, height };
+    onChange(fitRegionToAspect(clampRegion(selection), sourceSize.width, sourceSize.height, aspectRatio));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      className={cn("relative w-full overflow-hidden rounded-lg bg-black cursor-crosshair touch-none select-none", className)}
+      style={{ aspectRatio: `${sourceSize.width} / ${sourceSize.height}` }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <video
+        ref={videoRef}
+        muted
+        playsInline
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        onLoadedMetadata={(e) => {
+          const { videoWidth, videoHeight } = e.currentTarget;
+          if (videoWidth && videoHeight) setSourceSize({ width: videoWidth, height: videoHeight });
+        }}
+      />
+      {region && (
+        <div
+          className="absolute border-2 border-primary rounded-sm pointer-events-none"
+          style={{
+            left: `${region.x * 100}%`,
+            top: `${region.y * 100}%`,
+            width: `${region.width * 100}%`,
+            height: `${region.height * 100}%`,
+            // Dim everything outside the region
+            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+          }}
+        />
+      )}
+    </div>
+  );
+};
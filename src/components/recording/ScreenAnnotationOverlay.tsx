@@ -1,18 +1,15 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useAnnotationEditor } from '@/hooks/useAnnotationEditor';
+import type { AnnotationShape } from '@/lib/annotations';
+import { AnnotationSurface } from './AnnotationSurface';
+import { AnnotationToolbar } from './AnnotationToolbar';
 
 interface Point {
   x: number;
   y: number;
 }
 
-interface DrawPath {
-  id: string;
-  points: Point[];
-  color: string;
-  width: number;
-}
-
 interface ScreenAnnotationOverlayProps {
   isDrawingMode: boolean;
   isZoomMode: boolean;
@@ -20,7 +17,8 @@ interface ScreenAnnotationOverlayProps {
   zoomPosition: Point | null;
   drawingColor: string;
   brushSize: number;
-  onDrawingComplete?: (paths: DrawPath[]) => void;
+  // Called with the shapes currently on screen, in fractions of the page, whenever that changes
+  onAnnotationsChange?: (shapes: AnnotationShape[], screenOffset: Point) => void;
 }
 
 export const ScreenAnnotationOverlay = ({
@@ -30,146 +28,58 @@ export const ScreenAnnotationOverlay = ({
   zoomPosition,
   drawingColor,
   brushSize,
+  onAnnotationsChange,
 }: ScreenAnnotationOverlayProps) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [paths, setPaths] = useState<DrawPath[]>([]);
-  const [currentPath, setCurrentPath] = useState<Point[]>([]);
-
-  // Handle drawing
-  const startDrawing = useCallback((e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawingMode) return;
-    setIsDrawing(true);
-    
-    const point = getPoint(e);
-    setCurrentPath([point]);
-  }, [isDrawingMode]);
-
-  const draw = useCallback((e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawingMode || !isDrawing) return;
-    
-    const point = getPoint(e);
-    setCurrentPath(prev => [...prev, point]);
-  }, [isDrawingMode, isDrawing]);
-
-  const stopDrawing = useCallback(() => {
-    if (!isDrawingMode || !isDrawing) return;
-    setIsDrawing(false);
-    
-    if (currentPath.length > 0) {
-      setPaths(prev => [...prev, {
-        id: Date.now().toString(),
-        points: currentPath,
-        color: drawingColor,
-        width: brushSize,
-      }]);
-      setCurrentPath([]);
-    }
-  }, [isDrawingMode, isDrawing, currentPath, drawingColor, brushSize]);
+  const editor = useAnnotationEditor({ initialColor: drawingColor, initialBrushSize: brushSize });
+  const { shapes, isMoving, setColor, clear, textAnchor } = editor;
+  // Where the page sits on screen, for lining drawings up with a whole-screen capture
+  const screenOffsetRef = useRef<Point>({ x: window.screenX, y: window.screenY });
+  const syncedColorRef = useRef(drawingColor);
 
-  const getPoint = (e: React.MouseEvent | React.TouchEvent): Point => {
-    if ('touches' in e) {
-      const touch = e.touches[0];
-      return { x: touch.clientX, y: touch.clientY };
-    }
-    return { x: e.clientX, y: e.clientY };
-  };
-
-  // Render paths to canvas
+  // The color can also be picked from the PiP controls
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Set canvas size
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Draw all completed paths
-    paths.forEach(path => {
-      if (path.points.length < 2) return;
-      
-      ctx.beginPath();
-      ctx.strokeStyle = path.color;
-      ctx.lineWidth = path.width;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      
-      ctx.moveTo(path.points[0].x, path.points[0].y);
-      path.points.forEach((point, i) => {
-        if (i > 0) ctx.lineTo(point.x, point.y);
-      });
-      ctx.stroke();
-    });
+    if (drawingColor === syncedColorRef.current) return;
+    syncedColorRef.current = drawingColor;
+    setColor(drawingColor);
+  }, [drawingColor, setColor]);
 
-    // Draw current path
-    if (currentPath.length > 1) {
-      ctx.beginPath();
-      ctx.strokeStyle = drawingColor;
-      ctx.lineWidth = brushSize;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      
-      ctx.moveTo(currentPath[0].x, currentPath[0].y);
-      currentPath.forEach((point, i) => {
-        if (i > 0) ctx.lineTo(point.x, point.y);
-      });
-      ctx.stroke();
-    }
-  }, [paths, currentPath, drawingColor, brushSize]);
-
-  // Handle resize
+  // Drawings are only on screen while drawing mode is on. A dragged shape is reported once it is let go,
+  // so a move is logged as one change rather than one per pointer event
   useEffect(() => {
-    const handleResize = () => {
-      const canvas = canvasRef.current;
-      if (canvas) {
-        canvas.width = window.innerWidth;
-        canvas.height = window.innerHeight;
-      }
-    };
+    if (isMoving && isDrawingMode) return;
+    onAnnotationsChange?.(isDrawingMode ? shapes : [], screenOffsetRef.current);
+  }, [shapes, isMoving, isDrawingMode, onAnnotationsChange]);
 
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, []);
+  // Clearing remounts the overlay, which takes its drawings off screen
+  useEffect(() => () => onAnnotationsChange?.([], screenOffsetRef.current), [onAnnotationsChange]);
 
   // Clear all drawings with Escape key
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && isDrawingMode) {
-        setPaths([]);
-        setCurrentPath([]);
-      }
+      if (e.key === 'Escape' && isDrawingMode && !textAnchor) clear();
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isDrawingMode]);
+  }, [isDrawingMode, textAnchor, clear]);
 
   return (
     <>
-      {/* Drawing Canvas Overlay */}
+      {/* Drawing Surface Overlay */}
       <AnimatePresence>
         {isDrawingMode && (
-          <motion.canvas
-            ref={canvasRef}
+          <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 z-[9998] pointer-events-auto"
-            style={{ cursor: 'crosshair' }}
-            onMouseDown={startDrawing}
-            onMouseMove={draw}
-            onMouseUp={stopDrawing}
-            onMouseLeave={stopDrawing}
-            onTouchStart={startDrawing}
-            onTouchMove={draw}
-            onTouchEnd={stopDrawing}
-          />
+            data-recording-controls
+            onPointerDownCapture={(e) => {
+              screenOffsetRef.current = { x: e.screenX - e.clientX, y: e.screenY - e.clientY };
+            }}
+          >
+            <AnnotationSurface editor={editor} blurBehind className="w-full h-full" />
+          </motion.div>
         )}
       </AnimatePresence>
 
@@ -214,24 +124,20 @@ export const ScreenAnnotationOverlay = ({
         )}
       </AnimatePresence>
 
-      {/* Drawing Mode Indicator */}
+      {/* Drawing Mode Toolbar */}
       <AnimatePresence>
         {isDrawingMode && (
           <motion.div
             initial={{ opacity: 0, y: -20 }}
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -20 }}
-            className="fixed top-4 left-1/2 -translate-x-1/2 z-[9999] px-4 py-2 rounded-full glass border border-primary shadow-lg"
+            className="fixed top-4 left-1/2 -translate-x-1/2 z-[9999] px-3 py-2 rounded-2xl glass border border-primary shadow-lg text-foreground"
+            data-recording-controls
           >
-            <div className="flex items-center gap-3">
-              <div 
-                className="w-4 h-4 rounded-full border-2 border-white"
-                style={{ backgroundColor: drawingColor }}
-              />
-              <span className="text-sm font-medium text-foreground">
-                Drawing Mode - Press ESC to clear
-              </span>
-            </div>
+            <AnnotationToolbar editor={editor} className="justify-center" />
+            <p className="mt-1.5 text-xs text-center text-muted-foreground">
+              Select to move, Del to delete, Esc to clear
+            </p>
           </motion.div>
         )}
       </AnimatePresence>
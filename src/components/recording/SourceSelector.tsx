@@ -1,7 +1,13 @@
-import { Monitor, AppWindow, Globe } from 'lucide-react';
+import { useEffect } from 'react';
+import { Monitor, AppWindow, Globe, UserRound, Columns2, PictureInPicture, Crop, X } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useRecording, ScreenSource } from '@/contexts/RecordingContext';
 import { cn } from '@/lib/utils';
+import { SCENE_LAYOUTS, SceneLayout } from '@/lib/sceneLayout';
+import { RegionSelector } from './RegionSelector';
+
+// Every quality preset is 16:9, and a cropped recording renders at the preset's size
+const OUTPUT_ASPECT_RATIO = 16 / 9;
 
 const sources: { id: ScreenSource; label: string; icon: typeof Monitor; description: string }[] = [
   { id: 'screen', label: 'Entire Screen', icon: Monitor, description: 'Record your full desktop' },
@@ -9,61 +15,165 @@ const sources: { id: ScreenSource; label: string; icon: typeof Monitor; descript
   { id: 'tab', label: 'Browser Tab', icon: Globe, description: 'Record a browser tab' },
 ];
 
+const layoutIcons: Record<SceneLayout, typeof Monitor> = {
+  'screen': Monitor,
+  'camera': UserRound,
+  'side-by-side': Columns2,
+  'screen-pip': PictureInPicture,
+};
+
 export const SourceSelector = () => {
-  const { settings, updateSettings } = useRecording();
+  const {
+    settings,
+    updateSettings,
+    isRecording,
+    screenStream,
+    captureRegion,
+    setCaptureRegion,
+    prepareScreenCapture,
+    releaseScreenCapture,
+  } = useRecording();
+  const isCameraOnly = settings.recordingLayout === 'camera';
+
+  const selectLayout = (layout: SceneLayout) => {
+    const needsCamera = SCENE_LAYOUTS.find(option => option.id === layout)?.needsCamera;
+    updateSettings(needsCamera ? { recordingLayout: layout, cameraEnabled: true } : { recordingLayout: layout });
+  };
+
+  // Stop a preview share that never turned into a recording
+  useEffect(() => releaseScreenCapture, [releaseScreenCapture]);
 
   return (
-    <div className="space-y-3">
-      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
-        Screen Source
-      </h3>
-      <div className="grid grid-cols-3 gap-3">
-        {sources.map((source) => {
-          const isSelected = settings.screenSource === source.id;
-          
-          return (
-            <motion.button
-              key={source.id}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => updateSettings({ screenSource: source.id })}
-              className={cn(
-                "relative p-4 rounded-2xl border-2 transition-all duration-200",
-                "flex flex-col items-center gap-3 text-center",
-                isSelected
-                  ? "border-primary bg-primary/5 shadow-glow"
-                  : "border-border bg-card hover:border-primary/50"
-              )}
-            >
-              {isSelected && (
-                <motion.div
-                  layoutId="sourceIndicator"
-                  className="absolute inset-0 rounded-2xl border-2 border-primary"
-                  transition={{ duration: 0.2 }}
-                />
-              )}
-              <div
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+          Layout
+        </h3>
+        <div className="grid grid-cols-4 gap-2">
+          {SCENE_LAYOUTS.map((layout) => {
+            const isSelected = settings.recordingLayout === layout.id;
+            const Icon = layoutIcons[layout.id];
+
+            return (
+              <button
+                key={layout.id}
+                onClick={() => selectLayout(layout.id)}
                 className={cn(
-                  "w-12 h-12 rounded-xl flex items-center justify-center transition-colors",
-                  isSelected ? "bg-primary text-primary-foreground" : "bg-secondary text-foreground"
+                  "p-3 rounded-xl border-2 transition-all duration-200",
+                  "flex flex-col items-center gap-2 text-center",
+                  isSelected
+                    ? "border-primary bg-primary/5"
+                    : "border-border bg-card hover:border-primary/50"
                 )}
               >
-                <source.icon className="w-6 h-6" />
-              </div>
-              <div>
-                <p className={cn(
-                  "font-medium text-sm",
-                  isSelected ? "text-primary" : "text-foreground"
-                )}>
-                  {source.label}
-                </p>
-                <p className="text-xs text-muted-foreground mt-1">
-                  {source.description}
-                </p>
+                <Icon className={cn("w-5 h-5", isSelected ? "text-primary" : "text-muted-foreground")} />
+                <span className={cn("text-xs font-medium", isSelected ? "text-primary" : "text-foreground")}>
+                  {layout.label}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Switch layouts while recording with Shift+L, or Shift+1-4
+        </p>
+      </div>
+
+      <div className={cn("space-y-3 transition-opacity", isCameraOnly && "opacity-50 pointer-events-none")}>
+        <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+          Screen Source
+        </h3>
+        <div className="grid grid-cols-3 gap-3">
+          {sources.map((source) => {
+            const isSelected = settings.screenSource === source.id;
+            
+            return (
+              <motion.button
+                key={source.id}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => updateSettings({ screenSource: source.id })}
+                className={cn(
+                  "relative p-4 rounded-2xl border-2 transition-all duration-200",
+                  "flex flex-col items-center gap-3 text-center",
+                  isSelected
+                    ? "border-primary bg-primary/5 shadow-glow"
+                    : "border-border bg-card hover:border-primary/50"
+                )}
+              >
+                {isSelected && (
+                  <motion.div
+                    layoutId="sourceIndicator"
+                    className="absolute inset-0 rounded-2xl border-2 border-primary"
+                    transition={{ duration: 0.2 }}
+                  />
+                )}
+                <div
+                  className={cn(
+                    "w-12 h-12 rounded-xl flex items-center justify-center transition-colors",
+                    isSelected ? "bg-primary text-primary-foreground" : "bg-secondary text-foreground"
+                  )}
+                >
+                  <source.icon className="w-6 h-6" />
+                </div>
+                <div>
+                  <p className={cn(
+                    "font-medium text-sm",
+                    isSelected ? "text-primary" : "text-foreground"
+                  )}>
+                    {source.label}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {source.description}
+                  </p>
+                </div>
+              </motion.button>
+            );
+          })}
+        </div>
+
+        {/* Capture Region */}
+        {screenStream && !isRecording ? (
+          <div className="space-y-2">
+            <RegionSelector
+              stream={screenStream}
+              region={captureRegion}
+              aspectRatio={OUTPUT_ASPECT_RATIO}
+              onChange={setCaptureRegion}
+            />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                {captureRegion ? 'Drag the region to move it, or drag elsewhere to pick again' : 'Drag across the preview to record only part of it'}
+              </p>
+              <div className="flex gap-2 flex-shrink-0">
+                {captureRegion && (
+                  <button
+                    onClick={() => setCaptureRegion(null)}
+                    className="px-3 py-1.5 rounded-lg bg-secondary hover:bg-secondary/80 text-xs font-medium text-foreground transition-colors"
+                  >
+                    Record everything
+                  </button>
+                )}
+                <button
+                  onClick={releaseScreenCapture}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-secondary hover:bg-secondary/80 text-xs font-medium text-muted-foreground transition-colors"
+                >
+                  <X className="w-3 h-3" />
+                  Stop sharing
+                </button>
               </div>
-            </motion.button>
-          );
-        })}
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={prepareScreenCapture}
+            disabled={isRecording}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg border-2 border-border bg-card text-sm font-medium text-muted-foreground hover:border-primary/50 transition-all disabled:opacity-50"
+          >
+            <Crop className="w-4 h-4" />
+            Select region…
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,118 @@
+import { useRef } from 'react';
+import type { CameraShape } from '@/contexts/RecordingContext';
+import { getWebcamRect, WebcamLayout } from '@/lib/webcamLayout';
+
+interface WebcamLayoutPadProps {
+  layout: WebcamLayout;
+  shape: CameraShape;
+  aspectRatio: number; // composite width / height
+  onChange: (layout: WebcamLayout, commit: boolean) => void;
+  className?: string;
+}
+
+interface DragState {
+  mode: 'move' | 'resize';
+  pointerX: number;
+  pointerY: number;
+  start: WebcamLayout;
+  latest: WebcamLayout;
+}
+
+/**
+ * Miniature of the recorded frame with the webcam bubble on it. Drag the bubble
+ * to move it and its corner handle to resize it. Styled inline so it also
+ * renders inside the Document PiP window, which has no app stylesheet.
+ */
+export const WebcamLayoutPad = ({ layout, shape, aspectRatio, onChange, className }: WebcamLayoutPadProps) => {
+  const padRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  // Work in units where the frame is `aspectRatio` wide and 1 tall
+  const rect = getWebcamRect(layout, shape, aspectRatio, 1);
+
+  const startDrag = (mode: DragState['mode']) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, pointerX: e.clientX, pointerY: e.clientY, start: layout, latest: layout };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const pad = padRef.current;
+    if (!drag || !pad) return;
+
+    const bounds = pad.getBoundingClientRect();
+    const dx = (e.clientX - drag.pointerX) / bounds.width;
+    const dy = (e.clientY - drag.pointerY) / bounds.height;
+
+    if (drag.mode === 'move') {
+      drag.latest = { ...drag.start, x: drag.start.x + dx, y: drag.start.y + dy };
+    } else {
+      // Follow whichever axis moved further, converted to a height change; size is measured against the shorter side
+      const shortSide = Math.min(aspectRatio, 1);
+      const growth = Math.max(dx * aspectRatio * (rect.height / rect.width), dy) / shortSide;
+      drag.latest = { ...drag.start, size: drag.start.size + growth };
+    }
+    onChange(drag.latest, false);
+  };
+
+  // Pointer capture ends by itself on pointerup
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    onChange(drag.latest, true);
+  };
+
+  return (
+    <div
+      ref={padRef}
+      className={className}
+      style={{
+        position: 'relative',
+        width: '100%',
+        aspectRatio: `${aspectRatio}`,
+        background: 'rgba(255,255,255,0.06)',
+        border: '1px dashed rgba(255,255,255,0.25)',
+        borderRadius: '6px',
+        touchAction: 'none',
+      }}
+    >
+      <div
+        onPointerDown={startDrag('move')}
+        // Events captured by the resize handle bubble up to here as well
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        title="Drag to move the webcam"
+        style={{
+          position: 'absolute',
+          left: `${(rect.x / aspectRatio) * 100}%`,
+          top: `${rect.y * 100}%`,
+          width: `${(rect.width / aspectRatio) * 100}%`,
+          height: `${rect.height * 100}%`,
+          borderRadius: shape === 'circle' ? '50%' : shape === 'rounded' ? '4px' : 0,
+          background: 'rgba(59,130,246,0.45)',
+          border: '2px solid #3b82f6',
+          cursor: 'move',
+        }}
+      >
+        <div
+          onPointerDown={startDrag('resize')}
+          title="Drag to resize the webcam"
+          style={{
+            position: 'absolute',
+            right: shape === 'circle' ? '10%' : '-5px',
+            bottom: shape === 'circle' ? '10%' : '-5px',
+            width: '10px',
+            height: '10px',
+            borderRadius: '2px',
+            background: '#fff',
+            border: '1px solid #3b82f6',
+            cursor: 'nwse-resize',
+          }}
+        />
+      </div>
+    </div>
+  );
+};
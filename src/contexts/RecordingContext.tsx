@@ -6,8 +6,38 @@ import {
   deleteStoredRecording, 
   saveScreenshot, 
   loadScreenshots, 
-  deleteStoredScreenshot 
+  deleteStoredScreenshot,
+  createRecordingSession,
+  appendRecordingSessionChunk,
+  loadRecordingSessions,
+  loadRecordingSessionBlob,
+  deleteRecordingSession,
+  updateRecordingSession,
+  holdRecordingSessionLock,
+  saveWebcamBackgroundImage,
+  loadWebcamBackgroundImage,
+  deleteWebcamBackgroundImage,
+  isRecordingSessionAbandoned,
+  updateRecordingThumbnails,
+  RecordingSession,
+  RecordingSessionMetadata,
 } from '@/hooks/useLocalStorage';
+import { loadStoredSettings, saveStoredSettings, toPresetSettings, SettingsPreset } from '@/lib/settingsStorage';
+import { useKeystrokeVisualizer } from '@/hooks/useKeystrokeVisualizer';
+import { capturePosterFrame, generateThumbnailsFromBlob } from '@/lib/thumbnails';
+import { getDeviceToSwapTo, openCamera, openMicrophone } from '@/lib/mediaDevices';
+import { createAudioMixer, AudioMixer } from '@/lib/audioMixer';
+import { createStemRecorder, StemRecorder } from '@/lib/audioStems';
+import { createNoiseSuppressor, loadNoiseProfile, NoiseSuppressor } from '@/lib/noiseSuppression';
+import { clampWebcamLayout, getCornerLayout, getWebcamRect, WebcamKeyframe, WebcamLayout } from '@/lib/webcamLayout';
+import { Compositor, createCompositor, LAYER_Z } from '@/lib/compositor';
+import { createAnnotationsLayer, createCursorLayer, createKeystrokeLayer, createScreenLayer, createWatermarkLayer, createWebcamLayer } from '@/lib/compositorLayers';
+import { createCursorTracker, CursorPoint, CursorTracker } from '@/lib/cursorTracker';
+import { createWebcamBackgroundProcessor, WebcamBackground, WebcamBackgroundProcessor } from '@/lib/webcamBackground';
+import { CaptureRegion, clampRegion, createRegionPanner, fitRegionToAspect, isFullRegion, mapPointToRegion, RegionPanner } from '@/lib/captureRegion';
+import type { RecordedClick } from '@/lib/autoZoom';
+import { Annotation, AnnotationPoint, AnnotationShape, createAnnotationId } from '@/lib/annotations';
+import { createSceneAnimator, getAvailableLayouts, SceneAnimator, SceneFrame, SceneLayout, toLayerTransform } from '@/lib/sceneLayout';
 
 export type ScreenSource = 'screen' | 'window' | 'tab';
 export type AudioSource = 'mic' | 'system' | 'both' | 'none';
@@ -16,6 +46,9 @@ export type RecordingQuality = '720p' | '1080p' | '2k';
 export type RecordingFPS = 30 | 60;
 export type WebcamSize = 'small' | 'medium' | 'large';
 export type WebcamCorner = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
+export type KeystrokePosition = 'bottom-center' | 'bottom-left' | 'bottom-right' | 'top-center';
+export type KeystrokeSize = 'small' | 'medium' | 'large';
+export type KeystrokeTheme = 'dark' | 'light';
 
 export interface Screenshot {
   id: string;
@@ -28,10 +61,35 @@ export interface CanvasOverlay {
   id: string;
   imageData: string; // base64 encoded image
   timestamp: Date;
+  recordingTime: number; // seconds into the recording when captured, pauses excluded
+  displayDuration: number; // seconds the drawing stays on screen
   width: number;
   height: number;
 }
 
+const CANVAS_OVERLAY_DISPLAY_SECONDS = 5;
+// Settings are saved once changes settle, not on every step of a slider
+const SETTINGS_SAVE_DELAY_MS = 500;
+// How often drawings, clicks and camera moves are saved with an in-progress recording
+const SESSION_METADATA_INTERVAL_MS = 1000;
+
+// Evenly spaced frames laid out left to right, used for hover scrubbing
+export interface ThumbnailSprite {
+  imageData: string; // base64 encoded JPEG
+  frameCount: number;
+  frameWidth: number;
+  frameHeight: number;
+}
+
+export type AudioStemSource = 'mic' | 'system';
+
+// One audio source recorded on its own next to the mixed video, so it can be remixed later
+export interface AudioStem {
+  source: AudioStemSource;
+  blob: Blob;
+  mimeType: string;
+}
+
 export interface Recording {
   id: string;
   blob: Blob;
@@ -39,13 +97,20 @@ export interface Recording {
   duration: number;
   timestamp: Date;
   thumbnail?: string;
+  thumbnailSprite?: ThumbnailSprite;
   resolution: string;
   size: number;
+  mimeType?: string; // container the blob was recorded in, e.g. video/webm or video/mp4
   canvasOverlays?: CanvasOverlay[];
+  stems?: AudioStem[];
+  webcamKeyframes?: WebcamKeyframe[]; // where the webcam bubble was moved during recording
+  clicks?: RecordedClick[]; // clicks seen in the recorded frame, for auto-zoom
+  annotations?: Annotation[]; // on-screen drawings, rendered by the editor on export
 }
 
-interface RecordingSettings {
+export interface RecordingSettings {
   screenSource: ScreenSource;
+  recordingLayout: SceneLayout; // how screen and camera share the frame when recording starts
   audioSource: AudioSource;
   cameraEnabled: boolean;
   cameraShape: CameraShape;
@@ -54,12 +119,38 @@ interface RecordingSettings {
   showCursor: boolean;
   clickAnimation: boolean;
   cursorSpotlight: boolean;
+  customCursor: boolean; // draw the cursor into the composite instead of capturing the system one
   keystrokeDisplay: boolean;
+  keystrokePosition: KeystrokePosition;
+  keystrokeSize: KeystrokeSize;
+  keystrokeTheme: KeystrokeTheme;
   webcamSize: WebcamSize;
   webcamCorner: WebcamCorner;
   webcamBorder: boolean;
   webcamShadow: boolean;
   webcamMirror: boolean;
+  webcamBackground: WebcamBackground;
+  webcamBackgroundImage: string; // id of the replacement background saved in IndexedDB; older builds stored a data URL
+  micDeviceId: string; // empty for the system default
+  cameraDeviceId: string; // empty for the system default
+  systemVolume: number; // linear gain, 1 is unchanged
+  systemMuted: boolean;
+  micVolume: number; // linear gain, 1 is unchanged
+  micMuted: boolean;
+  duckingEnabled: boolean; // lower system audio while the mic picks up speech
+  duckingLevel: number; // system gain while ducked
+  recordStems: boolean; // also save mic and system audio as separate tracks
+  noiseSuppression: boolean;
+  noiseSuppressionStrength: number; // 0-1
+  watermarkText: string; // drawn in the corner of the recording when not empty
+}
+
+// Live microphone input, kept so the device can be swapped mid-recording
+interface MicChain {
+  context: AudioContext;
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  input: AudioNode; // first node of the processing chain the source feeds
 }
 
 interface RecordingState {
@@ -74,30 +165,55 @@ interface RecordingState {
   isPipActive: boolean;
   isUIHidden: boolean;
   screenStream: MediaStream | null;
+  unfinishedSessions: RecordingSession[];
+  presets: SettingsPreset[];
+  audioMixer: AudioMixer | null; // live mixer of the current recording, for meters
+  webcamLayout: WebcamLayout | null; // live webcam bubble placement, null without a camera
+  sceneLayout: SceneLayout | null; // active layout of the current recording
+  availableLayouts: SceneLayout[]; // layouts the current recording's sources allow
+  captureRegion: CaptureRegion | null; // part of the shared surface to record, null for all of it
+  webcamBackgroundImageUrl: string; // object URL of the replacement background, empty until it is loaded
 }
 
 interface RecordingContextType extends RecordingState {
   updateSettings: (settings: Partial<RecordingSettings>) => void;
+  applyPreset: (id: string) => void;
+  savePreset: (name: string) => void;
+  deletePreset: (id: string) => void;
+  setWebcamBackgroundImage: (image: Blob) => Promise<void>; // saves the image and makes it the replacement background
   startRecording: () => Promise<void>;
   stopRecording: () => void;
   pauseRecording: () => void;
   resumeRecording: () => void;
   deleteRecording: (id: string) => void;
   deleteScreenshot: (id: string) => void;
-  setCameraStream: (stream: MediaStream | null) => void;
+  setCameraStream: React.Dispatch<React.SetStateAction<MediaStream | null>>;
   takeScreenshot: () => Promise<void>;
   enablePip: () => Promise<void>;
   disablePip: () => void;
   toggleMic: () => void;
+  updateWebcamLayout: (layout: WebcamLayout, commit?: boolean) => void;
+  setSceneLayout: (layout: SceneLayout) => void;
+  setCaptureRegion: (region: CaptureRegion | null) => void;
+  prepareScreenCapture: () => Promise<void>; // share the surface ahead of recording, e.g. to pick a region
+  releaseScreenCapture: () => void;
   addRecording: (recording: Recording) => void;
   addCanvasOverlay: (imageData: string, width: number, height: number) => void;
+  // The shapes drawn over the page right now, in fractions of the viewport; ones that appear,
+  // change or disappear are logged with their times. Only tab and screen captures show the page where
+  // its drawings can be placed, so nothing is logged for other surfaces. `screenOffset` is the page's position on screen.
+  setVisibleAnnotations: (shapes: AnnotationShape[], screenOffset: { x: number; y: number }) => void;
   clearCanvasOverlays: () => void;
+  recoverSession: (id: string) => Promise<void>;
+  discardSession: (id: string) => Promise<void>;
+  ensureThumbnails: (recording: Recording) => void;
   videoRef: React.RefObject<HTMLVideoElement>;
   canvasRef: React.RefObject<HTMLCanvasElement>;
 }
 
 const defaultSettings: RecordingSettings = {
   screenSource: 'screen',
+  recordingLayout: 'screen',
   audioSource: 'both',
   cameraEnabled: false,
   cameraShape: 'circle',
@@ -106,16 +222,58 @@ const defaultSettings: RecordingSettings = {
   showCursor: true,
   clickAnimation: true,
   cursorSpotlight: false,
+  customCursor: false,
   keystrokeDisplay: false,
+  keystrokePosition: 'bottom-center',
+  keystrokeSize: 'medium',
+  keystrokeTheme: 'dark',
   webcamSize: 'medium',
   webcamCorner: 'bottom-right',
   webcamBorder: true,
   webcamShadow: true,
   webcamMirror: true,
+  webcamBackground: 'none',
+  webcamBackgroundImage: '',
+  micDeviceId: '',
+  cameraDeviceId: '',
+  systemVolume: 1,
+  systemMuted: false,
+  micVolume: 1,
+  micMuted: false,
+  duckingEnabled: false,
+  duckingLevel: 0.3,
+  recordStems: false,
+  noiseSuppression: false,
+  noiseSuppressionStrength: 0.5,
+  watermarkText: '',
 };
 
 const RecordingContext = createContext<RecordingContextType | null>(null);
 
+// The page only sees its own pointer, which lines up with the capture for a tab or a whole screen
+const canTrackPointer = (surface: string | null) => surface === 'browser' || surface === 'monitor';
+
+// Where the pointer was, both on the page and on the screen
+type PagePoint = Pick<MouseEvent, 'clientX' | 'clientY' | 'screenX' | 'screenY'>;
+
+// The pointer as fractions of the shared surface, or null when the surface can't be mapped
+const toSurfacePoint = (e: PagePoint, surface: string | null): CursorPoint | null => {
+  switch (surface) {
+    case 'browser':
+      return { x: e.clientX / window.innerWidth, y: e.clientY / window.innerHeight };
+    case 'monitor':
+      return { x: e.screenX / window.screen.width, y: e.screenY / window.screen.height };
+    default:
+      return null;
+  }
+};
+
+// Switches the captured system cursor; browsers that can't change it mid-capture just keep theirs
+const showCapturedCursor = (track: MediaStreamTrack, visible: boolean) =>
+  track
+    .applyConstraints({ cursor: visible ? 'always' : 'never' } as MediaTrackConstraints)
+    .catch(err => console.warn('Could not change the captured cursor:', err));
+
 export const useRecording = () => {
   const context = useContext(RecordingContext);
   if (!context) {
@@ -128,28 +286,56 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [duration, setDuration] = useState(0);
-  const [settings, setSettings] = useState<RecordingSettings>(defaultSettings);
+  const [storedSettings] = useState(() => loadStoredSettings(defaultSettings));
+  const [settings, setSettings] = useState<RecordingSettings>(storedSettings.settings);
+  const [presets, setPresets] = useState<SettingsPreset[]>(storedSettings.presets);
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [screenshots, setScreenshots] = useState<Screenshot[]>([]);
   const [canvasOverlays, setCanvasOverlays] = useState<CanvasOverlay[]>([]);
+  const canvasOverlaysRef = useRef<CanvasOverlay[]>([]);
+  canvasOverlaysRef.current = canvasOverlays;
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
   const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
   const [isPipActive, setIsPipActive] = useState(false);
   const [isUIHidden, setIsUIHidden] = useState(false);
   const [isLoaded, setIsLoaded] = useState(false);
-
-  // Load recordings and screenshots from IndexedDB on mount
+  const [unfinishedSessions, setUnfinishedSessions] = useState<RecordingSession[]>([]);
+  const [audioMixer, setAudioMixer] = useState<AudioMixer | null>(null);
+  const [webcamLayout, setWebcamLayout] = useState<WebcamLayout | null>(null);
+  const [sceneLayout, setSceneLayoutState] = useState<SceneLayout | null>(null);
+  const [availableLayouts, setAvailableLayouts] = useState<SceneLayout[]>([]);
+  const [captureRegion, setCaptureRegionState] = useState<CaptureRegion | null>(null);
+
+  // Load recordings, screenshots and sessions left behind by a crash from IndexedDB on mount
   useEffect(() => {
     const loadStoredData = async () => {
       try {
-        const [storedRecordings, storedScreenshots] = await Promise.all([
+        const [storedRecordings, storedScreenshots, storedSessions] = await Promise.all([
           loadRecordings(),
-          loadScreenshots()
+          loadScreenshots(),
+          loadRecordingSessions(),
         ]);
         setRecordings(storedRecordings);
         setScreenshots(storedScreenshots);
+        // Sessions another tab is still recording into are neither offered nor deleted
+        const abandoned = await Promise.all(storedSessions.map(session => isRecordingSessionAbandoned(session.id)));
+        const leftBehind = storedSessions.filter((_, i) => abandoned[i]);
+        const isRecoverable = (session: RecordingSession) => session.chunkCount > 0 && !session.unrecoverable;
+        setUnfinishedSessions(leftBehind.filter(isRecoverable));
+
+        // Sessions that never received a chunk, or lost one, have nothing to recover
+        leftBehind
+          .filter(session => !isRecoverable(session))
+          .forEach(session => {
+            deleteRecordingSession(session.id).catch(console.error);
+          });
       } catch (err) {
         console.error('Failed to load stored data:', err);
+        toast({
+          title: "Library Unavailable",
+          description: err instanceof Error ? err.message : "Could not load saved recordings",
+          variant: "destructive",
+        });
       } finally {
         setIsLoaded(true);
       }
@@ -158,7 +344,10 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   }, []);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  // Chunks not yet saved to the session in IndexedDB; every chunk from a failed write on stays here
   const chunksRef = useRef<Blob[]>([]);
+  const chunkWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const chunkPersistenceRef = useRef({ received: 0, stored: 0, failed: false, metadataSavedAt: 0, savedOverlays: [] as CanvasOverlay[] });
   const timerRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -167,14 +356,164 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const startTimeRef = useRef<number | null>(null);
   const pausedDurationRef = useRef(0);
   const pauseStartRef = useRef<number | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
+  const compositorRef = useRef<Compositor | null>(null);
+  // Compositor layers read settings through this so changes apply mid-recording
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
   const screenVideoRef = useRef<HTMLVideoElement | null>(null);
   const webcamVideoRef = useRef<HTMLVideoElement | null>(null);
+  const webcamStreamRef = useRef<MediaStream | null>(null);
+  const micChainRef = useRef<MicChain | null>(null);
+  const stemRecordersRef = useRef<StemRecorder[]>([]);
+  const noiseSuppressorRef = useRef<NoiseSuppressor | null>(null);
+  // Read by the compositor every frame so dragging the bubble shows up immediately
+  const webcamLayoutRef = useRef<WebcamLayout | null>(null);
+  const webcamKeyframesRef = useRef<WebcamKeyframe[]>([]);
+  const sceneAnimatorRef = useRef<SceneAnimator | null>(null);
+  // Where the compositor placed the screen and camera in the latest frame
+  const sceneFrameRef = useRef<SceneFrame | null>(null);
+  const captureRegionRef = useRef<CaptureRegion | null>(null);
+  const regionPannerRef = useRef<RegionPanner | null>(null);
+  // Shared by prepareScreenCapture and picked up by the next startRecording
+  const pendingDisplayStreamRef = useRef<MediaStream | null>(null);
+  const displaySurfaceRef = useRef<string | null>(null);
+  const clicksRef = useRef<RecordedClick[]>([]);
+  const annotationsRef = useRef<Annotation[]>([]);
+  // Annotations still on screen and the shapes they came from, keyed by shape id; their end time is set once they go
+  const openAnnotationsRef = useRef<Map<string, { shape: AnnotationShape; annotation: Annotation }>>(new Map());
+  // Set while the compositor draws the cursor; null when the captured system cursor is used
+  const cursorTrackerRef = useRef<CursorTracker | null>(null);
+  // Device swaps run one at a time; devicechange tends to fire in bursts
+  const deviceSwapsRef = useRef<Promise<void>>(Promise.resolve());
+  const keystrokesRef = useKeystrokeVisualizer(isRecording && settings.keystrokeDisplay);
+  const thumbnailJobsRef = useRef<Promise<void>>(Promise.resolve());
+  const thumbnailRequestsRef = useRef<Set<string>>(new Set());
+
+  // Generate missing poster/sprite thumbnails one recording at a time, decoding
+  // several videos in parallel would stall the page on large libraries
+  const ensureThumbnails = useCallback((recording: Recording) => {
+    if (recording.thumbnail && recording.thumbnailSprite) return;
+    if (thumbnailRequestsRef.current.has(recording.id)) return;
+    thumbnailRequestsRef.current.add(recording.id);
+
+    thumbnailJobsRef.current = thumbnailJobsRef.current
+      .then(async () => {
+        const generated = await generateThumbnailsFromBlob(recording.blob, recording.duration);
+        const thumbnails = {
+          thumbnail: recording.thumbnail ?? generated.thumbnail,
+          thumbnailSprite: generated.sprite,
+        };
+
+        await updateRecordingThumbnails(recording.id, thumbnails);
+        setRecordings(prev => prev.map(r => (r.id === recording.id ? { ...r, ...thumbnails } : r)));
+      })
+      .catch(err => {
+        console.error('Failed to generate thumbnails:', err);
+      });
+  }, []);
 
   const updateSettings = useCallback((newSettings: Partial<RecordingSettings>) => {
     setSettings(prev => ({ ...prev, ...newSettings }));
   }, []);
 
+  // Persist settings and presets so they survive reloads, and say so once when storage refuses them
+  const settingsSaveFailedRef = useRef(false);
+  useEffect(() => {
+    const save = () => {
+      const saved = saveStoredSettings(settings, presets);
+      if (!saved && !settingsSaveFailedRef.current) {
+        toast({
+          title: "Settings Not Saved",
+          description: "Browser storage is full or unavailable, so these settings will be lost when the page closes.",
+          variant: "destructive",
+        });
+      }
+      settingsSaveFailedRef.current = !saved;
+    };
+    const timer = window.setTimeout(save, SETTINGS_SAVE_DELAY_MS);
+    // Don't lose the last change to a reload inside the delay
+    window.addEventListener('pagehide', save);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [settings, presets]);
+
+  // The replacement background is kept in IndexedDB; settings only refer to it
+  const [webcamBackgroundImageUrl, setWebcamBackgroundImageUrl] = useState('');
+  const webcamBackgroundImageUrlRef = useRef(webcamBackgroundImageUrl);
+  webcamBackgroundImageUrlRef.current = webcamBackgroundImageUrl;
+
+  const setWebcamBackgroundImage = useCallback(async (image: Blob) => {
+    const id = Date.now().toString();
+    await saveWebcamBackgroundImage(id, image);
+    const previous = settingsRef.current.webcamBackgroundImage;
+    setSettings(prev => ({ ...prev, webcamBackgroundImage: id }));
+    if (previous && !previous.startsWith('data:')) {
+      deleteWebcamBackgroundImage(previous).catch(console.error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const id = settings.webcamBackgroundImage;
+    setWebcamBackgroundImageUrl('');
+    if (!id) return;
+
+    // Move an image saved inline by an older build into IndexedDB
+    if (id.startsWith('data:')) {
+      fetch(id)
+        .then(response => response.blob())
+        .then(setWebcamBackgroundImage)
+        .catch(err => console.error('Failed to move the background image to IndexedDB:', err));
+      return;
+    }
+
+    let cancelled = false;
+    let url = '';
+    loadWebcamBackgroundImage(id)
+      .then(image => {
+        if (cancelled || !image) return;
+        url = URL.createObjectURL(image);
+        setWebcamBackgroundImageUrl(url);
+      })
+      .catch(err => console.error('Failed to load the background image:', err));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [settings.webcamBackgroundImage, setWebcamBackgroundImage]);
+
+  const applyPreset = useCallback((id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+
+    setSettings(prev => ({ ...prev, ...preset.settings }));
+    toast({
+      title: "Preset Applied",
+      description: `Using "${preset.name}" settings`,
+    });
+  }, [presets]);
+
+  const savePreset = useCallback((name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const preset: SettingsPreset = {
+      id: Date.now().toString(),
+      name: trimmed,
+      settings: toPresetSettings(settings),
+    };
+    setPresets(prev => [...prev, preset]);
+    toast({
+      title: "Preset Saved",
+      description: `"${trimmed}" is now available on the Record page`,
+    });
+  }, [settings]);
+
+  const deletePreset = useCallback((id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id || p.builtIn));
+  }, []);
+
   const getQualityConstraints = useCallback(() => {
     switch (settings.quality) {
       case '720p':
@@ -188,110 +527,126 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   }, [settings.quality]);
 
-  // Canvas compositing for webcam overlay
-  const drawCompositeFrame = useCallback(() => {
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    const screenVideo = screenVideoRef.current;
+  // Switch layout mid-recording; the compositor animates the change
+  const setSceneLayout = useCallback((layout: SceneLayout) => {
+    const animator = sceneAnimatorRef.current;
+    if (!animator || !availableLayouts.includes(layout)) return;
+    animator.setLayout(layout, performance.now());
+    setSceneLayoutState(layout);
+  }, [availableLayouts]);
+
+  // Moving the crop mid-recording pans to it rather than cutting
+  const setCaptureRegion = useCallback((region: CaptureRegion | null) => {
+    const next = region && !isFullRegion(region) ? clampRegion(region) : null;
+    captureRegionRef.current = next;
+    setCaptureRegionState(next);
+    regionPannerRef.current?.setTarget(next);
+  }, []);
 
-    if (!canvas || !ctx || !screenVideo || screenVideo.readyState < 2) {
-      animationFrameRef.current = requestAnimationFrame(drawCompositeFrame);
-      return;
+  // Through the crop, then to wherever the scene layout puts the screen; null when it isn't in the frame,
+  // unless `clip` is off for shapes that may run past the crop
+  const mapSurfacePointToFrame = useCallback((point: CursorPoint, now: number, clip = true): CursorPoint | null => {
+    const video = screenVideoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || !video.videoWidth) return null;
+
+    let mapped: CursorPoint | null = point;
+    const region = regionPannerRef.current?.getRegion(now);
+    if (region) {
+      const crop = fitRegionToAspect(region, video.videoWidth, video.videoHeight, canvas.width / canvas.height);
+      mapped = mapPointToRegion(point.x, point.y, crop, clip);
+      if (!mapped) return null;
     }
-
-    // Draw screen capture
-    ctx.drawImage(screenVideo, 0, 0, canvas.width, canvas.height);
-
-    // Draw webcam overlay if enabled
-    const webcamVideo = webcamVideoRef.current;
-    if (settings.cameraEnabled && webcamVideo && webcamVideo.readyState >= 2) {
-      const sizeMultipliers = { small: 0.12, medium: 0.18, large: 0.24 };
-      const multiplier = sizeMultipliers[settings.webcamSize];
-      const baseSize = Math.min(canvas.width, canvas.height) * multiplier;
-      
-      // Calculate dimensions based on shape
-      const getBorderRadius = () => {
-        if (settings.cameraShape === 'circle') return baseSize / 2;
-        if (settings.cameraShape === 'rounded') return 16;
-        return 0; // square
+    const screen = sceneFrameRef.current?.screen;
+    if (screen) {
+      if (clip && screen.opacity < 0.5) return null;
+      mapped = {
+        x: (screen.x + mapped.x * screen.width) / canvas.width,
+        y: (screen.y + mapped.y * screen.height) / canvas.height,
       };
-      
-      const dims = settings.cameraShape === 'circle' 
-        ? { width: baseSize, height: baseSize, radius: baseSize / 2 }
-        : { width: baseSize * 1.33, height: baseSize, radius: getBorderRadius() };
-      
-      const padding = 20;
-      
-      // Calculate position based on corner setting
-      let x: number, y: number;
-      switch (settings.webcamCorner) {
-        case 'bottom-left':
-          x = padding;
-          y = canvas.height - dims.height - padding;
-          break;
-        case 'top-right':
-          x = canvas.width - dims.width - padding;
-          y = padding;
-          break;
-        case 'top-left':
-          x = padding;
-          y = padding;
-          break;
-        case 'bottom-right':
-        default:
-          x = canvas.width - dims.width - padding;
-          y = canvas.height - dims.height - padding;
-          break;
-      }
-
-      ctx.save();
-
-      // Draw shadow if enabled
-      if (settings.webcamShadow) {
-        ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
-        ctx.shadowBlur = 20;
-        ctx.shadowOffsetX = 4;
-        ctx.shadowOffsetY = 4;
-      }
-
-      // Create clipping path for shape
-      ctx.beginPath();
-      if (settings.cameraShape === 'circle') {
-        ctx.arc(x + dims.width / 2, y + dims.height / 2, dims.radius, 0, Math.PI * 2);
-      } else {
-        ctx.roundRect(x, y, dims.width, dims.height, dims.radius);
-      }
-      ctx.clip();
-
-      // Draw webcam (mirror if enabled)
-      if (settings.webcamMirror) {
-        ctx.translate(x + dims.width, y);
-        ctx.scale(-1, 1);
-        ctx.drawImage(webcamVideo, 0, 0, dims.width, dims.height);
-      } else {
-        ctx.drawImage(webcamVideo, x, y, dims.width, dims.height);
-      }
+    }
+    return mapped;
+  }, []);
 
-      ctx.restore();
+  // Elapsed recording time, matching what the recorded video shows at this moment
+  const getRecordingTime = useCallback((now = Date.now()) => {
+    const pausedMs = pausedDurationRef.current + (pauseStartRef.current !== null ? now - pauseStartRef.current : 0);
+    return startTimeRef.current !== null
+      ? Math.max(0, (now - startTimeRef.current - pausedMs) / 1000)
+      : 0;
+  }, []);
 
-      // Draw border if enabled
-      if (settings.webcamBorder) {
-        ctx.save();
-        ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
-        ctx.lineWidth = 3;
-        ctx.beginPath();
-        if (settings.cameraShape === 'circle') {
-          ctx.arc(x + dims.width / 2, y + dims.height / 2, dims.radius, 0, Math.PI * 2);
-        } else {
-          ctx.roundRect(x, y, dims.width, dims.height, dims.radius);
-        }
-        ctx.stroke();
-        ctx.restore();
-      }
+  // The small things tracked alongside the video so far; drawings still on screen run up to now.
+  // Canvas overlays carry whole images, so they're saved only when they change
+  const collectSessionMetadata = useCallback((): Omit<RecordingSessionMetadata, 'canvasOverlays'> => {
+    const time = getRecordingTime();
+    const open = new Set([...openAnnotationsRef.current.values()].map(entry => entry.annotation));
+    return {
+      webcamKeyframes: webcamKeyframesRef.current,
+      clicks: clicksRef.current,
+      annotations: annotationsRef.current.map(annotation => (open.has(annotation) ? { ...annotation, endTime: time } : annotation)),
+    };
+  }, [getRecordingTime]);
+
+  const requestDisplayStream = useCallback(() => {
+    // `cursor` is a display capture constraint the DOM typings don't know yet
+    const video: MediaTrackConstraints & { cursor: 'always' | 'never' } = {
+      ...getQualityConstraints(),
+      frameRate: settings.fps,
+      // The custom cursor is drawn by the compositor, so leave the system one out
+      cursor: settings.customCursor || !settings.showCursor ? 'never' : 'always',
+    };
+    const displayMediaOptions: DisplayMediaStreamOptions = {
+      video,
+      audio: settings.audioSource === 'system' || settings.audioSource === 'both' 
+        ? {
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false,
+            // Keep system audio clean, no processing
+          } as MediaTrackConstraints
+        : false,
+    };
+    return navigator.mediaDevices.getDisplayMedia(displayMediaOptions);
+  }, [getQualityConstraints, settings.fps, settings.audioSource, settings.customCursor, settings.showCursor]);
+
+  const releaseScreenCapture = useCallback(() => {
+    const stream = pendingDisplayStreamRef.current;
+    if (!stream) return;
+    pendingDisplayStreamRef.current = null;
+    stream.getTracks().forEach(track => track.stop());
+    setScreenStream(prev => (prev === stream ? null : prev));
+    setCaptureRegion(null);
+  }, [setCaptureRegion]);
+
+  const prepareScreenCapture = useCallback(async () => {
+    if (pendingDisplayStreamRef.current?.active) return;
+    try {
+      const stream = await requestDisplayStream();
+      pendingDisplayStreamRef.current = stream;
+      setScreenStream(stream);
+      // Sharing can be stopped from the browser's own bar before recording starts
+      stream.getVideoTracks()[0].addEventListener('ended', () => {
+        if (pendingDisplayStreamRef.current === stream) releaseScreenCapture();
+      });
+    } catch (err) {
+      console.error('Screen sharing error:', err);
+      toast({
+        title: "Screen Sharing Failed",
+        description: "Could not share the screen. Please check permissions.",
+        variant: "destructive",
+      });
     }
+  }, [requestDisplayStream, releaseScreenCapture]);
 
-    animationFrameRef.current = requestAnimationFrame(drawCompositeFrame);
-  }, [settings.cameraEnabled, settings.cameraShape, settings.webcamSize, settings.webcamCorner, settings.webcamBorder, settings.webcamShadow, settings.webcamMirror]);
+  // Layers whose visibility follows a setting
+  const applyLayerVisibility = useCallback((compositor: Compositor, current: RecordingSettings) => {
+    compositor.updateLayer('keystrokes', { visible: current.keystrokeDisplay });
+  }, []);
+
+  useEffect(() => {
+    if (compositorRef.current) applyLayerVisibility(compositorRef.current, settings);
+  }, [settings, applyLayerVisibility]);
 
   // Take screenshot from current video frame
   const takeScreenshot = useCallback(async () => {
@@ -374,24 +729,89 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   }, []);
 
   const startRecording = useCallback(async () => {
-    try {
-      const displayMediaOptions: DisplayMediaStreamOptions = {
-        video: {
-          ...getQualityConstraints(),
-          frameRate: settings.fps,
-        },
-        audio: settings.audioSource === 'system' || settings.audioSource === 'both' 
-          ? {
-              echoCancellation: false,
-              noiseSuppression: false,
-              autoGainControl: false,
-              // Keep system audio clean, no processing
-            } as MediaTrackConstraints
-          : false,
-      };
+    let displayStream: MediaStream | null = null;
+    // Acquired as recording starts up; a failed start releases them the same way stopping does
+    let webcamBackground: WebcamBackgroundProcessor | null = null;
+    let audioContext: AudioContext | null = null;
+    let mixer: AudioMixer | null = null;
+    let releaseSessionLock = () => {};
+
+    const releaseResources = (stemsReady: Promise<unknown> = Promise.resolve()) => {
+      compositorRef.current?.stop();
+      compositorRef.current = null;
+      webcamBackground?.dispose();
+      displaySurfaceRef.current = null;
+      cursorTrackerRef.current = null;
+      sceneAnimatorRef.current = null;
+      sceneFrameRef.current = null;
+      setSceneLayoutState(null);
+      setAvailableLayouts([]);
+      regionPannerRef.current = null;
+      setCaptureRegion(null);
+
+      // Close AudioContext
+      micChainRef.current?.stream.getTracks().forEach(track => track.stop());
+      micChainRef.current = null;
+      noiseSuppressorRef.current = null;
+      mixer?.dispose();
+      setAudioMixer(null);
+      const context = audioContext;
+      stemsReady.finally(() => context?.close().catch(console.error));
+
+      displayStream?.getTracks().forEach(track => track.stop());
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+
+      if (screenVideoRef.current) {
+        screenVideoRef.current.srcObject = null;
+        screenVideoRef.current = null;
+      }
+
+      if (webcamVideoRef.current) {
+        webcamVideoRef.current.srcObject = null;
+        webcamVideoRef.current = null;
+      }
+      webcamLayoutRef.current = null;
+      setWebcamLayout(null);
+
+      const webcamStream = webcamStreamRef.current;
+      if (webcamStream) {
+        webcamStream.getTracks().forEach(track => track.stop());
+        webcamStreamRef.current = null;
+        setCameraStream(prev => (prev === webcamStream ? null : prev));
+      }
+
+      if (videoRef.current) {
+        videoRef.current.srcObject = null;
+      }
 
-      const displayStream = await navigator.mediaDevices.getDisplayMedia(displayMediaOptions);
-      setScreenStream(displayStream);
+      // Exit PiP
+      if (document.pictureInPictureElement) {
+        document.exitPictureInPicture().catch(console.error);
+      }
+      setIsPipActive(false);
+      setScreenStream(null);
+
+      // Restore UI
+      setIsUIHidden(false);
+    };
+
+    try {
+      const layout = settings.recordingLayout;
+      const usesScreen = layout !== 'camera';
+      const usesCamera = settings.cameraEnabled || layout !== 'screen';
+
+      // Camera-only recordings never ask to share the screen; reuse a surface shared ahead of time
+      const pendingStream = pendingDisplayStreamRef.current;
+      pendingDisplayStreamRef.current = null;
+      if (usesScreen) {
+        displayStream = pendingStream?.active ? pendingStream : await requestDisplayStream();
+        setScreenStream(displayStream);
+      } else {
+        pendingStream?.getTracks().forEach(track => track.stop());
+        setScreenStream(null);
+        setCaptureRegion(null);
+      }
 
       // Hide UI immediately after permission granted
       setIsUIHidden(true);
@@ -404,26 +824,48 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       const canvas = canvasRef.current;
       if (!canvas) throw new Error('Canvas not available');
 
-      const videoTrack = displayStream.getVideoTracks()[0];
-      const trackSettings = videoTrack.getSettings();
-      canvas.width = trackSettings.width || 1920;
-      canvas.height = trackSettings.height || 1080;
-
-      // Create screen video element
-      const screenVideo = document.createElement('video');
-      screenVideo.srcObject = displayStream;
-      screenVideo.muted = true;
-      screenVideo.playsInline = true;
-      await screenVideo.play();
-      screenVideoRef.current = screenVideo;
-
-      // Setup webcam if enabled
-      if (settings.cameraEnabled) {
+      if (displayStream && !captureRegionRef.current) {
+        const trackSettings = displayStream.getVideoTracks()[0].getSettings();
+        canvas.width = trackSettings.width || 1920;
+        canvas.height = trackSettings.height || 1080;
+      } else {
+        // Camera-only recordings and cropped regions render at the chosen output resolution
+        const { width, height } = getQualityConstraints();
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      if (displayStream) {
+        const screenTrack = displayStream.getVideoTracks()[0];
+        displaySurfaceRef.current = screenTrack.getSettings().displaySurface ?? null;
+
+        if (settings.customCursor) {
+          if (canTrackPointer(displaySurfaceRef.current)) {
+            cursorTrackerRef.current = createCursorTracker();
+          } else {
+            // Pointer positions can't be mapped onto a shared window, so keep the system cursor
+            await showCapturedCursor(screenTrack, true);
+            toast({
+              title: "Smooth cursor unavailable",
+              description: "Share a tab or a whole screen to use it. The system cursor is recorded instead.",
+            });
+          }
+        }
+
+        // Create screen video element
+        const screenVideo = document.createElement('video');
+        screenVideo.srcObject = displayStream;
+        screenVideo.muted = true;
+        screenVideo.playsInline = true;
+        await screenVideo.play();
+        screenVideoRef.current = screenVideo;
+      }
+
+      // Setup webcam if enabled or the layout needs it
+      if (usesCamera) {
         try {
-          const webcamStream = await navigator.mediaDevices.getUserMedia({
-            video: { width: { ideal: 640 }, height: { ideal: 480 }, facingMode: 'user' },
-            audio: false,
-          });
+          const webcamStream = await openCamera(settings.cameraDeviceId);
+          webcamStreamRef.current = webcamStream;
           setCameraStream(webcamStream);
 
           const webcamVideo = document.createElement('video');
@@ -432,19 +874,89 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
           webcamVideo.playsInline = true;
           await webcamVideo.play();
           webcamVideoRef.current = webcamVideo;
+
+          const initialLayout = getCornerLayout(settings.webcamCorner, settings.webcamSize, settings.cameraShape, canvas.width, canvas.height);
+          webcamLayoutRef.current = initialLayout;
+          setWebcamLayout(initialLayout);
         } catch (err) {
+          // Without a screen there is nothing left to record
+          if (!displayStream) throw err;
           console.warn('Could not access webcam:', err);
         }
       }
 
-      // Start canvas animation loop
-      drawCompositeFrame();
+      // Fall back to the plain screen if the camera the layout needs didn't open
+      const layouts = getAvailableLayouts(!!displayStream, !!webcamVideoRef.current);
+      const initialScene = layouts.includes(layout) ? layout : 'screen';
+      const sceneAnimator = createSceneAnimator(initialScene);
+      sceneAnimatorRef.current = sceneAnimator;
+      setAvailableLayouts(layouts);
+      setSceneLayoutState(initialScene);
+
+      // Start compositing onto the canvas
+      const compositor: Compositor = createCompositor(canvas, {
+        beforeFrame: ({ width, height, now }) => {
+          const bubble = webcamLayoutRef.current
+            ? getWebcamRect(webcamLayoutRef.current, settingsRef.current.cameraShape, width, height)
+            : null;
+          const scene = sceneAnimator.getFrame(now, width, height, bubble, settingsRef.current.cameraEnabled);
+          sceneFrameRef.current = scene;
+          compositor.updateLayer('screen', {
+            transform: toLayerTransform(scene.screen, width, height),
+            zIndex: scene.screenOnTop ? LAYER_Z.webcam + 1 : LAYER_Z.screen,
+          });
+        },
+      });
+      const regionPanner = createRegionPanner(captureRegionRef.current);
+      regionPannerRef.current = regionPanner;
+      compositor.addLayer(createScreenLayer(() => screenVideoRef.current, regionPanner.getRegion));
+      webcamBackground = createWebcamBackgroundProcessor(() => ({
+        mode: settingsRef.current.webcamBackground,
+        imageUrl: webcamBackgroundImageUrlRef.current,
+      }));
+      compositor.addLayer(createWebcamLayer(
+        () => webcamVideoRef.current,
+        () => sceneFrameRef.current && { placement: sceneFrameRef.current.camera, chrome: sceneFrameRef.current.cameraChrome },
+        () => settingsRef.current,
+        webcamBackground.render
+      ));
+      compositor.addLayer(createCursorLayer(
+        (now) => {
+          const state = cursorTrackerRef.current?.getState(now);
+          const position = state && mapSurfacePointToFrame(state, now);
+          if (!position) return null;
+          const clicks = state.clicks.flatMap(click => {
+            const point = mapSurfacePointToFrame(click, now);
+            return point ? [{ ...point, progress: click.progress }] : [];
+          });
+          return { ...position, opacity: state.opacity, clicks };
+        },
+        () => ({
+          clickAnimation: settingsRef.current.clickAnimation,
+          spotlight: settingsRef.current.cursorSpotlight,
+        })
+      ));
+      compositor.addLayer(createKeystrokeLayer(
+        () => keystrokesRef.current,
+        () => ({
+          position: settingsRef.current.keystrokePosition,
+          size: settingsRef.current.keystrokeSize,
+          theme: settingsRef.current.keystrokeTheme,
+        })
+      ));
+      compositor.addLayer(createAnnotationsLayer(
+        () => [...openAnnotationsRef.current.values()].map(entry => entry.annotation)
+      ));
+      compositor.addLayer(createWatermarkLayer(() => settingsRef.current.watermarkText));
+      applyLayerVisibility(compositor, settings);
+      compositor.start();
+      compositorRef.current = compositor;
 
       // Create composite stream from canvas
       const canvasStream = canvas.captureStream(settings.fps);
 
       // Setup audio with proper mixing using AudioContext
-      const audioContext = new AudioContext();
+      audioContext = new AudioContext();
       
       // Resume AudioContext if suspended (required by some browsers)
       if (audioContext.state === 'suspended') {
@@ -453,25 +965,21 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       }
       
       const destination = audioContext.createMediaStreamDestination();
+      mixer = createAudioMixer(audioContext, destination, settings);
       
       let hasAudioTracks = false;
       let hasSystemAudio = false;
+      let hasMicAudio = false;
 
       // System audio from display stream (only if system or both is selected)
-      if (settings.audioSource === 'system' || settings.audioSource === 'both') {
+      if (displayStream && (settings.audioSource === 'system' || settings.audioSource === 'both')) {
         const systemAudioTracks = displayStream.getAudioTracks();
         console.log('System audio tracks found:', systemAudioTracks.length);
         
         if (systemAudioTracks.length > 0) {
           const systemStream = new MediaStream(systemAudioTracks);
           const systemSource = audioContext.createMediaStreamSource(systemStream);
-          
-          // Add gain control for system audio
-          const systemGain = audioContext.createGain();
-          systemGain.gain.value = 1.0;
-          
-          systemSource.connect(systemGain);
-          systemGain.connect(destination);
+          systemSource.connect(mixer.system.input);
           hasAudioTracks = true;
           hasSystemAudio = true;
           console.log('✓ System audio connected successfully');
@@ -494,24 +1002,11 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       if (settings.audioSource === 'mic' || settings.audioSource === 'both') {
         try {
           console.log('Requesting microphone access...');
-          const micStream = await navigator.mediaDevices.getUserMedia({
-            audio: {
-              echoCancellation: true,
-              noiseSuppression: true,
-              autoGainControl: true,
-              // Advanced constraints for better audio quality
-              sampleRate: { ideal: 48000 },
-              channelCount: { ideal: 1 },
-            },
-          });
+          const micStream = await openMicrophone(settings.micDeviceId);
           
           console.log('Microphone access granted, tracks:', micStream.getAudioTracks().length);
           const micSource = audioContext.createMediaStreamSource(micStream);
           
-          // Apply noise gate to reduce background hiss
-          const micGain = audioContext.createGain();
-          micGain.gain.value = settings.audioSource === 'both' ? 0.8 : 1.0;
-          
           // High-pass filter to reduce low-frequency rumble/hum
           const highpassFilter = audioContext.createBiquadFilter();
           highpassFilter.type = 'highpass';
@@ -530,14 +1025,30 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
           compressor.attack.value = 0.003;
           compressor.release.value = 0.25;
           
+          // Spectral noise suppression; always in the chain so it can be switched on mid-recording
+          try {
+            noiseSuppressorRef.current = await createNoiseSuppressor(audioContext, {
+              strength: settings.noiseSuppression ? settings.noiseSuppressionStrength : 0,
+              profile: loadNoiseProfile(),
+            });
+          } catch (err) {
+            console.warn('Noise suppression unavailable:', err);
+          }
+          
           // Connect the audio processing chain
           micSource.connect(highpassFilter);
-          highpassFilter.connect(lowpassFilter);
+          if (noiseSuppressorRef.current) {
+            highpassFilter.connect(noiseSuppressorRef.current.node);
+            noiseSuppressorRef.current.node.connect(lowpassFilter);
+          } else {
+            highpassFilter.connect(lowpassFilter);
+          }
           lowpassFilter.connect(compressor);
-          compressor.connect(micGain);
-          micGain.connect(destination);
+          compressor.connect(mixer.mic.input);
+          micChainRef.current = { context: audioContext, stream: micStream, source: micSource, input: highpassFilter };
           
           hasAudioTracks = true;
+          hasMicAudio = true;
           console.log('✓ Microphone connected with noise reduction');
           
           toast({
@@ -569,8 +1080,7 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         });
       }
       
-      // Store audio context ref for cleanup
-      const audioContextRef = audioContext;
+      setAudioMixer(mixer);
 
       streamRef.current = canvasStream;
 
@@ -609,79 +1119,141 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       });
 
       chunksRef.current = [];
+      chunkPersistenceRef.current = { received: 0, stored: 0, failed: false, metadataSavedAt: 0, savedOverlays: [] };
       startTimeRef.current = Date.now();
       pausedDurationRef.current = 0;
       pauseStartRef.current = null;
+      setCanvasOverlays([]);
+      webcamKeyframesRef.current = webcamLayoutRef.current ? [{ time: 0, ...webcamLayoutRef.current }] : [];
+      clicksRef.current = [];
+
+      // Stream chunks to IndexedDB as they arrive so a crash or reload doesn't lose the recording,
+      // and so a long recording doesn't have to fit in memory
+      const sessionId = Date.now().toString();
+      releaseSessionLock = holdRecordingSessionLock(sessionId);
+      const persistence = chunkPersistenceRef.current;
+      // Once a chunk is missing the stored ones can't make a playable file, so keep the rest in memory
+      const stopPersisting = (err: unknown) => {
+        console.error('Failed to persist recording chunk, keeping the rest of the recording in memory:', err);
+        persistence.failed = true;
+        updateRecordingSession(sessionId, { unrecoverable: true }).catch(console.error);
+      };
+      chunkWritesRef.current = createRecordingSession({
+        id: sessionId,
+        startedAt: new Date().toISOString(),
+        mimeType: selectedMimeType,
+        resolution: settings.quality,
+        duration: 0,
+        chunkCount: 0,
+      }).catch(stopPersisting);
 
       mediaRecorder.ondataavailable = (e) => {
         if (e.data.size > 0) {
-          chunksRef.current.push(e.data);
+          const index = persistence.received++;
+          const chunk = e.data;
+          chunksRef.current.push(chunk);
+
+          // Chain writes so chunks land in order
+          chunkWritesRef.current = chunkWritesRef.current.then(async () => {
+            if (persistence.failed) return;
+            const now = Date.now();
+            const metadataDue = now - persistence.metadataSavedAt >= SESSION_METADATA_INTERVAL_MS;
+            const overlays = canvasOverlaysRef.current;
+            const overlaysChanged = overlays !== persistence.savedOverlays;
+            const metadata: Partial<RecordingSessionMetadata> | undefined = metadataDue || overlaysChanged
+              ? { ...(metadataDue && collectSessionMetadata()), ...(overlaysChanged && { canvasOverlays: overlays }) }
+              : undefined;
+            try {
+              await appendRecordingSessionChunk(sessionId, index, chunk, durationRef.current, metadata);
+              if (metadataDue) persistence.metadataSavedAt = now;
+              if (overlaysChanged) persistence.savedOverlays = overlays;
+              persistence.stored = index + 1;
+              chunksRef.current = chunksRef.current.filter(pending => pending !== chunk);
+            } catch (err) {
+              stopPersisting(err);
+            }
+          });
         }
       };
 
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-        const url = URL.createObjectURL(blob);
-        const finalDuration = durationRef.current;
+      // The stored chunks read back from the session, followed by those still in memory
+      const assembleRecording = async () => {
+        await chunkWritesRef.current;
+        const pending = chunksRef.current;
+        chunksRef.current = [];
+        if (persistence.stored === 0) return new Blob(pending, { type: selectedMimeType });
+        const stored = await loadRecordingSessionBlob({ id: sessionId, mimeType: selectedMimeType });
+        return new Blob([stored, ...pending], { type: selectedMimeType });
+      };
 
-        const newRecording: Recording = {
-          id: Date.now().toString(),
-          blob,
-          url,
-          duration: finalDuration,
-          timestamp: new Date(),
-          resolution: settings.quality,
-          size: blob.size,
-        };
+      // Separate mic and system tracks, tapped after the faders but before ducking
+      const stemRecorders = !settings.recordStems ? [] : [
+        hasMicAudio ? createStemRecorder(audioContext, mixer.mic.fader, 'mic') : null,
+        hasSystemAudio ? createStemRecorder(audioContext, mixer.system.fader, 'system') : null,
+      ].filter((stem): stem is StemRecorder => stem !== null);
+      stemRecordersRef.current = stemRecorders;
 
-        // Save to IndexedDB
-        saveRecording(newRecording).catch(err => {
-          console.error('Failed to save recording:', err);
+      mediaRecorder.onstop = () => {
+        const finalDuration = durationRef.current;
+        // The composite canvas still holds the last rendered frame at this point
+        const thumbnail = capturePosterFrame(canvas);
+        const overlays = canvasOverlaysRef.current.length > 0 ? [...canvasOverlaysRef.current] : undefined;
+        setCanvasOverlays([]);
+        const webcamKeyframes = webcamKeyframesRef.current.length > 0 ? webcamKeyframesRef.current : undefined;
+        webcamKeyframesRef.current = [];
+        const clicks = clicksRef.current.length > 0 ? clicksRef.current : undefined;
+        clicksRef.current = [];
+        const annotations = annotationsRef.current.length > 0 ? annotationsRef.current : undefined;
+        annotationsRef.current = [];
+
+        // Stem recorders flush their last chunk asynchronously
+        const stemsReady = Promise.all(stemRecorders.map(stem => stem.stop()));
+        stemRecordersRef.current = [];
+
+        Promise.all([assembleRecording(), stemsReady]).then(([blob, results]) => {
+          const stems = results.filter((stem): stem is AudioStem => stem !== null);
+          const newRecording: Recording = {
+            id: sessionId,
+            blob,
+            url: URL.createObjectURL(blob),
+            duration: finalDuration,
+            timestamp: new Date(),
+            thumbnail,
+            resolution: settings.quality,
+            size: blob.size,
+            mimeType: selectedMimeType,
+            canvasOverlays: overlays,
+            stems: stems.length > 0 ? stems : undefined,
+            webcamKeyframes,
+            clicks,
+            annotations,
+          };
+
+          // Save to IndexedDB, then drop the session once every pending chunk write has settled
+          saveRecording(newRecording)
+            .then(() => {
+              ensureThumbnails(newRecording);
+              return chunkWritesRef.current;
+            })
+            .then(() => deleteRecordingSession(sessionId))
+            .catch(err => {
+              console.error('Failed to save recording:', err);
+            })
+            .finally(releaseSessionLock);
+
+          setRecordings(prev => [newRecording, ...prev]);
+        }).catch(err => {
+          // The session stays in IndexedDB, so the recovery prompt offers it on the next load
+          console.error('Failed to read back recording:', err);
+          releaseSessionLock();
+          toast({
+            title: "Recording Not Saved",
+            description: "The recording couldn't be read back from storage. Reload the app to recover it.",
+            variant: "destructive",
+          });
         });
-        
-        setRecordings(prev => [newRecording, ...prev]);
-
-        // Cleanup
-        if (animationFrameRef.current) {
-          cancelAnimationFrame(animationFrameRef.current);
-          animationFrameRef.current = null;
-        }
-
-        // Close AudioContext
-        audioContextRef.close().catch(console.error);
-
-        displayStream.getTracks().forEach(track => track.stop());
-        streamRef.current?.getTracks().forEach(track => track.stop());
-        streamRef.current = null;
-
-        if (screenVideoRef.current) {
-          screenVideoRef.current.srcObject = null;
-          screenVideoRef.current = null;
-        }
-
-        if (webcamVideoRef.current) {
-          webcamVideoRef.current.srcObject = null;
-          webcamVideoRef.current = null;
-        }
-
-        if (cameraStream) {
-          cameraStream.getTracks().forEach(track => track.stop());
-          setCameraStream(null);
-        }
-
-        if (videoRef.current) {
-          videoRef.current.srcObject = null;
-        }
 
-        // Exit PiP
-        if (document.pictureInPictureElement) {
-          document.exitPictureInPicture().catch(console.error);
-        }
-        setIsPipActive(false);
-        setScreenStream(null);
-
-        // Restore UI
-        setIsUIHidden(false);
+        releaseResources(stemsReady);
 
         toast({
           title: "Recording Saved",
@@ -707,9 +1279,11 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       }, 100);
 
       // Handle stream end
-      displayStream.getVideoTracks()[0].onended = () => {
-        stopRecording();
-      };
+      if (displayStream) {
+        displayStream.getVideoTracks()[0].onended = () => {
+          stopRecording();
+        };
+      }
 
       // Auto-enable PiP
       setTimeout(() => {
@@ -718,14 +1292,19 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
 
     } catch (err) {
       console.error('Error starting recording:', err);
-      setIsUIHidden(false);
+      const stemsReady = Promise.all(stemRecordersRef.current.map(stem => stem.stop()));
+      stemRecordersRef.current = [];
+      releaseResources(stemsReady);
+      releaseSessionLock();
+      annotationsRef.current = [];
+      openAnnotationsRef.current.clear();
       toast({
         title: "Recording Failed",
         description: "Could not start recording. Please check permissions.",
         variant: "destructive",
       });
     }
-  }, [settings, getQualityConstraints, drawCompositeFrame, enablePip, cameraStream]);
+  }, [settings, getQualityConstraints, requestDisplayStream, mapSurfacePointToFrame, setCaptureRegion, applyLayerVisibility, keystrokesRef, enablePip, ensureThumbnails, collectSessionMetadata]);
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
@@ -738,15 +1317,23 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         timerRef.current = null;
       }
 
+      // Drawings still on screen last until the end
+      const endTime = getRecordingTime();
+      openAnnotationsRef.current.forEach(({ annotation }) => {
+        annotation.endTime = endTime;
+      });
+      openAnnotationsRef.current.clear();
+
       startTimeRef.current = null;
       pausedDurationRef.current = 0;
       pauseStartRef.current = null;
     }
-  }, []);
+  }, [getRecordingTime]);
 
   const pauseRecording = useCallback(() => {
     if (mediaRecorderRef.current && isRecording && !isPaused) {
       mediaRecorderRef.current.pause();
+      stemRecordersRef.current.forEach(stem => stem.pause());
       setIsPaused(true);
       pauseStartRef.current = Date.now();
 
@@ -760,6 +1347,7 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
   const resumeRecording = useCallback(() => {
     if (mediaRecorderRef.current && isRecording && isPaused) {
       mediaRecorderRef.current.resume();
+      stemRecordersRef.current.forEach(stem => stem.resume());
       setIsPaused(false);
 
       if (pauseStartRef.current !== null) {
@@ -774,6 +1362,117 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
   }, [isRecording, isPaused]);
 
+  // Swap the microphone feeding the audio graph; the MediaRecorder keeps running
+  const swapMicrophone = useCallback(async (deviceId: string) => {
+    const chain = micChainRef.current;
+    if (!chain) return;
+
+    const stream = await openMicrophone(deviceId);
+    if (micChainRef.current !== chain) {
+      // Recording ended while the device was opening
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const source = chain.context.createMediaStreamSource(stream);
+    source.connect(chain.input);
+    chain.source.disconnect();
+    chain.stream.getTracks().forEach(track => track.stop());
+    micChainRef.current = { ...chain, stream, source };
+
+    toast({
+      title: "Microphone Switched",
+      description: stream.getAudioTracks()[0]?.label || "Using the default microphone",
+    });
+  }, []);
+
+  // Swap the webcam drawn by the compositor; it picks up the new element on its next frame
+  const swapCamera = useCallback(async (deviceId: string) => {
+    const stream = await openCamera(deviceId);
+    const webcamVideo = document.createElement('video');
+    webcamVideo.srcObject = stream;
+    webcamVideo.muted = true;
+    webcamVideo.playsInline = true;
+    await webcamVideo.play();
+
+    if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const previous = webcamStreamRef.current;
+    webcamVideoRef.current = webcamVideo;
+    webcamStreamRef.current = stream;
+    setCameraStream(stream);
+    previous?.getTracks().forEach(track => track.stop());
+
+    toast({
+      title: "Camera Switched",
+      description: stream.getVideoTracks()[0]?.label || "Using the default camera",
+    });
+  }, []);
+
+  // Follow device changes while recording: fall back to the default when the
+  // active device disappears, and return to the chosen one when it comes back
+  useEffect(() => {
+    if (!isRecording || !navigator.mediaDevices) return;
+
+    const syncDevices = () => {
+      deviceSwapsRef.current = deviceSwapsRef.current
+        .then(async () => {
+          const devices = await navigator.mediaDevices.enumerateDevices();
+
+          if (micChainRef.current) {
+            const micTarget = getDeviceToSwapTo(micChainRef.current.stream, settings.micDeviceId, devices, 'audioinput');
+            if (micTarget !== null) await swapMicrophone(micTarget);
+          }
+
+          // Layouts with the camera keep it open even while the bubble is switched off
+          if (settings.cameraEnabled || webcamStreamRef.current) {
+            const cameraTarget = getDeviceToSwapTo(webcamStreamRef.current, settings.cameraDeviceId, devices, 'videoinput');
+            if (cameraTarget !== null) await swapCamera(cameraTarget);
+          }
+        })
+        .catch(err => {
+          console.error('Failed to switch recording device:', err);
+          toast({
+            title: "Device Switch Failed",
+            description: err instanceof Error ? err.message : "Could not switch to the new device",
+            variant: "destructive",
+          });
+        });
+    };
+
+    // Also applies a device picked while already recording
+    syncDevices();
+    navigator.mediaDevices.addEventListener('devicechange', syncDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', syncDevices);
+  }, [isRecording, settings.micDeviceId, settings.cameraDeviceId, settings.cameraEnabled, swapMicrophone, swapCamera]);
+
+  useEffect(() => {
+    noiseSuppressorRef.current?.setStrength(settings.noiseSuppression ? settings.noiseSuppressionStrength : 0);
+  }, [isRecording, settings.noiseSuppression, settings.noiseSuppressionStrength]);
+
+  // Faders, mutes and ducking take effect on the running graph
+  useEffect(() => {
+    audioMixer?.apply({
+      systemVolume: settings.systemVolume,
+      systemMuted: settings.systemMuted,
+      micVolume: settings.micVolume,
+      micMuted: settings.micMuted,
+      duckingEnabled: settings.duckingEnabled,
+      duckingLevel: settings.duckingLevel,
+    });
+  }, [
+    audioMixer,
+    settings.systemVolume,
+    settings.systemMuted,
+    settings.micVolume,
+    settings.micMuted,
+    settings.duckingEnabled,
+    settings.duckingLevel,
+  ]);
+
   // Note: Keyboard shortcuts are handled by useKeyboardShortcuts hook
 
   // Handle PiP events
@@ -800,9 +1499,7 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      compositorRef.current?.stop();
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
@@ -857,12 +1554,101 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     setCanvasOverlays([]);
   }, [canvasOverlays]);
 
+  // Move or resize the webcam bubble; committed changes (e.g. the end of a drag) are kept as keyframes
+  const updateWebcamLayout = useCallback((layout: WebcamLayout, commit = false) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !webcamLayoutRef.current) return;
+
+    const next = clampWebcamLayout(layout, settings.cameraShape, canvas.width, canvas.height);
+    webcamLayoutRef.current = next;
+    setWebcamLayout(next);
+
+    if (commit && startTimeRef.current !== null) {
+      const time = getRecordingTime();
+      // Several commits within the same moment collapse into one keyframe
+      const keyframes = webcamKeyframesRef.current.filter(keyframe => keyframe.time < time);
+      webcamKeyframesRef.current = [...keyframes, { time, ...next }];
+    }
+  }, [settings.cameraShape, getRecordingTime]);
+
+  /**
+   * Log clicks for auto-zoom, mapped into the recorded frame. The page only
+   * sees its own clicks, so this works when recording this tab, or the whole
+   * screen the browser is on; clicks in other windows can't be observed.
+   */
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (pauseStartRef.current !== null) return;
+      if (e.target instanceof Element && e.target.closest('[data-recording-controls]')) return;
+
+      const surfacePoint = toSurfacePoint(e, displaySurfaceRef.current);
+      const point = surfacePoint && mapSurfacePointToFrame(surfacePoint, performance.now());
+      if (!point) return;
+
+      clicksRef.current.push({ time: getRecordingTime(), x: point.x, y: point.y });
+    };
+
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    return () => window.removeEventListener('pointerdown', handlePointerDown, true);
+  }, [isRecording, getRecordingTime, mapSurfacePointToFrame]);
+
+  /**
+   * Feed the custom cursor. Positions only arrive while the pointer is over
+   * this page, so when it leaves, the drawn cursor fades out and the captured
+   * system cursor is switched back on where the browser allows it.
+   */
+  useEffect(() => {
+    const tracker = cursorTrackerRef.current;
+    const track = screenStream?.getVideoTracks()[0];
+    if (!isRecording || !tracker || !track) return;
+
+    let away = false;
+    const handleMove = (e: PointerEvent) => {
+      const point = toSurfacePoint(e, displaySurfaceRef.current);
+      if (!point) return;
+      tracker.move(point, performance.now());
+      if (away) {
+        away = false;
+        showCapturedCursor(track, false);
+      }
+    };
+    const handleDown = (e: PointerEvent) => {
+      const point = toSurfacePoint(e, displaySurfaceRef.current);
+      if (point && settingsRef.current.clickAnimation) tracker.click(point, performance.now());
+    };
+    const handleLeave = () => {
+      tracker.leave(performance.now());
+      if (!away) {
+        away = true;
+        showCapturedCursor(track, true);
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove, true);
+    window.addEventListener('pointerdown', handleDown, true);
+    document.documentElement.addEventListener('mouseleave', handleLeave);
+    window.addEventListener('blur', handleLeave);
+    return () => {
+      window.removeEventListener('pointermove', handleMove, true);
+      window.removeEventListener('pointerdown', handleDown, true);
+      document.documentElement.removeEventListener('mouseleave', handleLeave);
+      window.removeEventListener('blur', handleLeave);
+    };
+  }, [isRecording, screenStream]);
+
   // Add canvas overlay from FloatingCanvas
   const addCanvasOverlay = useCallback((imageData: string, width: number, height: number) => {
+    const now = Date.now();
+    const recordingTime = getRecordingTime(now);
+
     const overlay: CanvasOverlay = {
-      id: Date.now().toString(),
+      id: now.toString(),
       imageData,
-      timestamp: new Date(),
+      timestamp: new Date(now),
+      recordingTime,
+      displayDuration: CANVAS_OVERLAY_DISPLAY_SECONDS,
       width,
       height,
     };
@@ -872,13 +1658,118 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       title: "Canvas Saved",
       description: "Drawing will be added to video during export",
     });
-  }, []);
+  }, [getRecordingTime]);
+
+  const setVisibleAnnotations = useCallback((shapes: AnnotationShape[], screenOffset: { x: number; y: number }) => {
+    if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') return;
+    // A shared window or a camera-only recording has no place the page's drawings could be mapped to
+    const surface = displaySurfaceRef.current;
+    if (!canTrackPointer(surface)) return;
+    const open = openAnnotationsRef.current;
+    const time = getRecordingTime();
+
+    // Shapes that went away or were moved or recolored end here; changed ones start again as they are now
+    const current = new Map(shapes.map(shape => [shape.id, shape]));
+    open.forEach((entry, id) => {
+      if (current.get(id) === entry.shape) return;
+      entry.annotation.endTime = time;
+      open.delete(id);
+    });
+
+    const now = performance.now();
+    const toSurface = (point: AnnotationPoint) => {
+      const clientX = point.x * window.innerWidth;
+      const clientY = point.y * window.innerHeight;
+      return toSurfacePoint({ clientX, clientY, screenX: screenOffset.x + clientX, screenY: screenOffset.y + clientY }, surface) ?? point;
+    };
+    const toFrame = (point: CursorPoint) => mapSurfacePointToFrame(point, now, false) ?? point;
+    const surfaceHeight = surface === 'monitor' ? window.screen.height : window.innerHeight;
+
+    shapes.forEach(shape => {
+      if (open.has(shape.id) || shape.points.length === 0) return;
+      const points = shape.points.map(point => toFrame(toSurface(point)));
+      // Scale the size the same way the points were, crop and layout included
+      const first = toSurface(shape.points[0]);
+      const sizeOnSurface = (shape.size * window.innerHeight) / surfaceHeight;
+      const size = Math.abs(toFrame({ x: first.x, y: first.y + sizeOnSurface }).y - points[0].y);
+
+      const annotation: Annotation = {
+        ...shape,
+        id: createAnnotationId(),
+        points,
+        size,
+        startTime: time,
+        endTime: time,
+        // The annotations layer draws it into the recording while it is open
+        captured: true,
+      };
+      open.set(shape.id, { shape, annotation });
+      annotationsRef.current.push(annotation);
+    });
+  }, [getRecordingTime, mapSurfacePointToFrame]);
 
   // Clear all canvas overlays
   const clearCanvasOverlays = useCallback(() => {
     setCanvasOverlays([]);
   }, []);
 
+  // Rebuild a recording from the chunks an interrupted session left in IndexedDB
+  const recoverSession = useCallback(async (id: string) => {
+    const session = unfinishedSessions.find(s => s.id === id);
+    if (!session) return;
+
+    try {
+      const blob = await loadRecordingSessionBlob(session);
+      if (blob.size === 0) {
+        throw new Error('No recorded data found for this session');
+      }
+
+      // Sessions saved before metadata was kept with them come back as the video alone
+      const nonEmpty = <T,>(items: T[] | undefined) => (items && items.length > 0 ? items : undefined);
+      const recoveredRecording: Recording = {
+        id: session.id,
+        blob,
+        url: URL.createObjectURL(blob),
+        duration: session.duration,
+        timestamp: new Date(session.startedAt),
+        resolution: session.resolution,
+        size: blob.size,
+        mimeType: session.mimeType,
+        canvasOverlays: nonEmpty(session.metadata?.canvasOverlays),
+        webcamKeyframes: nonEmpty(session.metadata?.webcamKeyframes),
+        clicks: nonEmpty(session.metadata?.clicks),
+        annotations: nonEmpty(session.metadata?.annotations),
+      };
+
+      await saveRecording(recoveredRecording);
+      await deleteRecordingSession(session.id);
+
+      setRecordings(prev => [recoveredRecording, ...prev.filter(r => r.id !== session.id)]);
+      setUnfinishedSessions(prev => prev.filter(s => s.id !== id));
+
+      toast({
+        title: "Recording Recovered",
+        description: `${formatDuration(session.duration)} recording restored to library`,
+      });
+    } catch (err) {
+      console.error('Failed to recover recording:', err);
+      toast({
+        title: "Recovery Failed",
+        description: err instanceof Error ? err.message : "Could not recover recording",
+        variant: "destructive",
+      });
+    }
+  }, [unfinishedSessions]);
+
+  const discardSession = useCallback(async (id: string) => {
+    try {
+      await deleteRecordingSession(id);
+    } catch (err) {
+      console.error('Failed to discard recording session:', err);
+    }
+    setUnfinishedSessions(prev => prev.filter(s => s.id !== id));
+  }, []);
+
   return (
     <RecordingContext.Provider
       value={{
@@ -893,7 +1784,19 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         isPipActive,
         isUIHidden,
         screenStream,
+        unfinishedSessions,
+        presets,
+        audioMixer,
+        webcamLayout,
+        sceneLayout,
+        availableLayouts,
+        captureRegion,
+        webcamBackgroundImageUrl,
         updateSettings,
+        applyPreset,
+        savePreset,
+        deletePreset,
+        setWebcamBackgroundImage,
         startRecording,
         stopRecording,
         pauseRecording,
@@ -905,9 +1808,18 @@ export const RecordingProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         enablePip,
         disablePip,
         toggleMic,
+        updateWebcamLayout,
+        setSceneLayout,
+        setCaptureRegion,
+        prepareScreenCapture,
+        releaseScreenCapture,
         addRecording,
         addCanvasOverlay,
+        setVisibleAnnotations,
         clearCanvasOverlays,
+        recoverSession,
+        discardSession,
+        ensureThumbnails,
         videoRef,
         canvasRef,
       }}
@@ -0,0 +1,198 @@
+import { useCallback, useRef, useState } from 'react';
+import {
+  AnnotationPoint,
+  AnnotationShape,
+  AnnotationTool,
+  createAnnotationId,
+  getNextStepNumber,
+  getShapeSize,
+  hitTestAnnotations,
+  isDraggedShape,
+  moveAnnotation,
+} from '@/lib/annotations';
+
+// Shapes narrower than this, as a fraction of the surface, were a click rather than a drag
+const MIN_DRAG_SIZE = 0.005;
+
+export interface AnnotationEditor {
+  shapes: AnnotationShape[];
+  draft: AnnotationShape | null; // the shape being drawn, not yet in `shapes`
+  selectedId: string | null;
+  isMoving: boolean; // the selected shape is being dragged; `shapes` settles when it is let go
+  textAnchor: AnnotationPoint | null; // where the text being typed will go
+  tool: AnnotationTool;
+  color: string;
+  brushSize: number; // CSS pixels
+  setTool: (tool: AnnotationTool) => void;
+  setColor: (color: string) => void; // also recolors the selected shape
+  setBrushSize: (size: number) => void;
+  // Pointer positions are fractions of the surface; `surface` is its size in CSS pixels
+  pointerDown: (point: AnnotationPoint, surface: { width: number; height: number }) => void;
+  pointerMove: (point: AnnotationPoint) => void;
+  pointerUp: () => void;
+  commitText: (text: string) => void;
+  cancelText: () => void;
+  deleteSelected: () => void;
+  clear: () => void;
+}
+
+interface AnnotationEditorOptions {
+  initialColor?: string;
+  initialBrushSize?: number;
+}
+
+interface DragState {
+  mode: 'draw' | 'move';
+  last: AnnotationPoint;
+}
+
+/**
+ * State and pointer handling for drawing, selecting and moving annotation
+ * shapes. Rendering is left to the surface, so the same tools work on the
+ * screen overlay, the quick canvas and the Document PiP canvas.
+ */
+export const useAnnotationEditor = ({ initialColor = '#ef4444', initialBrushSize = 4 }: AnnotationEditorOptions = {}): AnnotationEditor => {
+  const [shapes, setShapes] = useState<AnnotationShape[]>([]);
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  const [textAnchor, setTextAnchor] = useState<AnnotationPoint | null>(null);
+  const [tool, setToolState] = useState<AnnotationTool>('stroke');
+  const [color, setColorState] = useState(initialColor);
+  const [brushSize, setBrushSize] = useState(initialBrushSize);
+  const dragRef = useRef<DragState | null>(null);
+  // Text is sized when its anchor is placed, against the surface it was placed on
+  const textSizeRef = useRef(0);
+
+  const setTool = useCallback((next: AnnotationTool) => {
+    setToolState(next);
+    setTextAnchor(null);
+    if (next !== 'select') setSelectedId(null);
+  }, []);
+
+  const setColor = useCallback((next: string) => {
+    setColorState(next);
+    if (selectedId) setShapes(prev => prev.map(shape => (shape.id === selectedId ? { ...shape, color: next } : shape)));
+  }, [selectedId]);
+
+  const pointerDown = useCallback((point: AnnotationPoint, surface: { width: number; height: number }) => {
+    const aspectRatio = surface.width / surface.height;
+
+    if (tool === 'select') {
+      const hit = hitTestAnnotations(shapes, point, aspectRatio);
+      setSelectedId(hit?.id ?? null);
+      dragRef.current = hit ? { mode: 'move', last: point } : null;
+      setIsMoving(!!hit);
+      return;
+    }
+
+    const size = getShapeSize(tool, brushSize) / surface.height;
+    if (tool === 'text') {
+      textSizeRef.current = size;
+      setTextAnchor(point);
+      return;
+    }
+    if (tool === 'step') {
+      setShapes(prev => [...prev, {
+        id: createAnnotationId(),
+        kind: 'step',
+        points: [point],
+        color,
+        size,
+        text: String(getNextStepNumber(prev)),
+      }]);
+      return;
+    }
+
+    dragRef.current = { mode: 'draw', last: point };
+    setDraft({
+      id: createAnnotationId(),
+      kind: tool,
+      points: isDraggedShape(tool) ? [point, point] : [point],
+      color,
+      size,
+    });
+  }, [tool, shapes, brushSize, color]);
+
+  const pointerMove = useCallback((point: AnnotationPoint) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    if (drag.mode === 'move') {
+      const dx = point.x - drag.last.x;
+      const dy = point.y - drag.last.y;
+      setShapes(prev => prev.map(shape => (shape.id === selectedId ? moveAnnotation(shape, dx, dy) : shape)));
+    } else {
+      setDraft(prev => {
+        if (!prev) return prev;
+        return { ...prev, points: isDraggedShape(prev.kind) ? [prev.points[0], point] : [...prev.points, point] };
+      });
+    }
+    drag.last = point;
+  }, [selectedId]);
+
+  const pointerUp = useCallback(() => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setIsMoving(false);
+    if (drag?.mode !== 'draw' || !draft) return;
+
+    setDraft(null);
+    if (isDraggedShape(draft.kind)) {
+      const [from, to] = draft.points;
+      if (Math.abs(to.x - from.x) < MIN_DRAG_SIZE && Math.abs(to.y - from.y) < MIN_DRAG_SIZE) return;
+    }
+    setShapes(prev => [...prev, draft]);
+  }, [draft]);
+
+  const commitText = useCallback((text: string) => {
+    const anchor = textAnchor;
+    setTextAnchor(null);
+    if (!anchor || !text.trim()) return;
+    setShapes(prev => [...prev, {
+      id: createAnnotationId(),
+      kind: 'text',
+      points: [anchor],
+      color,
+      size: textSizeRef.current,
+      text: text.trim(),
+    }]);
+  }, [textAnchor, color]);
+
+  const cancelText = useCallback(() => setTextAnchor(null), []);
+
+  const deleteSelected = useCallback(() => {
+    if (!selectedId) return;
+    setShapes(prev => prev.filter(shape => shape.id !== selectedId));
+    setSelectedId(null);
+  }, [selectedId]);
+
+  const clear = useCallback(() => {
+    setShapes([]);
+    setDraft(null);
+    setSelectedId(null);
+    setIsMoving(false);
+    setTextAnchor(null);
+  }, []);
+
+  return {
+    shapes,
+    draft,
+    selectedId,
+    isMoving,
+    textAnchor,
+    tool,
+    color,
+    brushSize,
+    setTool,
+    setColor,
+    setBrushSize,
+    pointerDown,
+    pointerMove,
+    pointerUp,
+    commitText,
+    cancelText,
+    deleteSelected,
+    clear,
+  };
+};
@@ -1,6 +1,7 @@
 import { useEffect, useCallback, useState } from 'react';
 import { useRecording } from '@/contexts/RecordingContext';
 import { toast } from '@/hooks/use-toast';
+import { getLayoutLabel, getNextLayout, SCENE_LAYOUTS, SceneLayout } from '@/lib/sceneLayout';
 
 /**
  * useKeyboardShortcuts - Focus-aware keyboard shortcuts for recording control
@@ -12,6 +13,7 @@ import { toast } from '@/hooks/use-toast';
  * - Shift+S: Screenshot
  * - Shift+M: Toggle Mic
  * - Shift+C: Toggle Camera
+ * - Shift+L: Next Layout (Shift+1-4 pick one directly)
  * 
  * IMPORTANT BROWSER LIMITATION:
  * Keyboard shortcuts ONLY work when the browser tab/window has focus.
@@ -36,6 +38,9 @@ export const useKeyboardShortcuts = () => {
     toggleMic,
     updateSettings,
     isUIHidden,
+    sceneLayout,
+    availableLayouts,
+    setSceneLayout,
   } = useRecording();
 
   const [isTabFocused, setIsTabFocused] = useState(true);
@@ -142,6 +147,27 @@ export const useKeyboardShortcuts = () => {
     });
   }, [toggleMic, settings.audioSource]);
 
+  const switchLayout = useCallback((layout: SceneLayout) => {
+    if (!isRecording || !sceneLayout || layout === sceneLayout) return;
+    if (!availableLayouts.includes(layout)) {
+      toast({
+        title: "Layout Unavailable",
+        description: `${getLayoutLabel(layout)} needs both the screen and the camera`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setSceneLayout(layout);
+    toast({
+      title: `Layout: ${getLayoutLabel(layout)}`,
+      description: "Shortcut: Shift+L",
+    });
+  }, [isRecording, sceneLayout, availableLayouts, setSceneLayout]);
+
+  const handleNextLayout = useCallback(() => {
+    if (sceneLayout) switchLayout(getNextLayout(sceneLayout, availableLayouts));
+  }, [sceneLayout, availableLayouts, switchLayout]);
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Only check for Shift key, no Ctrl required
@@ -156,6 +182,16 @@ export const useKeyboardShortcuts = () => {
         return;
       }
 
+      // Shifted digits produce symbols that differ per keyboard layout, so match the physical key
+      const layoutIndex = /^Digit[1-9]$/.test(e.code) ? Number(e.code.slice(5)) - 1 : -1;
+      if (layoutIndex >= 0 && layoutIndex < SCENE_LAYOUTS.length) {
+        // Outside a recording these keys type !@#$ as usual
+        if (!isRecording) return;
+        e.preventDefault();
+        switchLayout(SCENE_LAYOUTS[layoutIndex].id);
+        return;
+      }
+
       const key = e.key.toUpperCase();
 
       switch (key) {
@@ -183,6 +219,10 @@ export const useKeyboardShortcuts = () => {
           e.preventDefault();
           toggleCamera();
           break;
+        case 'L':
+          e.preventDefault();
+          handleNextLayout();
+          break;
       }
     };
 
@@ -199,6 +239,9 @@ export const useKeyboardShortcuts = () => {
     handleScreenshot,
     handleToggleMic,
     toggleCamera,
+    handleNextLayout,
+    switchLayout,
+    isRecording,
   ]);
 
   return {
@@ -210,6 +253,8 @@ export const useKeyboardShortcuts = () => {
       { key: 'S', description: 'Take Screenshot', shortcut: 'Shift+S' },
       { key: 'M', description: 'Toggle Microphone', shortcut: 'Shift+M' },
       { key: 'C', description: 'Toggle Camera', shortcut: 'Shift+C' },
+      { key: 'L', description: 'Next Layout', shortcut: 'Shift+L' },
+      { key: '1-4', description: 'Screen / Camera / Side by Side / Screen in Corner', shortcut: 'Shift+1-4' },
     ],
   };
 };
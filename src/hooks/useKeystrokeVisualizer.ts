@@ -0,0 +1,222 @@
+import { useEffect, useRef } from 'react';
+import type { KeystrokePosition, KeystrokeSize, KeystrokeTheme } from '@/contexts/RecordingContext';
+
+export interface KeystrokeChip {
+  id: number;
+  label: string;
+  count: number;
+  // Plain typed characters are merged into one chip instead of one chip per key
+  isText: boolean;
+  updatedAt: number;
+}
+
+export interface KeystrokeDrawOptions {
+  position: KeystrokePosition;
+  size: KeystrokeSize;
+  theme: KeystrokeTheme;
+}
+
+const CHIP_VISIBLE_MS = 1800;
+const CHIP_FADE_MS = 500;
+const COALESCE_WINDOW_MS = 1000;
+const MAX_CHIPS = 5;
+const MAX_TEXT_LENGTH = 24;
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'CapsLock', 'Fn', 'AltGraph']);
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  Enter: '↵ Enter',
+  Escape: 'Esc',
+  Backspace: '⌫',
+  Delete: 'Del',
+  Tab: '⇥ Tab',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  PageUp: 'PgUp',
+  PageDown: 'PgDn',
+};
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const isSensitiveTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLInputElement)) return false;
+  return target.type === 'password' || target.autocomplete.includes('password');
+};
+
+/**
+ * Turns a keydown into a display label such as "⌘ Shift S" or "a".
+ * Returns null for lone modifier presses, which only matter as part of a combo.
+ */
+export const formatKeystroke = (e: KeyboardEvent, masked: boolean): { label: string; isText: boolean } | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+
+  const hasCommandModifier = e.ctrlKey || e.metaKey || e.altKey;
+  const isPrintable = e.key.length === 1 && e.key !== ' ';
+
+  if (isPrintable && !hasCommandModifier) {
+    return { label: masked ? '•' : e.key, isText: true };
+  }
+
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push(isMac ? '⌃' : 'Ctrl');
+  if (e.metaKey) parts.push(isMac ? '⌘' : 'Win');
+  if (e.altKey) parts.push(isMac ? '⌥' : 'Alt');
+  if (e.shiftKey) parts.push(isMac ? '⇧' : 'Shift');
+
+  const keyLabel = KEY_LABELS[e.key] ?? (e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  parts.push(masked && isPrintable ? '•' : keyLabel);
+
+  return { label: parts.join(' '), isText: false };
+};
+
+/**
+ * useKeystrokeVisualizer - Captures key combos for the burned-in keystroke overlay
+ *
+ * Keys are only seen while this app has focus; browsers never expose keystrokes
+ * typed into other windows. Characters typed into password fields are masked.
+ * Returns a ref the compositor reads on every frame, so capturing keys never
+ * triggers React re-renders.
+ */
+export const useKeystrokeVisualizer = (enabled: boolean) => {
+  const chipsRef = useRef<KeystrokeChip[]>([]);
+  const nextIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!enabled) {
+      chipsRef.current = [];
+      return;
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const formatted = formatKeystroke(e, isSensitiveTarget(e.target));
+      if (!formatted) return;
+
+      const now = performance.now();
+      const chips = chipsRef.current.filter(chip => now - chip.updatedAt < CHIP_VISIBLE_MS + CHIP_FADE_MS);
+      const last = chips[chips.length - 1];
+      const isRecent = last && now - last.updatedAt < COALESCE_WINDOW_MS;
+
+      if (isRecent && formatted.isText && last.isText && last.label.length < MAX_TEXT_LENGTH) {
+        // Held keys refresh the chip instead of appending the same character over and over
+        if (!e.repeat) last.label += formatted.label;
+        last.updatedAt = now;
+      } else if (isRecent && !formatted.isText && last.label === formatted.label) {
+        if (!e.repeat) last.count += 1;
+        last.updatedAt = now;
+      } else {
+        chips.push({
+          id: nextIdRef.current++,
+          label: formatted.label,
+          count: 1,
+          isText: formatted.isText,
+          updatedAt: now,
+        });
+      }
+
+      chipsRef.current = chips.slice(-MAX_CHIPS);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      chipsRef.current = [];
+    };
+  }, [enabled]);
+
+  return chipsRef;
+};
+
+const KEYSTROKE_FONT_SCALE: Record<KeystrokeSize, number> = {
+  small: 0.026,
+  medium: 0.036,
+  large: 0.05,
+};
+
+const KEYSTROKE_THEMES: Record<KeystrokeTheme, { background: string; border: string; text: string; badge: string }> = {
+  dark: {
+    background: 'rgba(17, 17, 27, 0.82)',
+    border: 'rgba(255, 255, 255, 0.18)',
+    text: '#ffffff',
+    badge: 'rgba(255, 255, 255, 0.6)',
+  },
+  light: {
+    background: 'rgba(255, 255, 255, 0.92)',
+    border: 'rgba(0, 0, 0, 0.12)',
+    text: '#111827',
+    badge: 'rgba(17, 24, 39, 0.55)',
+  },
+};
+
+/**
+ * Draws the current keystroke chips onto the composite canvas so they are part
+ * of the recorded video. Chips fade out once they have been idle for a while.
+ */
+export const drawKeystrokeChips = (
+  ctx: CanvasRenderingContext2D,
+  chips: KeystrokeChip[],
+  options: KeystrokeDrawOptions,
+  now: number = performance.now()
+) => {
+  const { width, height } = ctx.canvas;
+  const visible = chips.filter(chip => now - chip.updatedAt < CHIP_VISIBLE_MS + CHIP_FADE_MS);
+  if (visible.length === 0) return;
+
+  const fontSize = Math.round(height * KEYSTROKE_FONT_SCALE[options.size]);
+  const paddingX = fontSize * 0.6;
+  const paddingY = fontSize * 0.4;
+  const gap = fontSize * 0.4;
+  const margin = height * 0.05;
+  const chipHeight = fontSize + paddingY * 2;
+  const colors = KEYSTROKE_THEMES[options.theme];
+
+  ctx.save();
+  ctx.font = `600 ${fontSize}px system-ui, -apple-system, sans-serif`;
+  ctx.textBaseline = 'middle';
+
+  const labels = visible.map(chip => (chip.count > 1 ? `${chip.label}  ×${chip.count}` : chip.label));
+  const widths = labels.map(label => ctx.measureText(label).width + paddingX * 2);
+  const totalWidth = widths.reduce((sum, w) => sum + w, 0) + gap * (widths.length - 1);
+
+  let x: number;
+  if (options.position.endsWith('left')) {
+    x = margin;
+  } else if (options.position.endsWith('right')) {
+    x = width - margin - totalWidth;
+  } else {
+    x = (width - totalWidth) / 2;
+  }
+  const y = options.position.startsWith('top') ? margin : height - margin - chipHeight;
+
+  visible.forEach((chip, i) => {
+    const idle = now - chip.updatedAt;
+    const alpha = idle <= CHIP_VISIBLE_MS ? 1 : 1 - (idle - CHIP_VISIBLE_MS) / CHIP_FADE_MS;
+
+    ctx.globalAlpha = Math.max(0, alpha);
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+    ctx.shadowBlur = fontSize * 0.4;
+    ctx.fillStyle = colors.background;
+    ctx.beginPath();
+    ctx.roundRect(x, y, widths[i], chipHeight, fontSize * 0.35);
+    ctx.fill();
+
+    ctx.shadowColor = 'transparent';
+    ctx.strokeStyle = colors.border;
+    ctx.lineWidth = Math.max(1, fontSize * 0.05);
+    ctx.stroke();
+
+    ctx.fillStyle = colors.text;
+    ctx.fillText(chip.count > 1 ? chip.label : labels[i], x + paddingX, y + chipHeight / 2);
+    if (chip.count > 1) {
+      const labelWidth = ctx.measureText(`${chip.label}  `).width;
+      ctx.fillStyle = colors.badge;
+      ctx.fillText(`×${chip.count}`, x + paddingX + labelWidth, y + chipHeight / 2);
+    }
+
+    x += widths[i] + gap;
+  });
+
+  ctx.restore();
+};
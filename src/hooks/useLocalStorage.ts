@@ -1,17 +1,57 @@
 // IndexedDB helper for storing recordings and screenshots
+import type { AudioStem, CanvasOverlay, ThumbnailSprite } from '@/contexts/RecordingContext';
+import type { EditProject } from '@/lib/editProject';
+import type { WebcamKeyframe } from '@/lib/webcamLayout';
+import type { RecordedClick } from '@/lib/autoZoom';
+import type { Annotation } from '@/lib/annotations';
+
 const DB_NAME = 'screen-recorder-db';
-const DB_VERSION = 1;
+const DB_VERSION = 5;
 const RECORDINGS_STORE = 'recordings';
 const SCREENSHOTS_STORE = 'screenshots';
+const SESSIONS_STORE = 'recording-sessions';
+const SESSION_CHUNKS_STORE = 'recording-session-chunks';
+const EDIT_PROJECTS_STORE = 'edit-projects';
+const THUMBNAILS_STORE = 'recording-thumbnails';
+const WEBCAM_BACKGROUNDS_STORE = 'webcam-backgrounds';
 
 interface StoredRecording {
   id: string;
   blobData: ArrayBuffer;
   duration: number;
   timestamp: string;
-  thumbnail?: string;
+  thumbnail?: string; // only on recordings saved before thumbnails got their own store
+  thumbnailSprite?: ThumbnailSprite;
   resolution: string;
   size: number;
+  mimeType?: string; // missing on recordings saved before MP4 support, which were all WebM
+  canvasOverlays?: StoredCanvasOverlay[];
+  stems?: StoredAudioStem[];
+  webcamKeyframes?: WebcamKeyframe[];
+  clicks?: RecordedClick[];
+  annotations?: Annotation[];
+}
+
+// Kept apart from the recording so adding them later doesn't rewrite the video
+interface StoredThumbnails {
+  recordingId: string;
+  thumbnail?: string;
+  thumbnailSprite?: ThumbnailSprite;
+}
+
+// Replacement webcam background; settings refer to it by id
+interface StoredWebcamBackground {
+  id: string;
+  blobData: ArrayBuffer;
+  type: string;
+}
+
+interface StoredAudioStem extends Omit<AudioStem, 'blob'> {
+  blobData: ArrayBuffer;
+}
+
+interface StoredCanvasOverlay extends Omit<CanvasOverlay, 'timestamp'> {
+  timestamp: string;
 }
 
 interface StoredScreenshot {
@@ -20,12 +60,66 @@ interface StoredScreenshot {
   timestamp: string;
 }
 
+// An in-progress recording whose chunks are streamed to disk as they arrive
+export interface RecordingSession {
+  id: string;
+  startedAt: string;
+  mimeType: string;
+  resolution: string;
+  duration: number;
+  chunkCount: number;
+  unrecoverable?: boolean; // a chunk failed to save, so the stored ones would play with a gap
+  metadata?: Partial<RecordingSessionMetadata>;
+}
+
+// What the recording tracks alongside the video, saved with the session as it changes.
+// Separate audio stems are recorded by their own recorders and aren't kept.
+export interface RecordingSessionMetadata {
+  canvasOverlays: CanvasOverlay[];
+  webcamKeyframes: WebcamKeyframe[];
+  clicks: RecordedClick[];
+  annotations: Annotation[];
+}
+
+interface StoredSessionChunk {
+  sessionId: string;
+  index: number;
+  blobData: ArrayBuffer;
+}
+
+// One connection shared by every call; chunks are written ten times a second while recording
+let dbPromise: Promise<IDBDatabase> | null = null;
+
 function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
+  if (dbPromise) return dbPromise;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let blocked = false;
 
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Gave up waiting on the other tab already; the next call opens a fresh connection
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // Let a newer build in another tab upgrade the database instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        if (dbPromise === opening) dbPromise = null;
+      };
+      db.onclose = () => {
+        if (dbPromise === opening) dbPromise = null;
+      };
+      resolve(db);
+    };
+    // An older build in another tab still holds the database open and won't let it upgrade
+    request.onblocked = () => {
+      blocked = true;
+      reject(new Error('Storage is in use by another tab of this app. Close it and reload this page.'));
+    };
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -36,8 +130,31 @@ function openDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(SCREENSHOTS_STORE)) {
         db.createObjectStore(SCREENSHOTS_STORE, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSION_CHUNKS_STORE)) {
+        const chunkStore = db.createObjectStore(SESSION_CHUNKS_STORE, { keyPath: ['sessionId', 'index'] });
+        chunkStore.createIndex('sessionId', 'sessionId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(EDIT_PROJECTS_STORE)) {
+        db.createObjectStore(EDIT_PROJECTS_STORE, { keyPath: 'recordingId' });
+      }
+      if (!db.objectStoreNames.contains(THUMBNAILS_STORE)) {
+        db.createObjectStore(THUMBNAILS_STORE, { keyPath: 'recordingId' });
+      }
+      if (!db.objectStoreNames.contains(WEBCAM_BACKGROUNDS_STORE)) {
+        db.createObjectStore(WEBCAM_BACKGROUNDS_STORE, { keyPath: 'id' });
+      }
     };
   });
+
+  dbPromise = opening;
+  // Let a later call retry instead of caching the failure
+  opening.catch(() => {
+    if (dbPromise === opening) dbPromise = null;
+  });
+  return opening;
 }
 
 // Recording functions
@@ -47,29 +164,53 @@ export async function saveRecording(recording: {
   duration: number;
   timestamp: Date;
   thumbnail?: string;
+  thumbnailSprite?: ThumbnailSprite;
   resolution: string;
   size: number;
+  mimeType?: string;
+  canvasOverlays?: CanvasOverlay[];
+  stems?: AudioStem[];
+  webcamKeyframes?: WebcamKeyframe[];
+  clicks?: RecordedClick[];
+  annotations?: Annotation[];
 }): Promise<void> {
   const db = await openDB();
   const arrayBuffer = await recording.blob.arrayBuffer();
+  const stems = recording.stems && await Promise.all(
+    recording.stems.map(async ({ blob, ...stem }) => ({ ...stem, blobData: await blob.arrayBuffer() }))
+  );
   
   const storedRecording: StoredRecording = {
     id: recording.id,
     blobData: arrayBuffer,
     duration: recording.duration,
     timestamp: recording.timestamp.toISOString(),
-    thumbnail: recording.thumbnail,
     resolution: recording.resolution,
     size: recording.size,
+    mimeType: recording.mimeType || recording.blob.type || undefined,
+    canvasOverlays: recording.canvasOverlays?.map(overlay => ({
+      ...overlay,
+      timestamp: overlay.timestamp.toISOString(),
+    })),
+    stems,
+    webcamKeyframes: recording.webcamKeyframes,
+    clicks: recording.clicks,
+    annotations: recording.annotations,
+  };
+
+  const storedThumbnails: StoredThumbnails = {
+    recordingId: recording.id,
+    thumbnail: recording.thumbnail,
+    thumbnailSprite: recording.thumbnailSprite,
   };
 
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(RECORDINGS_STORE, 'readwrite');
-    const store = transaction.objectStore(RECORDINGS_STORE);
-    const request = store.put(storedRecording);
+    const transaction = db.transaction([RECORDINGS_STORE, THUMBNAILS_STORE], 'readwrite');
+    transaction.objectStore(RECORDINGS_STORE).put(storedRecording);
+    transaction.objectStore(THUMBNAILS_STORE).put(storedThumbnails);
     
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
   });
 }
 
@@ -80,21 +221,33 @@ export async function loadRecordings(): Promise<Array<{
   duration: number;
   timestamp: Date;
   thumbnail?: string;
+  thumbnailSprite?: ThumbnailSprite;
   resolution: string;
   size: number;
+  mimeType?: string;
+  canvasOverlays?: CanvasOverlay[];
+  stems?: AudioStem[];
+  webcamKeyframes?: WebcamKeyframe[];
+  clicks?: RecordedClick[];
+  annotations?: Annotation[];
 }>> {
   const db = await openDB();
   
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(RECORDINGS_STORE, 'readonly');
-    const store = transaction.objectStore(RECORDINGS_STORE);
-    const request = store.getAll();
+    const transaction = db.transaction([RECORDINGS_STORE, THUMBNAILS_STORE], 'readonly');
+    const request = transaction.objectStore(RECORDINGS_STORE).getAll();
+    const thumbnailsRequest = transaction.objectStore(THUMBNAILS_STORE).getAll();
     
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
+    transaction.onerror = () => reject(transaction.error);
+    transaction.oncomplete = () => {
       const storedRecordings: StoredRecording[] = request.result;
+      const storedThumbnails = new Map(
+        (thumbnailsRequest.result as StoredThumbnails[]).map(thumbnails => [thumbnails.recordingId, thumbnails])
+      );
       const recordings = storedRecordings.map((stored) => {
-        const blob = new Blob([stored.blobData], { type: 'video/webm' });
+        const mimeType = stored.mimeType || 'video/webm';
+        const thumbnails = storedThumbnails.get(stored.id);
+        const blob = new Blob([stored.blobData], { type: mimeType });
         const url = URL.createObjectURL(blob);
         return {
           id: stored.id,
@@ -102,9 +255,22 @@ export async function loadRecordings(): Promise<Array<{
           url,
           duration: stored.duration,
           timestamp: new Date(stored.timestamp),
-          thumbnail: stored.thumbnail,
+          thumbnail: thumbnails?.thumbnail ?? stored.thumbnail,
+          thumbnailSprite: thumbnails?.thumbnailSprite ?? stored.thumbnailSprite,
           resolution: stored.resolution,
           size: stored.size,
+          mimeType,
+          canvasOverlays: stored.canvasOverlays?.map(overlay => ({
+            ...overlay,
+            timestamp: new Date(overlay.timestamp),
+          })),
+          stems: stored.stems?.map(({ blobData, ...stem }) => ({
+            ...stem,
+            blob: new Blob([blobData], { type: stem.mimeType }),
+          })),
+          webcamKeyframes: stored.webcamKeyframes,
+          clicks: stored.clicks,
+          annotations: stored.annotations,
         };
       });
       // Sort by timestamp descending
@@ -114,16 +280,41 @@ export async function loadRecordings(): Promise<Array<{
   });
 }
 
+// Attach generated thumbnails to a recording that is already stored
+export async function updateRecordingThumbnails(
+  id: string,
+  thumbnails: { thumbnail?: string; thumbnailSprite?: ThumbnailSprite }
+): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([RECORDINGS_STORE, THUMBNAILS_STORE], 'readwrite');
+    // Only the key is looked up, so the video itself is never read
+    const keyRequest = transaction.objectStore(RECORDINGS_STORE).getKey(id);
+
+    keyRequest.onsuccess = () => {
+      if (keyRequest.result === undefined) return;
+      const stored: StoredThumbnails = { recordingId: id, ...thumbnails };
+      transaction.objectStore(THUMBNAILS_STORE).put(stored);
+    };
+
+    transaction.onerror = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
+  });
+}
+
 export async function deleteStoredRecording(id: string): Promise<void> {
   const db = await openDB();
   
+  // The edit project and thumbnails are meaningless without their recording, remove them together
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(RECORDINGS_STORE, 'readwrite');
-    const store = transaction.objectStore(RECORDINGS_STORE);
-    const request = store.delete(id);
+    const transaction = db.transaction([RECORDINGS_STORE, EDIT_PROJECTS_STORE, THUMBNAILS_STORE], 'readwrite');
+    transaction.objectStore(RECORDINGS_STORE).delete(id);
+    transaction.objectStore(EDIT_PROJECTS_STORE).delete(id);
+    transaction.objectStore(THUMBNAILS_STORE).delete(id);
     
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
   });
 }
 
@@ -197,3 +388,218 @@ export async function deleteStoredScreenshot(id: string): Promise<void> {
     request.onsuccess = () => resolve();
   });
 }
+
+// Recording session functions (crash recovery)
+const sessionLockName = (id: string) => `recording-session-${id}`;
+
+// Held by the tab recording into a session for as long as the session is live; call the result to let go
+export function holdRecordingSessionLock(id: string): () => void {
+  if (!navigator.locks) return () => {};
+  let release = () => {};
+  const held = new Promise<void>(resolve => { release = resolve; });
+  navigator.locks.request(sessionLockName(id), () => held).catch(console.error);
+  return release;
+}
+
+// A session whose lock is free was left behind by a tab that closed or crashed.
+// Without the Web Locks API there's no way to tell, so every session counts as left behind
+export async function isRecordingSessionAbandoned(id: string): Promise<boolean> {
+  if (!navigator.locks) return true;
+  return navigator.locks.request(sessionLockName(id), { ifAvailable: true }, lock => lock !== null);
+}
+
+export async function createRecordingSession(session: RecordingSession): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSIONS_STORE);
+    const request = store.put(session);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+// Writes one MediaRecorder chunk and bumps the session's chunk count and duration atomically,
+// merging in whichever metadata fields are given
+export async function appendRecordingSessionChunk(
+  sessionId: string,
+  index: number,
+  chunk: Blob,
+  duration: number,
+  metadata?: Partial<RecordingSessionMetadata>
+): Promise<void> {
+  const db = await openDB();
+  const arrayBuffer = await chunk.arrayBuffer();
+
+  const storedChunk: StoredSessionChunk = {
+    sessionId,
+    index,
+    blobData: arrayBuffer,
+  };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSIONS_STORE, SESSION_CHUNKS_STORE], 'readwrite');
+    const sessionStore = transaction.objectStore(SESSIONS_STORE);
+    const chunkStore = transaction.objectStore(SESSION_CHUNKS_STORE);
+
+    chunkStore.put(storedChunk);
+
+    const getRequest = sessionStore.get(sessionId);
+    getRequest.onsuccess = () => {
+      const session: RecordingSession | undefined = getRequest.result;
+      if (session) {
+        sessionStore.put({
+          ...session,
+          duration,
+          chunkCount: Math.max(session.chunkCount, index + 1),
+          ...(metadata && { metadata: { ...session.metadata, ...metadata } }),
+        });
+      }
+    };
+
+    transaction.onerror = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
+  });
+}
+
+// Merges `changes` into a session record, if it still exists
+export async function updateRecordingSession(id: string, changes: Partial<Omit<RecordingSession, 'id'>>): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+    const store = transaction.objectStore(SESSIONS_STORE);
+    const getRequest = store.get(id);
+
+    getRequest.onsuccess = () => {
+      const session: RecordingSession | undefined = getRequest.result;
+      if (session) store.put({ ...session, ...changes });
+    };
+
+    transaction.onerror = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
+  });
+}
+
+export async function loadRecordingSessions(): Promise<RecordingSession[]> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSIONS_STORE, 'readonly');
+    const store = transaction.objectStore(SESSIONS_STORE);
+    const request = store.getAll();
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const sessions: RecordingSession[] = request.result;
+      // Sort by start time descending
+      sessions.sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime());
+      resolve(sessions);
+    };
+  });
+}
+
+export async function loadRecordingSessionBlob(session: Pick<RecordingSession, 'id' | 'mimeType'>): Promise<Blob> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_CHUNKS_STORE, 'readonly');
+    const store = transaction.objectStore(SESSION_CHUNKS_STORE);
+    const request = store.index('sessionId').getAll(IDBKeyRange.only(session.id));
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const chunks: StoredSessionChunk[] = request.result;
+      chunks.sort((a, b) => a.index - b.index);
+      resolve(new Blob(chunks.map(chunk => chunk.blobData), { type: session.mimeType }));
+    };
+  });
+}
+
+export async function deleteRecordingSession(id: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSIONS_STORE, SESSION_CHUNKS_STORE], 'readwrite');
+    transaction.objectStore(SESSIONS_STORE).delete(id);
+    transaction.objectStore(SESSION_CHUNKS_STORE).delete(
+      IDBKeyRange.bound([id, 0], [id, Number.MAX_SAFE_INTEGER])
+    );
+
+    transaction.onerror = () => reject(transaction.error);
+    transaction.oncomplete = () => resolve();
+  });
+}
+
+// Edit project functions
+export async function saveEditProject(project: EditProject): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(EDIT_PROJECTS_STORE, 'readwrite');
+    const store = transaction.objectStore(EDIT_PROJECTS_STORE);
+    const request = store.put(project);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+export async function loadEditProject(recordingId: string): Promise<EditProject | null> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(EDIT_PROJECTS_STORE, 'readonly');
+    const store = transaction.objectStore(EDIT_PROJECTS_STORE);
+    const request = store.get(recordingId);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result ?? null);
+  });
+}
+
+// Webcam background functions
+export async function saveWebcamBackgroundImage(id: string, image: Blob): Promise<void> {
+  const db = await openDB();
+  const stored: StoredWebcamBackground = { id, blobData: await image.arrayBuffer(), type: image.type };
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(WEBCAM_BACKGROUNDS_STORE, 'readwrite');
+    const store = transaction.objectStore(WEBCAM_BACKGROUNDS_STORE);
+    const request = store.put(stored);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
+
+export async function loadWebcamBackgroundImage(id: string): Promise<Blob | null> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(WEBCAM_BACKGROUNDS_STORE, 'readonly');
+    const store = transaction.objectStore(WEBCAM_BACKGROUNDS_STORE);
+    const request = store.get(id);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const stored: StoredWebcamBackground | undefined = request.result;
+      resolve(stored ? new Blob([stored.blobData], { type: stored.type }) : null);
+    };
+  });
+}
+
+export async function deleteWebcamBackgroundImage(id: string): Promise<void> {
+  const db = await openDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(WEBCAM_BACKGROUNDS_STORE, 'readwrite');
+    const store = transaction.objectStore(WEBCAM_BACKGROUNDS_STORE);
+    const request = store.delete(id);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve();
+  });
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { listDevices } from '@/lib/mediaDevices';
+
+/**
+ * useMediaDevices - Live list of microphones and cameras
+ *
+ * Re-enumerates whenever a device is plugged in or removed. Call `refresh`
+ * after a permission prompt, since device labels only appear once access has
+ * been granted.
+ */
+export const useMediaDevices = () => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      setDevices(await navigator.mediaDevices.enumerateDevices());
+    } catch (err) {
+      console.warn('Could not list media devices:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return {
+    microphones: listDevices(devices, 'audioinput'),
+    cameras: listDevices(devices, 'videoinput'),
+    refresh,
+  };
+};
@@ -0,0 +1,104 @@
+import { useCallback, useState } from 'react';
+
+// Consecutive updates sharing a coalesce key within this window form one undo step
+const COALESCE_WINDOW_MS = 800;
+const DEFAULT_HISTORY_LIMIT = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastKey: string | null;
+  lastUpdateAt: number;
+}
+
+type Updater<T> = T | ((prev: T) => T);
+
+const resolveUpdate = <T,>(update: Updater<T>, prev: T): T =>
+  typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+
+/**
+ * useUndoableState - useState with an undo/redo history
+ *
+ * `set` records a history entry, unless the update returns the present value
+ * itself, so updaters should hand back `prev` when nothing changed. Passing a
+ * coalesce key merges a burst of updates (e.g. dragging a slider) into a
+ * single undo step. `replace` changes
+ * the present value without touching history, and `reset` starts a fresh
+ * history, which is what loading a saved document should do.
+ */
+export const useUndoableState = <T,>(initial: T | (() => T), limit: number = DEFAULT_HISTORY_LIMIT) => {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: [],
+    lastKey: null,
+    lastUpdateAt: 0,
+  }));
+
+  const set = useCallback((update: Updater<T>, coalesceKey?: string) => {
+    setHistory(prev => {
+      const next = resolveUpdate(update, prev.present);
+      if (Object.is(next, prev.present)) return prev;
+
+      const now = Date.now();
+      const shouldCoalesce =
+        coalesceKey !== undefined &&
+        coalesceKey === prev.lastKey &&
+        now - prev.lastUpdateAt < COALESCE_WINDOW_MS;
+
+      return {
+        past: shouldCoalesce ? prev.past : [...prev.past, prev.present].slice(-limit),
+        present: next,
+        future: [],
+        lastKey: coalesceKey ?? null,
+        lastUpdateAt: now,
+      };
+    });
+  }, [limit]);
+
+  const replace = useCallback((update: Updater<T>) => {
+    setHistory(prev => ({ ...prev, present: resolveUpdate(update, prev.present) }));
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], lastKey: null, lastUpdateAt: 0 });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+        lastKey: null,
+        lastUpdateAt: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+        lastKey: null,
+        lastUpdateAt: 0,
+      };
+    });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    replace,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
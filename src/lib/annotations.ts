@@ -0,0 +1,310 @@
+// Vector drawing shapes shared by the on-screen overlay, the quick canvases and
+// the editor. Drawings made on screen while recording are kept as timed shapes
+// alongside the video. A tab or screen capture already shows them, so the
+// editor keeps those copies hidden unless they are brought back on top.
+
+export type AnnotationKind = 'stroke' | 'highlight' | 'arrow' | 'rectangle' | 'ellipse' | 'blur' | 'step' | 'text';
+
+// Fractions of the surface the shape is drawn on
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export interface AnnotationShape {
+  id: string;
+  kind: AnnotationKind;
+  // stroke and highlight: the path; arrow, rectangle, ellipse and blur: [from, to]; step and text: [anchor]
+  points: AnnotationPoint[];
+  color: string;
+  size: number; // line width, font size for text, radius for steps; fraction of the surface height
+  text?: string; // the text, or a step's number
+}
+
+// A shape in the recorded frame, shown between its two source times
+export interface Annotation extends AnnotationShape {
+  startTime: number; // seconds into the recording, pauses excluded
+  endTime: number;
+  hidden?: boolean;
+  captured?: boolean; // drawn into the recording as it was made, so its pixels are already in the video
+}
+
+export type AnnotationTool = 'select' | AnnotationKind;
+
+export const ANNOTATION_TOOLS: { id: AnnotationTool; label: string }[] = [
+  { id: 'select', label: 'Select and move' },
+  { id: 'stroke', label: 'Pen' },
+  { id: 'highlight', label: 'Highlighter' },
+  { id: 'arrow', label: 'Arrow' },
+  { id: 'rectangle', label: 'Box' },
+  { id: 'ellipse', label: 'Ellipse' },
+  { id: 'blur', label: 'Blur box' },
+  { id: 'step', label: 'Numbered step' },
+  { id: 'text', label: 'Text' },
+];
+
+export const BRUSH_SIZES = [2, 4, 8, 12];
+
+export const ANNOTATION_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6', '#ec4899', '#ffffff', '#000000'];
+
+const HIGHLIGHT_OPACITY = 0.35;
+// Shapes spanned by dragging from one corner or end to the other
+const DRAGGED_KINDS: AnnotationKind[] = ['arrow', 'rectangle', 'ellipse', 'blur'];
+
+export const isDraggedShape = (kind: AnnotationKind) => DRAGGED_KINDS.includes(kind);
+
+// Brush size in pixels to the shape's own size: highlighters are broad, text and steps need room for their glyphs
+export const getShapeSize = (kind: AnnotationKind, brushSize: number) => {
+  switch (kind) {
+    case 'highlight':
+      return brushSize * 4;
+    case 'text':
+      return Math.max(12, brushSize * 4);
+    case 'step':
+      return Math.max(10, brushSize * 3);
+    default:
+      return brushSize;
+  }
+};
+
+export const createAnnotationId = () => `annotation-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const getAnnotationLabel = (annotation: AnnotationShape) => {
+  switch (annotation.kind) {
+    case 'highlight':
+      return 'Highlight';
+    case 'arrow':
+      return 'Arrow';
+    case 'rectangle':
+      return 'Box';
+    case 'ellipse':
+      return 'Ellipse';
+    case 'blur':
+      return 'Blur box';
+    case 'step':
+      return `Step ${annotation.text ?? ''}`.trim();
+    case 'text':
+      return annotation.text ? `"${annotation.text}"` : 'Text';
+    case 'stroke':
+    default:
+      return 'Drawing';
+  }
+};
+
+export const isAnnotationVisible = (annotation: Annotation, time: number) =>
+  !annotation.hidden && time >= annotation.startTime && time <= annotation.endTime;
+
+/**
+ * Box around the shape, fractions of the surface. Text is measured roughly from
+ * its font size, which is a fraction of the height, so `aspectRatio` (width /
+ * height) converts it across.
+ */
+export const getAnnotationBounds = (annotation: AnnotationShape, aspectRatio = 16 / 9) => {
+  const xs = annotation.points.map(point => point.x);
+  const ys = annotation.points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  if (annotation.kind === 'text') {
+    const width = ((annotation.text?.length ?? 0) * annotation.size * 0.6) / aspectRatio;
+    return { x, y: y - annotation.size, width, height: annotation.size * 1.2 };
+  }
+  if (annotation.kind === 'step') {
+    const radiusX = annotation.size / aspectRatio;
+    return { x: x - radiusX, y: y - annotation.size, width: radiusX * 2, height: annotation.size * 2 };
+  }
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// The topmost shape under `point`, with some slack around thin lines
+export const hitTestAnnotations = <T extends AnnotationShape>(shapes: T[], point: AnnotationPoint, aspectRatio = 16 / 9) => {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    const bounds = getAnnotationBounds(shapes[i], aspectRatio);
+    const slack = shapes[i].size / 2 + 0.01;
+    if (
+      point.x >= bounds.x - slack / aspectRatio && point.x <= bounds.x + bounds.width + slack / aspectRatio &&
+      point.y >= bounds.y - slack && point.y <= bounds.y + bounds.height + slack
+    ) {
+      return shapes[i];
+    }
+  }
+  return null;
+};
+
+export const moveAnnotation = <T extends AnnotationShape>(annotation: T, dx: number, dy: number): T => ({
+  ...annotation,
+  points: annotation.points.map(point => ({ x: point.x + dx, y: point.y + dy })),
+});
+
+// Steps count up from the highest number already placed
+export const getNextStepNumber = (shapes: AnnotationShape[]) =>
+  shapes.reduce((max, shape) => (shape.kind === 'step' ? Math.max(max, Number(shape.text) || 0) : max), 0) + 1;
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, from: AnnotationPoint, to: AnnotationPoint, length: number) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.beginPath();
+  ctx.moveTo(to.x - length * Math.cos(angle - Math.PI / 6), to.y - length * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(to.x, to.y);
+  ctx.lineTo(to.x - length * Math.cos(angle + Math.PI / 6), to.y - length * Math.sin(angle + Math.PI / 6));
+  ctx.stroke();
+};
+
+const getBox = (from: AnnotationPoint, to: AnnotationPoint) => ({
+  x: Math.min(from.x, to.x),
+  y: Math.min(from.y, to.y),
+  width: Math.abs(to.x - from.x),
+  height: Math.abs(to.y - from.y),
+});
+
+/**
+ * Draws one shape in a `width` x `height` area. Blur boxes blur `backdrop`,
+ * drawn over the whole area, or else whatever is already on the canvas.
+ */
+export const drawAnnotation = (
+  ctx: CanvasRenderingContext2D,
+  annotation: AnnotationShape,
+  width: number,
+  height: number,
+  backdrop?: CanvasImageSource
+) => {
+  const points = annotation.points.map(point => ({ x: point.x * width, y: point.y * height }));
+  if (points.length === 0) return;
+  const size = annotation.size * height;
+
+  ctx.save();
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineWidth = size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (annotation.kind) {
+    case 'stroke':
+    case 'highlight':
+      if (annotation.kind === 'highlight') ctx.globalAlpha *= HIGHLIGHT_OPACITY;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      break;
+
+    case 'arrow': {
+      const [from, to = from] = points;
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+      drawArrowHead(ctx, from, to, Math.max(size * 4, 10));
+      break;
+    }
+
+    case 'rectangle': {
+      const box = getBox(points[0], points[1] ?? points[0]);
+      ctx.strokeRect(box.x, box.y, box.width, box.height);
+      break;
+    }
+
+    case 'ellipse': {
+      const box = getBox(points[0], points[1] ?? points[0]);
+      ctx.beginPath();
+      ctx.ellipse(box.x + box.width / 2, box.y + box.height / 2, box.width / 2, box.height / 2, 0, 0, Math.PI * 2);
+      ctx.stroke();
+      break;
+    }
+
+    case 'blur': {
+      const box = getBox(points[0], points[1] ?? points[0]);
+      ctx.beginPath();
+      ctx.rect(box.x, box.y, box.width, box.height);
+      ctx.clip();
+      ctx.filter = `blur(${Math.max(4, height * 0.012)}px)`;
+      if (backdrop) {
+        ctx.drawImage(backdrop, 0, 0, width, height);
+      } else {
+        // The canvas is already transformed, so copy it back onto itself pixel for pixel
+        ctx.save();
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.drawImage(ctx.canvas, 0, 0);
+        ctx.restore();
+        // On a transparent canvas there is nothing to blur, so tint the box to show where it is
+        ctx.filter = 'none';
+        ctx.fillStyle = 'rgba(127, 127, 127, 0.35)';
+        ctx.fillRect(box.x, box.y, box.width, box.height);
+      }
+      break;
+    }
+
+    case 'step': {
+      const [center] = points;
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, size, 0, Math.PI * 2);
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+      ctx.shadowBlur = size * 0.3;
+      ctx.fill();
+      ctx.shadowColor = 'transparent';
+      ctx.lineWidth = Math.max(1.5, size * 0.12);
+      ctx.strokeStyle = '#ffffff';
+      ctx.stroke();
+      ctx.font = `bold ${size * 1.1}px system-ui, sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillStyle = annotation.color === '#ffffff' ? '#000000' : '#ffffff';
+      ctx.fillText(annotation.text ?? '', center.x, center.y + size * 0.05);
+      break;
+    }
+
+    case 'text':
+      ctx.font = `bold ${size}px system-ui, sans-serif`;
+      ctx.textBaseline = 'alphabetic';
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+      ctx.shadowBlur = size * 0.15;
+      ctx.fillText(annotation.text ?? '', points[0].x, points[0].y);
+      break;
+  }
+
+  ctx.restore();
+};
+
+export const drawAnnotations = (
+  ctx: CanvasRenderingContext2D,
+  annotations: Annotation[],
+  time: number,
+  width: number,
+  height: number,
+  backdrop?: CanvasImageSource
+) => {
+  annotations.forEach(annotation => {
+    if (isAnnotationVisible(annotation, time)) drawAnnotation(ctx, annotation, width, height, backdrop);
+  });
+};
+
+// Flattens shapes into an image, for downloads and canvas overlays
+export const renderAnnotationImage = (shapes: AnnotationShape[], width: number, height: number, background?: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  shapes.forEach(shape => drawAnnotation(ctx, shape, width, height));
+  return canvas;
+};
+
+export const clampAnnotations = (annotations: Annotation[], duration: number) =>
+  annotations
+    .map(annotation => ({
+      ...annotation,
+      startTime: Math.max(0, Math.min(annotation.startTime, duration)),
+      endTime: Math.max(0, Math.min(annotation.endTime, duration)),
+    }))
+    .filter(annotation => annotation.endTime > annotation.startTime);
+
+// Drawings the video already shows start hidden, so export doesn't draw them twice.
+// Recordings from before the flag was kept drew theirs over the page as well.
+// Times are left as recorded while the video's duration is still unknown.
+export const prepareRecordedAnnotations = (annotations: Annotation[], duration: number) =>
+  (duration > 0 ? clampAnnotations(annotations, duration) : annotations).map(annotation =>
+    annotation.captured === false ? annotation : { ...annotation, hidden: true }
+  );
@@ -0,0 +1,120 @@
+// Per-source gain, mute, metering and ducking for the recording's Web Audio graph
+import type { RecordingSettings } from '@/contexts/RecordingContext';
+
+export type AudioMixSettings = Pick<
+  RecordingSettings,
+  'systemVolume' | 'systemMuted' | 'micVolume' | 'micMuted' | 'duckingEnabled' | 'duckingLevel'
+>;
+
+export interface MixerChannel {
+  input: GainNode; // sources (or the mic processing chain) connect here
+  fader: GainNode;
+  analyser: AnalyserNode; // post-fader, so meters show what is recorded
+}
+
+export interface AudioMixer {
+  system: MixerChannel;
+  mic: MixerChannel;
+  apply: (settings: AudioMixSettings) => void;
+  dispose: () => void;
+}
+
+export const MAX_CHANNEL_VOLUME = 1.5;
+const METER_FLOOR_DB = -60;
+// Mic louder than this counts as speech for ducking
+const DUCKING_THRESHOLD_DB = -45;
+const DUCKING_CHECK_MS = 50;
+// Keep system audio ducked briefly after speech stops so it doesn't pump between words
+const DUCKING_HOLD_MS = 400;
+const DUCK_ATTACK = 0.05;
+const DUCK_RELEASE = 0.3;
+// Short ramps avoid zipper noise while a fader is dragged
+const FADER_SMOOTHING = 0.02;
+
+export const toDecibels = (linear: number) => (linear > 0 ? Math.max(METER_FLOOR_DB, 20 * Math.log10(linear)) : METER_FLOOR_DB);
+
+// 0-1 position on a meter that spans METER_FLOOR_DB to 0 dBFS
+export const toMeterPosition = (linear: number) => 1 - toDecibels(linear) / METER_FLOOR_DB;
+
+export const readLevels = (analyser: AnalyserNode, buffer: Float32Array) => {
+  analyser.getFloatTimeDomainData(buffer);
+  let peak = 0;
+  let sumOfSquares = 0;
+  for (let i = 0; i < buffer.length; i++) {
+    const sample = Math.abs(buffer[i]);
+    if (sample > peak) peak = sample;
+    sumOfSquares += sample * sample;
+  }
+  return { peak, rms: Math.sqrt(sumOfSquares / buffer.length) };
+};
+
+const createChannel = (context: AudioContext, destination: AudioNode): MixerChannel => {
+  const input = context.createGain();
+  const fader = context.createGain();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 1024;
+
+  input.connect(fader);
+  fader.connect(analyser);
+  fader.connect(destination);
+
+  return { input, fader, analyser };
+};
+
+/**
+ * Builds a two-channel mixer feeding `destination`. The system channel has an
+ * extra ducking stage driven by the mic channel's level.
+ */
+export const createAudioMixer = (
+  context: AudioContext,
+  destination: AudioNode,
+  initial: AudioMixSettings
+): AudioMixer => {
+  const duck = context.createGain();
+  duck.connect(destination);
+
+  const system = createChannel(context, duck);
+  const mic = createChannel(context, destination);
+
+  let settings = initial;
+  let isDucked = false;
+  let lastSpeechAt = 0;
+  const micBuffer = new Float32Array(mic.analyser.fftSize);
+
+  const setDucked = (ducked: boolean) => {
+    if (ducked === isDucked) return;
+    isDucked = ducked;
+    duck.gain.setTargetAtTime(ducked ? settings.duckingLevel : 1, context.currentTime, ducked ? DUCK_ATTACK : DUCK_RELEASE);
+  };
+
+  const duckingTimer = window.setInterval(() => {
+    if (!settings.duckingEnabled || settings.micMuted) {
+      setDucked(false);
+      return;
+    }
+
+    const { rms } = readLevels(mic.analyser, micBuffer);
+    const now = Date.now();
+    if (toDecibels(rms) > DUCKING_THRESHOLD_DB) lastSpeechAt = now;
+    setDucked(now - lastSpeechAt < DUCKING_HOLD_MS);
+  }, DUCKING_CHECK_MS);
+
+  const apply = (next: AudioMixSettings) => {
+    settings = next;
+    const now = context.currentTime;
+    system.fader.gain.setTargetAtTime(next.systemMuted ? 0 : next.systemVolume, now, FADER_SMOOTHING);
+    mic.fader.gain.setTargetAtTime(next.micMuted ? 0 : next.micVolume, now, FADER_SMOOTHING);
+    if (isDucked) {
+      duck.gain.setTargetAtTime(next.duckingEnabled ? next.duckingLevel : 1, now, DUCK_ATTACK);
+    }
+  };
+
+  apply(initial);
+
+  return {
+    system,
+    mic,
+    apply,
+    dispose: () => window.clearInterval(duckingTimer),
+  };
+};
@@ -0,0 +1,126 @@
+// Recording audio sources as separate stems, and playing them back in sync with a video
+import type { AudioStem, AudioStemSource } from '@/contexts/RecordingContext';
+import type { StemMix } from '@/lib/editProject';
+
+const STEM_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+// Stems are re-aligned to the video once they drift further apart than this
+const MAX_STEM_DRIFT = 0.15;
+
+export interface StemRecorder {
+  pause: () => void;
+  resume: () => void;
+  stop: () => Promise<AudioStem | null>; // null when nothing was captured
+}
+
+/**
+ * Records whatever reaches `input` as an audio-only file. Returns null when the
+ * browser can't record audio on its own. Chunks stay in memory, so crash
+ * recovery only restores the mixed video.
+ */
+export const createStemRecorder = (
+  context: AudioContext,
+  input: AudioNode,
+  source: AudioStemSource
+): StemRecorder | null => {
+  const mimeType = STEM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) return null;
+
+  const destination = context.createMediaStreamDestination();
+  input.connect(destination);
+
+  const recorder = new MediaRecorder(destination.stream, { mimeType, audioBitsPerSecond: 128000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  // A recorder error also ends in onstop, so whatever was captured is still kept
+  const stopped = new Promise<AudioStem | null>(resolve => {
+    recorder.onstop = () => {
+      input.disconnect(destination);
+      resolve(chunks.length > 0 ? { source, blob: new Blob(chunks, { type: mimeType }), mimeType } : null);
+    };
+  });
+
+  recorder.start(1000);
+
+  return {
+    pause: () => {
+      if (recorder.state === 'recording') recorder.pause();
+    },
+    resume: () => {
+      if (recorder.state === 'paused') recorder.resume();
+    },
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return stopped;
+    },
+  };
+};
+
+export interface StemPlayer {
+  output: GainNode; // every stem mixed together, for the caller to route
+  setLevels: (mix: StemMix) => void;
+  dispose: () => void;
+}
+
+const VIDEO_SYNC_EVENTS = ['play', 'playing', 'pause', 'seeking', 'seeked', 'ratechange', 'timeupdate', 'ended'];
+
+/**
+ * Plays stems through `context` following `video`'s playback, seeks and rate.
+ * Media elements are used rather than decoded buffers so sped-up segments
+ * keep their pitch, as the video's own audio does.
+ */
+export const createStemPlayer = (context: AudioContext, stems: AudioStem[], video: HTMLVideoElement): StemPlayer => {
+  const output = context.createGain();
+
+  const tracks = stems.map(stem => {
+    const url = URL.createObjectURL(stem.blob);
+    const audio = new Audio(url);
+    audio.preload = 'auto';
+    const gain = context.createGain();
+    context.createMediaElementSource(audio).connect(gain);
+    gain.connect(output);
+    return { source: stem.source, url, audio, gain };
+  });
+
+  const sync = () => {
+    const shouldPlay = !video.paused && !video.ended && !video.seeking;
+
+    tracks.forEach(({ audio }) => {
+      audio.playbackRate = video.playbackRate;
+      if (Math.abs(audio.currentTime - video.currentTime) > MAX_STEM_DRIFT) {
+        audio.currentTime = video.currentTime;
+      }
+
+      if (!shouldPlay) {
+        if (!audio.paused) audio.pause();
+      } else if (audio.paused && audio.currentTime < (audio.duration || Infinity)) {
+        context.resume().catch(() => {});
+        audio.play().catch(err => console.warn('Could not play audio stem:', err));
+      }
+    });
+  };
+
+  VIDEO_SYNC_EVENTS.forEach(event => video.addEventListener(event, sync));
+  sync();
+
+  return {
+    output,
+    setLevels: (mix) => {
+      tracks.forEach(({ source, gain }) => {
+        const level = mix[source];
+        gain.gain.value = level.muted ? 0 : level.volume;
+      });
+    },
+    dispose: () => {
+      VIDEO_SYNC_EVENTS.forEach(event => video.removeEventListener(event, sync));
+      tracks.forEach(({ url, audio, gain }) => {
+        audio.pause();
+        gain.disconnect();
+        URL.revokeObjectURL(url);
+      });
+      output.disconnect();
+    },
+  };
+};
@@ -0,0 +1,134 @@
+// Screen Studio style auto-zoom: clicks logged while recording become zoom
+// regions in the editor, which ease in around the click and back out after.
+import type { CaptureRegion } from '@/lib/captureRegion';
+
+// A click as it appeared in the recorded frame
+export interface RecordedClick {
+  time: number; // seconds into the recording, pauses excluded
+  x: number; // fractions of the recorded frame
+  y: number;
+}
+
+/**
+ * Zooms in on (x, y) over the first ZOOM_TRANSITION_SECONDS after `startTime`
+ * and back out over the last ones before `endTime`. Times are source times.
+ */
+export interface ZoomRegion {
+  id: string;
+  startTime: number;
+  endTime: number;
+  x: number; // focus point, fractions of the frame
+  y: number;
+  scale: number;
+}
+
+export interface ZoomState {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export const ZOOM_TRANSITION_SECONDS = 0.6;
+export const DEFAULT_ZOOM_SCALE = 1.8;
+export const ZOOM_SCALE_RANGE = { min: 1.2, max: 3 };
+export const MIN_ZOOM_DURATION = ZOOM_TRANSITION_SECONDS * 2;
+
+// Clicks closer together than this share one zoom
+const CLICK_CLUSTER_GAP_SECONDS = 2;
+// Zoom in slightly ahead of the click, stay a while after the last one
+const LEAD_SECONDS = 0.5;
+const HOLD_SECONDS = 1.5;
+
+const NO_ZOOM: ZoomState = { x: 0.5, y: 0.5, scale: 1 };
+
+export const createZoomRegionId = () => `zoom-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createZoomRegion = (startTime: number, endTime: number, x = 0.5, y = 0.5): ZoomRegion => ({
+  id: createZoomRegionId(),
+  startTime,
+  endTime,
+  x,
+  y,
+  scale: DEFAULT_ZOOM_SCALE,
+});
+
+/**
+ * Groups clicks into bursts and gives each burst one zoom centred on the
+ * burst's average position. Zooms that would overlap are merged.
+ */
+export const generateZoomRegions = (clicks: RecordedClick[], duration: number): ZoomRegion[] => {
+  const sorted = [...clicks].sort((a, b) => a.time - b.time);
+  const clusters: RecordedClick[][] = [];
+
+  sorted.forEach(click => {
+    const current = clusters[clusters.length - 1];
+    if (current && click.time - current[current.length - 1].time <= CLICK_CLUSTER_GAP_SECONDS) {
+      current.push(click);
+    } else {
+      clusters.push([click]);
+    }
+  });
+
+  const regions: ZoomRegion[] = [];
+  clusters.forEach(cluster => {
+    const startTime = Math.max(0, cluster[0].time - LEAD_SECONDS);
+    const endTime = Math.min(duration, Math.max(cluster[cluster.length - 1].time + HOLD_SECONDS, startTime + MIN_ZOOM_DURATION));
+    if (endTime - startTime < MIN_ZOOM_DURATION) return;
+
+    const x = cluster.reduce((sum, click) => sum + click.x, 0) / cluster.length;
+    const y = cluster.reduce((sum, click) => sum + click.y, 0) / cluster.length;
+
+    const previous = regions[regions.length - 1];
+    if (previous && startTime <= previous.endTime) {
+      previous.endTime = endTime;
+      return;
+    }
+    regions.push(createZoomRegion(startTime, endTime, x, y));
+  });
+
+  return regions;
+};
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+// The zoom at a source time, easing in and out at each region's edges
+export const getZoomAt = (regions: ZoomRegion[], time: number): ZoomState => {
+  const region = regions.find(r => time >= r.startTime && time <= r.endTime);
+  if (!region) return NO_ZOOM;
+
+  const transition = Math.min(ZOOM_TRANSITION_SECONDS, (region.endTime - region.startTime) / 2);
+  const edge = Math.min(time - region.startTime, region.endTime - time);
+  const t = transition > 0 ? easeInOutCubic(Math.min(1, edge / transition)) : 1;
+
+  return {
+    x: NO_ZOOM.x + (region.x - NO_ZOOM.x) * t,
+    y: NO_ZOOM.y + (region.y - NO_ZOOM.y) * t,
+    scale: 1 + (region.scale - 1) * t,
+  };
+};
+
+// Part of the frame that fills the output at this zoom, kept inside the frame
+export const getZoomCrop = ({ x, y, scale }: ZoomState): CaptureRegion => {
+  const size = 1 / Math.max(1, scale);
+  return {
+    x: Math.min(1 - size, Math.max(0, x - size / 2)),
+    y: Math.min(1 - size, Math.max(0, y - size / 2)),
+    width: size,
+    height: size,
+  };
+};
+
+// Sets up `ctx` so drawing the full frame at (0, 0, width, height) shows only the crop
+export const applyZoomTransform = (ctx: CanvasRenderingContext2D, crop: CaptureRegion, width: number, height: number) => {
+  ctx.scale(1 / crop.width, 1 / crop.height);
+  ctx.translate(-crop.x * width, -crop.y * height);
+};
+
+export const clampZoomRegions = (regions: ZoomRegion[], duration: number) =>
+  regions
+    .map(region => ({
+      ...region,
+      startTime: Math.max(0, Math.min(region.startTime, duration)),
+      endTime: Math.max(0, Math.min(region.endTime, duration)),
+    }))
+    .filter(region => region.endTime > region.startTime);
@@ -0,0 +1,117 @@
+// Cropping the captured screen to a region, and easing the crop between regions
+
+// Fractions of the captured surface
+export interface CaptureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_REGION: CaptureRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+export const MIN_REGION_SIZE = 0.05;
+
+// Time constant of the pan; the crop covers ~95% of a move in three of these
+const PAN_TIME_CONSTANT_MS = 90;
+
+export interface RegionPanner {
+  setTarget: (region: CaptureRegion | null) => void;
+  getRegion: (now: number) => CaptureRegion | null;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const isFullRegion = (region: CaptureRegion) =>
+  region.x <= 0 && region.y <= 0 && region.width >= 1 && region.height >= 1;
+
+export const clampRegion = (region: CaptureRegion): CaptureRegion => {
+  const width = clamp(region.width, MIN_REGION_SIZE, 1);
+  const height = clamp(region.height, MIN_REGION_SIZE, 1);
+  return {
+    x: clamp(region.x, 0, 1 - width),
+    y: clamp(region.y, 0, 1 - height),
+    width,
+    height,
+  };
+};
+
+/**
+ * Grows `region` around its centre until it has the output's aspect ratio, so
+ * the crop fills the canvas without stretching. Where growing runs past the
+ * surface edge the region shrinks instead, which keeps it inside the surface.
+ */
+export const fitRegionToAspect = (
+  region: CaptureRegion,
+  sourceWidth: number,
+  sourceHeight: number,
+  outputAspect: number
+): CaptureRegion => {
+  const pixelWidth = region.width * sourceWidth;
+  const pixelHeight = region.height * sourceHeight;
+  let width = region.width;
+  let height = region.height;
+
+  if (pixelWidth / pixelHeight < outputAspect) {
+    width = (pixelHeight * outputAspect) / sourceWidth;
+  } else {
+    height = pixelWidth / outputAspect / sourceHeight;
+  }
+
+  const overflow = Math.max(width, height, 1);
+  width /= overflow;
+  height /= overflow;
+
+  const centerX = region.x + region.width / 2;
+  const centerY = region.y + region.height / 2;
+  return {
+    x: clamp(centerX - width / 2, 0, 1 - width),
+    y: clamp(centerY - height / 2, 0, 1 - height),
+    width,
+    height,
+  };
+};
+
+// Where a point on the surface lands inside the crop, or null when it was cropped out and `clip` is set
+export const mapPointToRegion = (x: number, y: number, region: CaptureRegion, clip = true) => {
+  const mappedX = (x - region.x) / region.width;
+  const mappedY = (y - region.y) / region.height;
+  if (clip && (mappedX < 0 || mappedX > 1 || mappedY < 0 || mappedY > 1)) return null;
+  return { x: mappedX, y: mappedY };
+};
+
+const approach = (from: number, to: number, factor: number) => from + (to - from) * factor;
+
+/**
+ * Follows the target region with exponential smoothing so dragging the crop
+ * mid-recording pans instead of jumping. The first region is applied at once.
+ */
+export const createRegionPanner = (initial: CaptureRegion | null): RegionPanner => {
+  let target = initial ?? FULL_REGION;
+  let current = target;
+  let lastAt: number | null = null;
+
+  return {
+    setTarget: (region) => {
+      target = region ?? FULL_REGION;
+    },
+    getRegion: (now) => {
+      const elapsed = lastAt === null ? 0 : now - lastAt;
+      lastAt = now;
+      const factor = 1 - Math.exp(-elapsed / PAN_TIME_CONSTANT_MS);
+
+      current = {
+        x: approach(current.x, target.x, factor),
+        y: approach(current.y, target.y, factor),
+        width: approach(current.width, target.width, factor),
+        height: approach(current.height, target.height, factor),
+      };
+      // Snap once the remaining difference is well under a pixel
+      const settled = Math.abs(current.x - target.x) + Math.abs(current.y - target.y)
+        + Math.abs(current.width - target.width) + Math.abs(current.height - target.height) < 1e-4;
+      if (settled) current = target;
+
+      return isFullRegion(current) ? null : current;
+    },
+  };
+};
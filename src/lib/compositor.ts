@@ -0,0 +1,163 @@
+// Scene-graph compositor: an ordered stack of layers painted onto the recording canvas every frame
+
+// Stacking order of the built-in layers; layers added later can slot in between
+export const LAYER_Z = {
+  screen: 0,
+  webcam: 100,
+  cursor: 200,
+  keystrokes: 300,
+  annotations: 400,
+  watermark: 500,
+} as const;
+
+/**
+ * Offset as a fraction of the canvas size, scale about the layer's top-left
+ * corner. Layers draw in full-canvas coordinates and the compositor applies this.
+ */
+export interface LayerTransform {
+  x: number;
+  y: number;
+  scale: number;
+  opacity: number;
+}
+
+export interface CompositorFrame {
+  width: number;
+  height: number;
+  now: number; // performance.now() of the frame
+}
+
+export interface LayerState {
+  zIndex: number;
+  visible: boolean;
+  transform: LayerTransform;
+}
+
+export interface CompositorLayer extends LayerState {
+  id: string;
+  draw: (ctx: CanvasRenderingContext2D, frame: CompositorFrame) => void;
+}
+
+export interface Compositor {
+  addLayer: (layer: CompositorLayer) => () => void; // returns a function removing the layer
+  removeLayer: (id: string) => void;
+  updateLayer: (id: string, changes: Partial<LayerState>) => void;
+  getLayer: (id: string) => CompositorLayer | undefined;
+  renderFrame: () => void;
+  start: () => void;
+  stop: () => void;
+}
+
+export const IDENTITY_TRANSFORM: LayerTransform = { x: 0, y: 0, scale: 1, opacity: 1 };
+
+export const createLayer = (
+  id: string,
+  zIndex: number,
+  draw: CompositorLayer['draw'],
+  state: Partial<LayerState> = {}
+): CompositorLayer => ({
+  id,
+  zIndex,
+  visible: true,
+  transform: IDENTITY_TRANSFORM,
+  draw,
+  ...state,
+});
+
+export interface CompositorOptions {
+  background?: string;
+  // Runs before any layer draws, e.g. to animate layer transforms for this frame
+  beforeFrame?: (frame: CompositorFrame) => void;
+}
+
+/**
+ * Paints the layer stack onto `canvas` once per animation frame while started.
+ * A layer that throws is logged and skipped rather than stopping the recording.
+ */
+export const createCompositor = (
+  canvas: HTMLCanvasElement,
+  { background = '#000', beforeFrame }: CompositorOptions = {}
+): Compositor => {
+  const ctx = canvas.getContext('2d');
+  const layers = new Map<string, CompositorLayer>();
+  // Sorted lazily, layers change far less often than frames are drawn
+  let ordered: CompositorLayer[] = [];
+  let orderDirty = false;
+  let animationFrame: number | null = null;
+  const failedLayers = new Set<string>();
+
+  const markDirty = () => {
+    orderDirty = true;
+  };
+
+  const renderFrame = () => {
+    if (!ctx) return;
+    const frame: CompositorFrame = { width: canvas.width, height: canvas.height, now: performance.now() };
+    // Restacking in beforeFrame takes effect in the same frame
+    beforeFrame?.(frame);
+    if (orderDirty) {
+      ordered = [...layers.values()].sort((a, b) => a.zIndex - b.zIndex);
+      orderDirty = false;
+    }
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, frame.width, frame.height);
+
+    for (const layer of ordered) {
+      const { transform } = layer;
+      if (!layer.visible || transform.opacity <= 0 || transform.scale <= 0) continue;
+
+      ctx.save();
+      ctx.globalAlpha = transform.opacity;
+      ctx.translate(transform.x * frame.width, transform.y * frame.height);
+      ctx.scale(transform.scale, transform.scale);
+      try {
+        layer.draw(ctx, frame);
+      } catch (err) {
+        if (!failedLayers.has(layer.id)) {
+          failedLayers.add(layer.id);
+          console.error(`Compositor layer "${layer.id}" failed to draw:`, err);
+        }
+      }
+      ctx.restore();
+    }
+  };
+
+  const loop = () => {
+    renderFrame();
+    animationFrame = requestAnimationFrame(loop);
+  };
+
+  const removeLayer = (id: string) => {
+    if (layers.delete(id)) markDirty();
+  };
+
+  return {
+    addLayer: (layer) => {
+      layers.set(layer.id, layer);
+      failedLayers.delete(layer.id);
+      markDirty();
+      return () => {
+        if (layers.get(layer.id) === layer) removeLayer(layer.id);
+      };
+    },
+    removeLayer,
+    updateLayer: (id, changes) => {
+      const layer = layers.get(id);
+      if (!layer) return;
+      const { zIndex } = layer;
+      Object.assign(layer, changes);
+      if (layer.zIndex !== zIndex) markDirty();
+    },
+    getLayer: (id) => layers.get(id),
+    renderFrame,
+    start: () => {
+      if (animationFrame === null) loop();
+    },
+    stop: () => {
+      if (animationFrame !== null) {
+        cancelAnimationFrame(animationFrame);
+        animationFrame = null;
+      }
+    },
+  };
+};
@@ -0,0 +1,214 @@
+// Built-in layers of the recording composite. Each reads its inputs through
+// getters on every frame, so changes made mid-recording show up immediately.
+import type { RecordingSettings } from '@/contexts/RecordingContext';
+import { drawKeystrokeChips, KeystrokeChip, KeystrokeDrawOptions } from '@/hooks/useKeystrokeVisualizer';
+import { createLayer, CompositorLayer, LAYER_Z } from '@/lib/compositor';
+import type { Placement } from '@/lib/sceneLayout';
+import { CaptureRegion, fitRegionToAspect } from '@/lib/captureRegion';
+import type { CursorState } from '@/lib/cursorTracker';
+import { drawAnnotation, AnnotationShape } from '@/lib/annotations';
+
+export type WebcamStyle = Pick<RecordingSettings, 'cameraShape' | 'webcamBorder' | 'webcamShadow' | 'webcamMirror'>;
+
+// Video elements can't be drawn until they have decoded a frame
+const hasFrame = (video: HTMLVideoElement | null): video is HTMLVideoElement => !!video && video.readyState >= 2;
+
+// `getRegion` crops the capture to part of the surface, scaled up to fill the canvas
+export const createScreenLayer = (
+  getVideo: () => HTMLVideoElement | null,
+  getRegion?: (now: number) => CaptureRegion | null
+): CompositorLayer =>
+  createLayer('screen', LAYER_Z.screen, (ctx, { width, height, now }) => {
+    const video = getVideo();
+    if (!hasFrame(video)) return;
+
+    const region = getRegion?.(now);
+    if (!region || !video.videoWidth || !video.videoHeight) {
+      ctx.drawImage(video, 0, 0, width, height);
+      return;
+    }
+
+    const { videoWidth, videoHeight } = video;
+    const crop = fitRegionToAspect(region, videoWidth, videoHeight, width / height);
+    ctx.drawImage(
+      video,
+      crop.x * videoWidth, crop.y * videoHeight, crop.width * videoWidth, crop.height * videoHeight,
+      0, 0, width, height
+    );
+  });
+
+// Draws `source` into the rect, cropping whatever doesn't fit its aspect ratio
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  source: HTMLVideoElement | HTMLCanvasElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) => {
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  if (!sourceWidth || !sourceHeight) return;
+  const scale = Math.max(width / sourceWidth, height / sourceHeight);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+  ctx.drawImage(
+    source,
+    (sourceWidth - cropWidth) / 2, (sourceHeight - cropHeight) / 2, cropWidth, cropHeight,
+    x, y, width, height
+  );
+};
+
+/**
+ * The camera, wherever the scene puts it: the free-positioned bubble or a
+ * full-frame or side panel. `processFrame` can swap the raw camera frame for a
+ * processed one, e.g. with its background blurred.
+ */
+export const createWebcamLayer = (
+  getVideo: () => HTMLVideoElement | null,
+  getPlacement: () => { placement: Placement; chrome: number } | null,
+  getStyle: () => WebcamStyle,
+  processFrame?: (video: HTMLVideoElement, now: number) => HTMLVideoElement | HTMLCanvasElement
+): CompositorLayer =>
+  createLayer('webcam', LAYER_Z.webcam, (ctx, { now }) => {
+    const video = getVideo();
+    const current = getPlacement();
+    if (!hasFrame(video) || !current || current.placement.opacity <= 0) return;
+
+    const { placement, chrome } = current;
+    const { x, y, width, height } = placement;
+    const frame = processFrame ? processFrame(video, now) : video;
+    const style = getStyle();
+    // Circles only make sense for the square bubble; panels keep their rounded rect
+    const isCircle = style.cameraShape === 'circle' && Math.abs(width - height) < 1;
+    const tracePath = () => {
+      ctx.beginPath();
+      if (isCircle) {
+        ctx.arc(x + width / 2, y + height / 2, width / 2, 0, Math.PI * 2);
+      } else {
+        ctx.roundRect(x, y, width, height, placement.radius);
+      }
+    };
+
+    ctx.save();
+    ctx.globalAlpha *= placement.opacity;
+    if (style.webcamShadow && chrome > 0) {
+      ctx.shadowColor = `rgba(0, 0, 0, ${0.4 * chrome})`;
+      ctx.shadowBlur = 20;
+      ctx.shadowOffsetX = 4;
+      ctx.shadowOffsetY = 4;
+    }
+    tracePath();
+    ctx.clip();
+
+    if (style.webcamMirror) {
+      ctx.translate(x * 2 + width, 0);
+      ctx.scale(-1, 1);
+    }
+    drawCover(ctx, frame, x, y, width, height);
+    ctx.restore();
+
+    if (style.webcamBorder && chrome > 0) {
+      ctx.save();
+      ctx.globalAlpha *= placement.opacity;
+      ctx.strokeStyle = `rgba(255, 255, 255, ${0.5 * chrome})`;
+      ctx.lineWidth = 3;
+      tracePath();
+      ctx.stroke();
+      ctx.restore();
+    }
+  });
+
+export interface CursorDrawOptions {
+  clickAnimation: boolean;
+  spotlight: boolean;
+}
+
+// Arrow outline in a 24px box with the hotspot at the origin
+const CURSOR_ARROW: Array<[number, number]> = [[0, 0], [0, 17], [4.5, 13], [7.5, 20], [10.5, 18.8], [7.5, 12], [13, 12]];
+// Drawn larger than the system cursor so it stays legible in scaled-down video
+const CURSOR_SCALE = 1.6;
+
+// `getCursor` returns the smoothed pointer in fractions of the canvas, or null while it is unknown
+export const createCursorLayer = (
+  getCursor: (now: number) => CursorState | null,
+  getOptions: () => CursorDrawOptions
+): CompositorLayer =>
+  createLayer('cursor', LAYER_Z.cursor, (ctx, { width, height, now }) => {
+    const cursor = getCursor(now);
+    if (!cursor || cursor.opacity <= 0) return;
+
+    const options = getOptions();
+    const unit = (height / 1080) * CURSOR_SCALE;
+    const x = cursor.x * width;
+    const y = cursor.y * height;
+
+    if (options.spotlight) {
+      const radius = 90 * unit;
+      const glow = ctx.createRadialGradient(x, y, 0, x, y, radius);
+      glow.addColorStop(0, `rgba(255, 255, 255, ${0.25 * cursor.opacity})`);
+      glow.addColorStop(1, 'rgba(255, 255, 255, 0)');
+      ctx.fillStyle = glow;
+      ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+    }
+
+    if (options.clickAnimation) {
+      cursor.clicks.forEach(click => {
+        ctx.beginPath();
+        ctx.arc(click.x * width, click.y * height, (8 + 28 * click.progress) * unit, 0, Math.PI * 2);
+        ctx.strokeStyle = `rgba(59, 130, 246, ${0.9 * (1 - click.progress)})`;
+        ctx.lineWidth = 3 * unit;
+        ctx.stroke();
+      });
+    }
+
+    ctx.save();
+    ctx.globalAlpha *= cursor.opacity;
+    ctx.translate(x, y);
+    ctx.scale(unit, unit);
+    ctx.beginPath();
+    CURSOR_ARROW.forEach(([px, py], i) => (i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)));
+    ctx.closePath();
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+    ctx.shadowBlur = 4;
+    ctx.shadowOffsetY = 1;
+    ctx.fillStyle = '#fff';
+    ctx.fill();
+    ctx.shadowColor = 'transparent';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = 1.5;
+    ctx.strokeStyle = '#000';
+    ctx.stroke();
+    ctx.restore();
+  });
+
+export const createKeystrokeLayer = (
+  getChips: () => KeystrokeChip[],
+  getOptions: () => KeystrokeDrawOptions
+): CompositorLayer =>
+  createLayer('keystrokes', LAYER_Z.keystrokes, (ctx, { now }) => {
+    drawKeystrokeChips(ctx, getChips(), getOptions(), now);
+  });
+
+// Drawings on screen right now, already placed in fractions of the frame
+export const createAnnotationsLayer = (getAnnotations: () => AnnotationShape[]): CompositorLayer =>
+  createLayer('annotations', LAYER_Z.annotations, (ctx, { width, height }) => {
+    getAnnotations().forEach(annotation => drawAnnotation(ctx, annotation, width, height));
+  });
+
+// Small text mark in the top-right corner; hidden while the text is empty
+export const createWatermarkLayer = (getText: () => string): CompositorLayer =>
+  createLayer('watermark', LAYER_Z.watermark, (ctx, { width, height }) => {
+    const text = getText().trim();
+    if (!text) return;
+
+    const fontSize = Math.round(height * 0.028);
+    const margin = height * 0.03;
+    ctx.font = `600 ${fontSize}px system-ui, -apple-system, sans-serif`;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'top';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+    ctx.shadowBlur = fontSize * 0.3;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.fillText(text, width - margin, margin);
+  });
@@ -0,0 +1,73 @@
+// Pointer positions sampled while recording, smoothed for drawing a custom
+// cursor into the composite in place of the captured system cursor
+
+// Fractions of the shared surface
+export interface CursorPoint {
+  x: number;
+  y: number;
+}
+
+export interface CursorState extends CursorPoint {
+  opacity: number; // fades out while positions aren't available
+  clicks: Array<CursorPoint & { progress: number }>; // ripples, progress 0-1
+}
+
+export interface CursorTracker {
+  move: (point: CursorPoint, now: number) => void;
+  click: (point: CursorPoint, now: number) => void;
+  // The pointer left the page or the page lost focus, so positions stop arriving
+  leave: (now: number) => void;
+  getState: (now: number) => CursorState | null;
+}
+
+// How quickly the drawn cursor catches up with the pointer; hides the jitter of coarse samples
+const SMOOTHING_TIME_CONSTANT_MS = 45;
+const FADE_MS = 250;
+export const CLICK_RIPPLE_MS = 500;
+
+export const createCursorTracker = (): CursorTracker => {
+  let target: CursorPoint | null = null;
+  let current: CursorPoint | null = null;
+  let lastDrawAt: number | null = null;
+  let presentSince = 0;
+  let leftAt: number | null = null;
+  let clicks: Array<CursorPoint & { at: number }> = [];
+
+  return {
+    move: (point, now) => {
+      if (leftAt !== null || target === null) presentSince = now;
+      leftAt = null;
+      target = point;
+      // Jump straight to the first position rather than gliding in from nowhere
+      if (!current) current = point;
+    },
+    click: (point, now) => {
+      clicks.push({ ...point, at: now });
+    },
+    leave: (now) => {
+      if (leftAt === null) leftAt = now;
+    },
+    getState: (now) => {
+      if (!target || !current) return null;
+
+      const elapsed = lastDrawAt === null ? 0 : Math.max(0, now - lastDrawAt);
+      lastDrawAt = now;
+      const factor = 1 - Math.exp(-elapsed / SMOOTHING_TIME_CONSTANT_MS);
+      current = {
+        x: current.x + (target.x - current.x) * factor,
+        y: current.y + (target.y - current.y) * factor,
+      };
+
+      clicks = clicks.filter(click => now - click.at < CLICK_RIPPLE_MS);
+      const opacity = leftAt !== null
+        ? Math.max(0, 1 - (now - leftAt) / FADE_MS)
+        : Math.min(1, (now - presentSince) / FADE_MS);
+
+      return {
+        ...current,
+        opacity,
+        clicks: clicks.map(click => ({ x: click.x, y: click.y, progress: (now - click.at) / CLICK_RIPPLE_MS })),
+      };
+    },
+  };
+};
@@ -0,0 +1,198 @@
+// Serializable, non-destructive edit state for a recording opened in the VideoEditor
+import { TimelineSegment, clampSegments, createSegment } from '@/lib/timeline';
+import type { ExportFormat } from '@/lib/videoExport';
+import type { NoiseProfile } from '@/lib/spectralGate';
+import { clampZoomRegions, ZoomRegion } from '@/lib/autoZoom';
+import { Annotation, prepareRecordedAnnotations } from '@/lib/annotations';
+import { clampRedactionRegions, RedactionRegion } from '@/lib/redaction';
+
+/**
+ * Bump EDIT_PROJECT_VERSION when a stored field changes meaning. Fields added
+ * later fall back to their defaults in restoreEditProject, so additive changes
+ * need no bump.
+ */
+export const EDIT_PROJECT_VERSION = 2;
+
+// Version 1 projects stored a single trim window instead of a segment list
+interface LegacyTrimState {
+  startTime: number;
+  endTime: number;
+}
+
+export interface FilterState {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  hue: number;
+  blur: number;
+  grayscale: number;
+}
+
+export interface TextOverlay {
+  id: string;
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  color: string;
+  startTime: number;
+  endTime: number;
+}
+
+// Used instead of quality and bitrate when exporting a GIF or WebP
+export interface AnimationExportSettings {
+  fps: number;
+  paletteSize: number;
+  scale: number; // fraction of the source resolution
+}
+
+export interface ExportSettings {
+  speed: number;
+  quality: string;
+  bitrate: number;
+  format: ExportFormat;
+  animation: AnimationExportSettings;
+}
+
+export interface StemLevel {
+  volume: number; // linear gain, 1 is unchanged
+  muted: boolean;
+}
+
+// Levels for recordings saved with separate audio stems; when enabled the stems
+// replace the video's mixed audio in preview and export
+export interface StemMix {
+  enabled: boolean;
+  mic: StemLevel;
+  system: StemLevel;
+}
+
+// Spectral noise reduction applied to the exported audio
+export interface NoiseReductionSettings {
+  enabled: boolean;
+  strength: number; // 0-1
+  profile: NoiseProfile | null; // learned from a quiet stretch; null adapts to the noise floor
+}
+
+// Everything the user can change in the editor, and therefore everything undo/redo covers
+export interface EditState {
+  segments: TimelineSegment[];
+  filter: FilterState;
+  textOverlays: TextOverlay[];
+  playbackSpeed: number;
+  export: ExportSettings;
+  stemMix: StemMix;
+  noiseReduction: NoiseReductionSettings;
+  zoomRegions: ZoomRegion[];
+  annotations: Annotation[]; // drawings from the recording
+  redactions: RedactionRegion[];
+}
+
+export interface EditProject extends EditState {
+  version: number;
+  recordingId: string;
+  updatedAt: string;
+  trim?: LegacyTrimState;
+}
+
+export const defaultFilter: FilterState = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  hue: 0,
+  blur: 0,
+  grayscale: 0,
+};
+
+export const defaultExportSettings: ExportSettings = {
+  speed: 1,
+  quality: 'original',
+  bitrate: 5000000,
+  format: 'webm',
+  animation: {
+    fps: 10,
+    paletteSize: 128,
+    scale: 0.5,
+  },
+};
+
+export const defaultStemMix: StemMix = {
+  enabled: false,
+  mic: { volume: 1, muted: false },
+  system: { volume: 1, muted: false },
+};
+
+export const defaultNoiseReduction: NoiseReductionSettings = {
+  enabled: false,
+  strength: 0.5,
+  profile: null,
+};
+
+export const createEditState = (duration: number): EditState => ({
+  segments: [createSegment(0, duration)],
+  filter: defaultFilter,
+  textOverlays: [],
+  playbackSpeed: 1,
+  export: defaultExportSettings,
+  stemMix: defaultStemMix,
+  noiseReduction: defaultNoiseReduction,
+  zoomRegions: [],
+  annotations: [],
+  redactions: [],
+});
+
+export const toEditProject = (recordingId: string, state: EditState): EditProject => ({
+  ...state,
+  version: EDIT_PROJECT_VERSION,
+  recordingId,
+  updatedAt: new Date().toISOString(),
+});
+
+const restoreSegments = (project: EditProject, duration: number): TimelineSegment[] => {
+  let segments: TimelineSegment[] | null = Array.isArray(project.segments) ? project.segments : null;
+
+  if (!segments && project.trim) {
+    const endTime = project.trim.endTime > 0 ? project.trim.endTime : duration;
+    segments = [createSegment(project.trim.startTime || 0, endTime)];
+  }
+  if (!segments) return createEditState(duration).segments;
+  if (duration <= 0) return segments;
+
+  const clamped = clampSegments(segments, duration);
+  return clamped.length > 0 ? clamped : createEditState(duration).segments;
+};
+
+/**
+ * Rebuilds editor state from a stored project, filling in anything missing and
+ * keeping segments inside the video when its duration is known.
+ */
+export const restoreEditProject = (project: EditProject, duration: number): EditState => {
+  const defaults = createEditState(duration);
+
+  return {
+    segments: restoreSegments(project, duration),
+    filter: { ...defaults.filter, ...project.filter },
+    textOverlays: Array.isArray(project.textOverlays) ? project.textOverlays : [],
+    playbackSpeed: project.playbackSpeed || defaults.playbackSpeed,
+    export: {
+      ...defaults.export,
+      ...project.export,
+      animation: { ...defaults.export.animation, ...project.export?.animation },
+    },
+    stemMix: {
+      ...defaults.stemMix,
+      ...project.stemMix,
+      mic: { ...defaults.stemMix.mic, ...project.stemMix?.mic },
+      system: { ...defaults.stemMix.system, ...project.stemMix?.system },
+    },
+    noiseReduction: { ...defaults.noiseReduction, ...project.noiseReduction },
+    zoomRegions: Array.isArray(project.zoomRegions)
+      ? (duration > 0 ? clampZoomRegions(project.zoomRegions, duration) : project.zoomRegions)
+      : [],
+    // Copies of captured drawings that older builds let be shown go back to hidden, since they can't be edited now
+    annotations: Array.isArray(project.annotations) ? prepareRecordedAnnotations(project.annotations, duration) : [],
+    redactions: Array.isArray(project.redactions)
+      ? (duration > 0 ? clampRedactionRegions(project.redactions, duration) : project.redactions)
+      : [],
+  };
+};
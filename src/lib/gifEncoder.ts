@@ -0,0 +1,246 @@
+// Animated GIF writer. Each frame gets its own median-cut palette, which keeps
+// screen content crisp without a second pass over the whole clip.
+
+export interface GifEncoderOptions {
+  width: number;
+  height: number;
+  colors: number; // palette size, 2-256
+}
+
+interface EncodedFrame {
+  data: Uint8Array; // image descriptor, local color table and LZW data
+  timestamp: number; // seconds
+}
+
+// Colors are bucketed to 5 bits per channel before quantizing
+const BUCKET_BITS = 5;
+const BUCKET_COUNT = 1 << (BUCKET_BITS * 3);
+const MAX_CODE = 4096;
+
+const bucketOf = (r: number, g: number, b: number) =>
+  ((r >> 3) << (BUCKET_BITS * 2)) | ((g >> 3) << BUCKET_BITS) | (b >> 3);
+
+const channelOf = (bucket: number, channel: number) => (bucket >> (BUCKET_BITS * (2 - channel))) & 0x1f;
+
+interface ColorBox {
+  buckets: number[];
+  count: number;
+  widest: number; // spread of the widest channel, in buckets
+  widestChannel: number;
+}
+
+const createBox = (buckets: number[], count: number): ColorBox => {
+  let widest = 0;
+  let widestChannel = 0;
+  for (let channel = 0; channel < 3; channel++) {
+    let min = 31;
+    let max = 0;
+    buckets.forEach(bucket => {
+      const value = channelOf(bucket, channel);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+    if (max - min > widest) {
+      widest = max - min;
+      widestChannel = channel;
+    }
+  }
+  return { buckets, count, widest, widestChannel };
+};
+
+/**
+ * Median cut over a 15-bit color histogram. Returns the palette and a lookup
+ * from color bucket to palette index.
+ */
+const quantize = (pixels: Uint8ClampedArray, maxColors: number) => {
+  const histogram = new Uint32Array(BUCKET_COUNT);
+  for (let i = 0; i < pixels.length; i += 4) {
+    histogram[bucketOf(pixels[i], pixels[i + 1], pixels[i + 2])]++;
+  }
+
+  const used: number[] = [];
+  histogram.forEach((count, bucket) => {
+    if (count > 0) used.push(bucket);
+  });
+
+  const boxes: ColorBox[] = [createBox(used, pixels.length / 4)];
+  while (boxes.length < maxColors) {
+    // Split the box with the widest color spread; a single-bucket box has none
+    let target = -1;
+    boxes.forEach((box, i) => {
+      if (box.widest > 0 && (target === -1 || box.widest > boxes[target].widest)) target = i;
+    });
+    if (target === -1) break;
+
+    const box = boxes[target];
+    const channel = box.widestChannel;
+    box.buckets.sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+
+    // Split at the weighted median so both halves cover similar pixel counts
+    let running = 0;
+    let splitAt = 1;
+    for (let i = 0; i < box.buckets.length - 1; i++) {
+      running += histogram[box.buckets[i]];
+      splitAt = i + 1;
+      if (running >= box.count / 2) break;
+    }
+
+    const lower = box.buckets.slice(0, splitAt);
+    const upper = box.buckets.slice(splitAt);
+    const lowerCount = lower.reduce((total, bucket) => total + histogram[bucket], 0);
+    boxes.splice(target, 1, createBox(lower, lowerCount), createBox(upper, box.count - lowerCount));
+  }
+
+  const palette: number[] = [];
+  const lookup = new Uint8Array(BUCKET_COUNT);
+  boxes.forEach((box, index) => {
+    const sums = [0, 0, 0];
+    let total = 0;
+    box.buckets.forEach(bucket => {
+      const count = histogram[bucket];
+      for (let channel = 0; channel < 3; channel++) {
+        sums[channel] += ((channelOf(bucket, channel) << 3) + 4) * count;
+      }
+      total += count;
+      lookup[bucket] = index;
+    });
+    for (let channel = 0; channel < 3; channel++) {
+      palette.push(total > 0 ? Math.round(sums[channel] / total) : 0);
+    }
+  });
+
+  return { palette, lookup };
+};
+
+// GIF color tables hold a power of two entries, at least two
+const getTableBits = (colorCount: number) => Math.max(1, Math.ceil(Math.log2(Math.max(2, colorCount))));
+
+const lzwEncode = (indices: Uint8Array, minCodeSize: number) => {
+  const output: number[] = [];
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+
+  let codeSize = minCodeSize + 1;
+  let nextCode = eoiCode + 1;
+  let table = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+
+  let current = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const next = indices[i];
+    const key = (current << 8) | next;
+    const code = table.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+
+    emit(current);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = eoiCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    current = next;
+  }
+
+  emit(current);
+  emit(eoiCode);
+  if (bitCount > 0) output.push(bitBuffer & 0xff);
+
+  // Image data is stored as length-prefixed sub-blocks of up to 255 bytes
+  const blocks: number[] = [minCodeSize];
+  for (let offset = 0; offset < output.length; offset += 255) {
+    const block = output.slice(offset, offset + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return blocks;
+};
+
+const u16le = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export const createGifEncoder = ({ width, height, colors }: GifEncoderOptions) => {
+  const frames: EncodedFrame[] = [];
+  const maxColors = Math.max(2, Math.min(256, Math.round(colors)));
+
+  // Quantizes and compresses the frame right away so only compact data is kept in memory
+  const addFrame = (pixels: Uint8ClampedArray, timestamp: number) => {
+    const { palette, lookup } = quantize(pixels, maxColors);
+    const tableBits = getTableBits(palette.length / 3);
+    const tableSize = 1 << tableBits;
+
+    const indices = new Uint8Array(width * height);
+    for (let i = 0, p = 0; p < indices.length; i += 4, p++) {
+      indices[p] = lookup[bucketOf(pixels[i], pixels[i + 1], pixels[i + 2])];
+    }
+
+    const colorTable = new Array<number>(tableSize * 3).fill(0);
+    palette.forEach((value, i) => {
+      colorTable[i] = value;
+    });
+
+    const bytes = [
+      0x2c, // image descriptor
+      ...u16le(0),
+      ...u16le(0),
+      ...u16le(width),
+      ...u16le(height),
+      0x80 | (tableBits - 1), // local color table
+      ...colorTable,
+      ...lzwEncode(indices, Math.max(2, tableBits)),
+    ];
+    frames.push({ data: new Uint8Array(bytes), timestamp });
+  };
+
+  const finish = () => {
+    if (frames.length === 0) throw new Error('No frames were captured');
+
+    const header = new Uint8Array([
+      ...Array.from('GIF89a', char => char.charCodeAt(0)),
+      ...u16le(width),
+      ...u16le(height),
+      0x00, // no global color table
+      0x00,
+      0x00,
+      // Loop forever
+      0x21, 0xff, 0x0b,
+      ...Array.from('NETSCAPE2.0', char => char.charCodeAt(0)),
+      0x03, 0x01, ...u16le(0), 0x00,
+    ]);
+
+    const parts: BlobPart[] = [header];
+    frames.forEach((frame, i) => {
+      // Delays are in hundredths of a second; rounding the running total keeps the clip from drifting
+      const next = frames[i + 1];
+      const end = next ? next.timestamp : frame.timestamp + (frames.length > 1 ? frame.timestamp - frames[i - 1].timestamp : 0.1);
+      const delay = Math.max(2, Math.round(end * 100) - Math.round(frame.timestamp * 100));
+      parts.push(new Uint8Array([0x21, 0xf9, 0x04, 0x00, ...u16le(delay), 0x00, 0x00]), frame.data);
+    });
+    parts.push(new Uint8Array([0x3b]));
+
+    return new Blob(parts, { type: 'image/gif' });
+  };
+
+  return {
+    addFrame,
+    finish,
+  };
+};
@@ -0,0 +1,82 @@
+// Opening microphones and cameras by remembered deviceId, with fallbacks for
+// devices that have been unplugged since they were picked
+
+// Radix Select can't use an empty string as a value, so "system default" gets a sentinel
+export const DEFAULT_DEVICE_VALUE = 'default-device';
+
+export const MIC_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  // Advanced constraints for better audio quality
+  sampleRate: { ideal: 48000 },
+  channelCount: { ideal: 1 },
+};
+
+export const RECORDING_CAMERA_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 640 },
+  height: { ideal: 480 },
+};
+
+// Chrome lists aliases for whatever the OS default is; the "System default" option covers those
+const ALIAS_DEVICE_IDS = ['default', 'communications'];
+
+export const listDevices = (devices: MediaDeviceInfo[], kind: MediaDeviceKind) =>
+  devices.filter(device => device.kind === kind && device.deviceId && !ALIAS_DEVICE_IDS.includes(device.deviceId));
+
+// Labels stay empty until the user has granted access to that kind of device
+export const getDeviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label || `${device.kind === 'audioinput' ? 'Microphone' : 'Camera'} ${index + 1}`;
+
+const openDevice = async (kind: 'audio' | 'video', deviceId: string, constraints: MediaTrackConstraints) => {
+  const request = (track: MediaTrackConstraints) =>
+    navigator.mediaDevices.getUserMedia(kind === 'audio' ? { audio: track } : { video: track, audio: false });
+
+  if (!deviceId) return request(constraints);
+
+  try {
+    return await request({ ...constraints, deviceId: { exact: deviceId } });
+  } catch (err) {
+    // The remembered device is gone; recording with the default beats not recording
+    if (err instanceof DOMException && (err.name === 'OverconstrainedError' || err.name === 'NotFoundError')) {
+      console.warn(`Preferred ${kind} device unavailable, using the default instead`);
+      return request(constraints);
+    }
+    throw err;
+  }
+};
+
+export const openMicrophone = (deviceId: string) => openDevice('audio', deviceId, MIC_CONSTRAINTS);
+
+export const openCamera = (deviceId: string, constraints: MediaTrackConstraints = RECORDING_CAMERA_CONSTRAINTS) =>
+  openDevice('video', deviceId, deviceId ? constraints : { ...constraints, facingMode: 'user' });
+
+export const getStreamDeviceId = (stream: MediaStream | null) =>
+  stream?.getTracks()[0]?.getSettings().deviceId ?? null;
+
+/**
+ * Decides which device a live stream should switch to after the device list
+ * changed. Returns null to keep the current device, '' for the system default,
+ * or the preferred deviceId once it is available again.
+ */
+export const getDeviceToSwapTo = (
+  stream: MediaStream | null,
+  preferredId: string,
+  devices: MediaDeviceInfo[],
+  kind: MediaDeviceKind
+): string | null => {
+  const available = listDevices(devices, kind);
+  if (available.length === 0) return null;
+
+  const track = stream?.getTracks()[0];
+  const currentId = getStreamDeviceId(stream);
+  // Tracks opened without a deviceId report the alias, which follows the OS default on its own
+  const isCurrentAlive =
+    !!track &&
+    track.readyState === 'live' &&
+    (ALIAS_DEVICE_IDS.includes(currentId) || available.some(device => device.deviceId === currentId));
+  const target = preferredId && available.some(device => device.deviceId === preferredId) ? preferredId : '';
+
+  if (isCurrentAlive && (target === '' || target === currentId)) return null;
+  return target;
+};
@@ -0,0 +1,386 @@
+// Minimal ISO BMFF (MP4) writer for H.264 video and AAC audio produced by WebCodecs.
+// Samples are buffered in memory and written out as a non-fragmented file with
+// the moov box ahead of the media data, so players can start before the whole
+// file has loaded.
+
+export interface Mp4MuxerOptions {
+  video: { width: number; height: number };
+  audio?: { sampleRate: number; numberOfChannels: number };
+}
+
+interface Sample {
+  data: Uint8Array;
+  timestamp: number; // microseconds
+  duration: number; // microseconds, 0 when the encoder didn't report one
+  isKeyFrame: boolean;
+}
+
+interface TrackState {
+  id: number;
+  timescale: number;
+  samples: Sample[];
+  description: Uint8Array | null;
+}
+
+const VIDEO_TIMESCALE = 90000;
+const MOVIE_TIMESCALE = 1000;
+const AAC_FRAME_SIZE = 1024;
+const UINT32_MAX = 0xffffffff;
+
+// ---- Byte helpers ----
+
+const u8 = (value: number) => new Uint8Array([value & 0xff]);
+
+const u16 = (value: number) => new Uint8Array([(value >> 8) & 0xff, value & 0xff]);
+
+const u24 = (value: number) => new Uint8Array([(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+
+const u32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+};
+
+const u64 = (value: number) => {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, Math.floor(value / 2 ** 32));
+  view.setUint32(4, value >>> 0);
+  return bytes;
+};
+
+const fourcc = (type: string) => new Uint8Array(Array.from(type, char => char.charCodeAt(0)));
+
+const zeros = (length: number) => new Uint8Array(length);
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const box = (type: string, ...contents: Uint8Array[]) => {
+  const body = concat(contents);
+  return concat([u32(body.length + 8), fourcc(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...contents: Uint8Array[]) =>
+  box(type, u8(version), u24(flags), ...contents);
+
+// Unity transform matrix shared by mvhd and tkhd
+const MATRIX = concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32));
+
+const toBytes = (source: AllowSharedBufferSource) =>
+  source instanceof ArrayBuffer
+    ? new Uint8Array(source.slice(0))
+    : new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength));
+
+// ---- Sample timing ----
+
+// Per-sample durations in the track's timescale, derived from presentation timestamps
+const getSampleDeltas = (track: TrackState) => {
+  const toTimescale = (micros: number) => Math.round((micros * track.timescale) / 1_000_000);
+
+  return track.samples.map((sample, i) => {
+    const next = track.samples[i + 1];
+    if (next) return Math.max(1, toTimescale(next.timestamp) - toTimescale(sample.timestamp));
+    if (sample.duration > 0) return Math.max(1, toTimescale(sample.duration));
+    // The last sample without a reported duration repeats the previous one
+    const previous = track.samples[i - 1];
+    return previous ? Math.max(1, toTimescale(sample.timestamp - previous.timestamp)) : 1;
+  });
+};
+
+// AAC frames always cover the same number of samples, so audio timing ignores
+// timestamps and simply plays frames back to back
+const getAudioDeltas = (track: TrackState) =>
+  track.samples.map(sample =>
+    sample.duration > 0 ? Math.max(1, Math.round((sample.duration * track.timescale) / 1_000_000)) : AAC_FRAME_SIZE
+  );
+
+// Run-length encoded sample durations
+const stts = (deltas: number[]) => {
+  const entries: Array<[number, number]> = [];
+  deltas.forEach(delta => {
+    const last = entries[entries.length - 1];
+    if (last && last[1] === delta) last[0]++;
+    else entries.push([1, delta]);
+  });
+  return fullBox('stts', 0, 0, u32(entries.length), ...entries.flatMap(([count, delta]) => [u32(count), u32(delta)]));
+};
+
+// All of a track's samples sit in one contiguous chunk of the mdat
+const sampleTable = (
+  track: TrackState,
+  sampleEntry: Uint8Array,
+  deltas: number[],
+  chunkOffset: number,
+  useCo64: boolean,
+  hasSyncTable: boolean
+) => {
+  const sizes = track.samples.map(sample => sample.data.length);
+  const keyFrames = track.samples
+    .map((sample, i) => (sample.isKeyFrame ? i + 1 : 0))
+    .filter(sampleNumber => sampleNumber > 0);
+
+  return box(
+    'stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry),
+    stts(deltas),
+    // Without an stss box every sample counts as a keyframe
+    ...(hasSyncTable && keyFrames.length < track.samples.length
+      ? [fullBox('stss', 0, 0, u32(keyFrames.length), ...keyFrames.map(u32))]
+      : []),
+    fullBox('stsc', 0, 0, u32(1), u32(1), u32(track.samples.length), u32(1)),
+    fullBox('stsz', 0, 0, u32(0), u32(sizes.length), ...sizes.map(u32)),
+    useCo64
+      ? fullBox('co64', 0, 0, u32(1), u64(chunkOffset))
+      : fullBox('stco', 0, 0, u32(1), u32(chunkOffset))
+  );
+};
+
+// ---- Sample entries ----
+
+const avc1 = (width: number, height: number, avcC: Uint8Array) =>
+  box(
+    'avc1',
+    zeros(6),
+    u16(1), // data reference index
+    zeros(16), // pre-defined and reserved
+    u16(width),
+    u16(height),
+    u32(0x00480000), // 72 dpi
+    u32(0x00480000),
+    u32(0),
+    u16(1), // frame count
+    zeros(32), // compressor name
+    u16(0x0018), // depth
+    u16(0xffff),
+    box('avcC', avcC)
+  );
+
+const descriptor = (tag: number, ...contents: Uint8Array[]) => {
+  const body = concat(contents);
+  return concat([u8(tag), u8(body.length), body]);
+};
+
+const SAMPLE_RATE_INDEXES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// AAC-LC AudioSpecificConfig, for encoders that don't hand one back
+const audioSpecificConfig = (sampleRate: number, numberOfChannels: number) => {
+  const rateIndex = Math.max(0, SAMPLE_RATE_INDEXES.indexOf(sampleRate));
+  return new Uint8Array([(2 << 3) | (rateIndex >> 1), ((rateIndex & 1) << 7) | (numberOfChannels << 3)]);
+};
+
+const mp4a = (sampleRate: number, numberOfChannels: number, config: Uint8Array) =>
+  box(
+    'mp4a',
+    zeros(6),
+    u16(1), // data reference index
+    zeros(8),
+    u16(numberOfChannels),
+    u16(16), // sample size
+    zeros(4),
+    u32(sampleRate * 65536),
+    fullBox(
+      'esds',
+      0,
+      0,
+      descriptor(
+        0x03, // ES descriptor
+        u16(2), // ES id
+        u8(0),
+        descriptor(
+          0x04, // decoder config
+          u8(0x40), // MPEG-4 audio
+          u8(0x15), // audio stream
+          u24(0),
+          u32(0),
+          u32(0),
+          descriptor(0x05, config)
+        ),
+        descriptor(0x06, u8(0x02))
+      )
+    )
+  );
+
+// ---- Track boxes ----
+
+const trak = (
+  track: TrackState,
+  kind: 'video' | 'audio',
+  sampleEntry: Uint8Array,
+  deltas: number[],
+  chunkOffset: number,
+  useCo64: boolean,
+  size: { width: number; height: number }
+) => {
+  const mediaDuration = deltas.reduce((total, delta) => total + delta, 0);
+  const movieDuration = Math.round((mediaDuration * MOVIE_TIMESCALE) / track.timescale);
+  const isVideo = kind === 'video';
+
+  return box(
+    'trak',
+    fullBox(
+      'tkhd',
+      0,
+      3, // enabled, in movie
+      u32(0),
+      u32(0),
+      u32(track.id),
+      u32(0),
+      u32(movieDuration),
+      zeros(8),
+      u16(0), // layer
+      u16(0), // alternate group
+      u16(isVideo ? 0 : 0x0100), // volume
+      u16(0),
+      MATRIX,
+      u32(isVideo ? size.width * 65536 : 0),
+      u32(isVideo ? size.height * 65536 : 0)
+    ),
+    box(
+      'mdia',
+      fullBox('mdhd', 0, 0, u32(0), u32(0), u32(track.timescale), u32(mediaDuration), u16(0x55c4), u16(0)),
+      fullBox(
+        'hdlr',
+        0,
+        0,
+        u32(0),
+        fourcc(isVideo ? 'vide' : 'soun'),
+        zeros(12),
+        fourcc(isVideo ? 'VideoHandler' : 'SoundHandler'),
+        u8(0)
+      ),
+      box(
+        'minf',
+        isVideo ? fullBox('vmhd', 0, 1, zeros(8)) : fullBox('smhd', 0, 0, zeros(4)),
+        box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+        sampleTable(track, sampleEntry, deltas, chunkOffset, useCo64, isVideo)
+      )
+    )
+  );
+};
+
+/**
+ * Collects encoded chunks from a VideoEncoder (configured with
+ * `avc: { format: 'avc' }`) and an optional AudioEncoder (AAC), then writes
+ * them out as a playable MP4 file.
+ */
+export const createMp4Muxer = (options: Mp4MuxerOptions) => {
+  const video: TrackState = { id: 1, timescale: VIDEO_TIMESCALE, samples: [], description: null };
+  const audio: TrackState | null = options.audio
+    ? { id: 2, timescale: options.audio.sampleRate, samples: [], description: null }
+    : null;
+
+  const addChunk = (
+    track: TrackState,
+    chunk: EncodedVideoChunk | EncodedAudioChunk,
+    description: AllowSharedBufferSource | undefined
+  ) => {
+    if (description && !track.description) {
+      track.description = toBytes(description);
+    }
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    track.samples.push({
+      data,
+      timestamp: chunk.timestamp,
+      duration: chunk.duration ?? 0,
+      isKeyFrame: chunk.type === 'key',
+    });
+  };
+
+  const addVideoChunk = (chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata) => {
+    // A file has to start on a keyframe to be decodable
+    if (video.samples.length === 0 && chunk.type !== 'key') return;
+    addChunk(video, chunk, metadata?.decoderConfig?.description);
+  };
+
+  const addAudioChunk = (chunk: EncodedAudioChunk, metadata?: EncodedAudioChunkMetadata) => {
+    if (!audio) return;
+    addChunk(audio, chunk, metadata?.decoderConfig?.description);
+  };
+
+  const finalize = () => {
+    if (video.samples.length === 0 || !video.description) {
+      throw new Error('No video frames were encoded');
+    }
+
+    const { width, height } = options.video;
+    const hasAudio = !!audio && audio.samples.length > 0;
+    const videoDeltas = getSampleDeltas(video);
+    const audioDeltas = hasAudio ? getAudioDeltas(audio) : [];
+    const videoBytes = video.samples.reduce((total, sample) => total + sample.data.length, 0);
+    const audioBytes = hasAudio ? audio.samples.reduce((total, sample) => total + sample.data.length, 0) : 0;
+
+    const ftyp = box('ftyp', fourcc('isom'), u32(0x200), fourcc('isom'), fourcc('iso2'), fourcc('avc1'), fourcc('mp41'));
+
+    const mdatPayload = videoBytes + audioBytes;
+    const useLargeMdat = mdatPayload + 8 > UINT32_MAX;
+    const mdatHeader = useLargeMdat
+      ? concat([u32(1), fourcc('mdat'), u64(mdatPayload + 16)])
+      : concat([u32(mdatPayload + 8), fourcc('mdat')]);
+    const useCo64 = useLargeMdat;
+
+    const videoEntry = avc1(width, height, video.description);
+    const audioEntry = hasAudio
+      ? mp4a(
+          options.audio.sampleRate,
+          options.audio.numberOfChannels,
+          audio.description ?? audioSpecificConfig(options.audio.sampleRate, options.audio.numberOfChannels)
+        )
+      : null;
+
+    const buildMoov = (mediaStart: number) => {
+      const tracks = [trak(video, 'video', videoEntry, videoDeltas, mediaStart, useCo64, options.video)];
+      if (hasAudio) {
+        tracks.push(trak(audio, 'audio', audioEntry, audioDeltas, mediaStart + videoBytes, useCo64, options.video));
+      }
+
+      const durations = [
+        videoDeltas.reduce((total, delta) => total + delta, 0) / video.timescale,
+        hasAudio ? audioDeltas.reduce((total, delta) => total + delta, 0) / audio.timescale : 0,
+      ];
+
+      return box(
+        'moov',
+        fullBox(
+          'mvhd',
+          0,
+          0,
+          u32(0),
+          u32(0),
+          u32(MOVIE_TIMESCALE),
+          u32(Math.round(Math.max(...durations) * MOVIE_TIMESCALE)),
+          u32(0x00010000), // rate
+          u16(0x0100), // volume
+          zeros(10),
+          MATRIX,
+          zeros(24),
+          u32(hasAudio ? 3 : 2) // next track id
+        ),
+        ...tracks
+      );
+    };
+
+    // Chunk offsets don't change the moov size, so measure it once with a placeholder
+    const moovSize = buildMoov(0).length;
+    const moov = buildMoov(ftyp.length + moovSize + mdatHeader.length);
+
+    const parts: BlobPart[] = [ftyp, moov, mdatHeader, ...video.samples.map(sample => sample.data)];
+    if (hasAudio) parts.push(...audio.samples.map(sample => sample.data));
+
+    return new Blob(parts, { type: 'video/mp4' });
+  };
+
+  return {
+    addVideoChunk,
+    addAudioChunk,
+    finalize,
+  };
+};
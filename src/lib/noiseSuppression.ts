@@ -0,0 +1,124 @@
+// Main-thread side of the noise suppressor worklet, plus the remembered mic noise profile
+import workletUrl from './noiseSuppressor.worklet?worker&url';
+import type { NoiseSuppressorEvent, NoiseSuppressorMessage } from './noiseSuppressor.worklet';
+import { isProfileUsable, NoiseProfile } from './spectralGate';
+
+const PROFILE_STORAGE_KEY = 'flowrec-noise-profile';
+export const NOISE_LEARN_SECONDS = 2;
+
+export interface NoiseSuppressor {
+  node: AudioWorkletNode;
+  setStrength: (strength: number) => void;
+  setProfile: (profile: NoiseProfile | null) => void;
+  learnNoise: (seconds?: number) => Promise<NoiseProfile>;
+}
+
+// Worklet modules load once per AudioContext
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export const createNoiseSuppressor = async (
+  context: BaseAudioContext,
+  { strength, profile }: { strength: number; profile: NoiseProfile | null }
+): Promise<NoiseSuppressor> => {
+  if (!loadedContexts.has(context)) {
+    await context.audioWorklet.addModule(workletUrl);
+    loadedContexts.add(context);
+  }
+
+  // Mono in and out: stereo sources are downmixed rather than losing a channel
+  const node = new AudioWorkletNode(context, 'noise-suppressor', {
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    outputChannelCount: [1],
+  });
+  const post = (message: NoiseSuppressorMessage) => node.port.postMessage(message);
+
+  const setStrength = (value: number) => {
+    node.parameters.get('strength')?.setValueAtTime(value, context.currentTime);
+  };
+  const setProfile = (next: NoiseProfile | null) => {
+    post({ type: 'set-profile', bins: isProfileUsable(next, context.sampleRate) ? next.bins : null });
+  };
+
+  setStrength(strength);
+  setProfile(profile);
+
+  return {
+    node,
+    setStrength,
+    setProfile,
+    learnNoise: (seconds = NOISE_LEARN_SECONDS) => new Promise(resolve => {
+      node.port.onmessage = (event: MessageEvent<NoiseSuppressorEvent>) => {
+        if (event.data.type !== 'learned') return;
+        node.port.onmessage = null;
+        resolve({ sampleRate: context.sampleRate, bins: event.data.bins });
+      };
+      post({ type: 'learn', seconds });
+    }),
+  };
+};
+
+/**
+ * Learns a profile from `seconds` of a media file played from `startTime`, at the rate
+ * a default AudioContext runs at, as the editor's export does. The file plays silently
+ * through its own element, so it is never decoded as a whole.
+ */
+export const learnNoiseFromMedia = async (url: string, startTime: number, seconds = NOISE_LEARN_SECONDS): Promise<NoiseProfile> => {
+  const media = document.createElement('video');
+  media.preload = 'auto';
+  media.src = url;
+  const context = new AudioContext();
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      media.onloadedmetadata = () => resolve();
+      media.onerror = () => reject(new Error('Could not load the video for analysis'));
+    });
+    await new Promise<void>((resolve) => {
+      media.onseeked = () => resolve();
+      media.currentTime = startTime;
+    });
+
+    const source = context.createMediaElementSource(media);
+    const suppressor = await createNoiseSuppressor(context, { strength: 0, profile: null });
+    // Nothing is heard, but the graph only runs while it reaches the destination
+    const mute = context.createGain();
+    mute.gain.value = 0;
+    source.connect(suppressor.node).connect(mute).connect(context.destination);
+    await context.resume();
+    await media.play();
+
+    const ended = new Promise<never>((_, reject) => {
+      media.onended = () => reject(new Error('Not enough audio after the playhead to learn from'));
+    });
+    return await Promise.race([suppressor.learnNoise(seconds), ended]);
+  } finally {
+    media.onended = null;
+    media.pause();
+    media.removeAttribute('src');
+    media.load();
+    context.close().catch(console.error);
+  }
+};
+
+export const loadNoiseProfile = (): NoiseProfile | null => {
+  try {
+    const raw = localStorage.getItem(PROFILE_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (err) {
+    console.warn('Could not load noise profile:', err);
+    return null;
+  }
+};
+
+export const saveNoiseProfile = (profile: NoiseProfile | null) => {
+  try {
+    if (profile) {
+      localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+    } else {
+      localStorage.removeItem(PROFILE_STORAGE_KEY);
+    }
+  } catch (err) {
+    console.warn('Could not save noise profile:', err);
+  }
+};
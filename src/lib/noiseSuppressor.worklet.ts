@@ -0,0 +1,50 @@
+// AudioWorklet processor wrapping the spectral gate; loaded through noiseSuppression.ts
+import { createSpectralGate } from './spectralGate';
+
+// AudioWorkletGlobalScope isn't part of the DOM typings
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(name: string, processor: new () => AudioWorkletProcessor): void;
+
+export type NoiseSuppressorMessage =
+  | { type: 'learn'; seconds: number }
+  | { type: 'set-profile'; bins: number[] | null };
+
+export type NoiseSuppressorEvent = { type: 'learned'; bins: number[] };
+
+class NoiseSuppressorProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'strength', defaultValue: 0.5, minValue: 0, maxValue: 1, automationRate: 'k-rate' }];
+  }
+
+  private gate = createSpectralGate();
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<NoiseSuppressorMessage>) => {
+      const message = event.data;
+      if (message.type === 'learn') {
+        this.gate.learn(sampleRate, message.seconds, bins => {
+          this.port.postMessage({ type: 'learned', bins } satisfies NoiseSuppressorEvent);
+        });
+      } else if (message.type === 'set-profile') {
+        this.gate.setProfile(message.bins);
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>) {
+    // The mic chain is mono; an unconnected input still has to advance the gate's delay line
+    const input = inputs[0]?.[0];
+    const output = outputs[0][0];
+    this.gate.process(input ?? new Float32Array(output.length), output, parameters.strength[0]);
+    for (let channel = 1; channel < outputs[0].length; channel++) {
+      outputs[0][channel].set(output);
+    }
+    return true;
+  }
+}
+
+registerProcessor('noise-suppressor', NoiseSuppressorProcessor);
@@ -0,0 +1,271 @@
+// Finds private details such as emails, card numbers, phone numbers and API
+// keys in a recording by reading the text in sampled frames, and suggests
+// redaction boxes for them. Recognition runs on the device; the OCR engine and
+// its English model are served from the app's own origin.
+import type { Line, Worker as TextRecognizer } from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import coreSimdUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import englishModelUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import type { RedactionKeyframe } from '@/lib/redaction';
+
+export type PiiKind = 'email' | 'card' | 'phone' | 'token';
+
+export const PII_LABELS: Record<PiiKind, string> = {
+  email: 'Email',
+  card: 'Card number',
+  phone: 'Phone number',
+  token: 'Key or token',
+};
+
+// Something that looked private, followed across the frames it was read in
+export interface PiiSuggestion {
+  id: string;
+  kind: PiiKind;
+  preview: string; // the match with most of it masked, so the list itself doesn't leak it
+  startTime: number; // source times
+  endTime: number;
+  keyframes: RedactionKeyframe[]; // where it was in each sampled frame
+}
+
+export interface PiiScanOptions {
+  interval: number; // seconds between sampled frames
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0-1
+}
+
+export const DEFAULT_PII_SCAN_INTERVAL = 2;
+
+const SEEK_TIMEOUT_MS = 8000;
+// Recognition is slow on large frames and small text is lost on small ones
+const MAX_FRAME_WIDTH = 1920;
+// Room around the recognized words, as a fraction of the line height
+const BOX_PADDING = 0.35;
+const MIN_WORD_CONFIDENCE = 40;
+
+const PII_PATTERNS: { kind: PiiKind; pattern: RegExp; accept?: (match: string) => boolean }[] = [
+  { kind: 'email', pattern: /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi },
+  { kind: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: match => isLuhnValid(match.replace(/\D/g, '')) },
+  {
+    kind: 'token',
+    // Well-known key prefixes, JWTs, and long mixed letter-and-digit strings
+    pattern: /\b(?:(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{10,}|gh[pousr]_[A-Za-z0-9]{20,}|AKIA[0-9A-Z]{16}|xox[abpr]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35}|eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}|(?=[A-Za-z0-9_-]*\d)(?=[A-Za-z0-9_-]*[A-Za-z])[A-Za-z0-9_-]{32,})/g,
+  },
+  { kind: 'phone', pattern: /(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)[ .-]?|\b\d{2,4}[ .-])\d{3,4}[ .-]?\d{3,4}\b/g },
+];
+
+// Card numbers carry a Luhn check digit, which rules out most other long numbers
+const isLuhnValid = (digits: string) => {
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const maskMatch = (text: string) =>
+  text.length <= 4 ? '•'.repeat(text.length) : `${text.slice(0, 2)}${'•'.repeat(Math.min(8, text.length - 4))}${text.slice(-2)}`;
+
+interface PiiMatch {
+  kind: PiiKind;
+  text: string;
+  box: { x0: number; y0: number; x1: number; y1: number }; // pixels of the sampled frame
+}
+
+/**
+ * Runs the patterns over one recognized line. Card and phone numbers span
+ * several words, so the words are joined back up and each match is boxed by
+ * the words it touches. The first pattern to claim a stretch of text wins.
+ */
+export const findPiiInLine = (line: Pick<Line, 'words'>): PiiMatch[] => {
+  const words = line.words.filter(word => word.confidence >= MIN_WORD_CONFIDENCE && word.text.trim());
+  const ranges: { start: number; end: number }[] = [];
+  let text = '';
+  words.forEach(word => {
+    if (text) text += ' ';
+    ranges.push({ start: text.length, end: text.length + word.text.length });
+    text += word.text;
+  });
+
+  const matches: PiiMatch[] = [];
+  const claimed: { start: number; end: number }[] = [];
+  PII_PATTERNS.forEach(({ kind, pattern, accept }) => {
+    for (const match of text.matchAll(pattern)) {
+      const value = match[0].trim();
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (!value || (accept && !accept(value))) continue;
+      if (claimed.some(range => start < range.end && end > range.start)) continue;
+      claimed.push({ start, end });
+
+      const touched = words.filter((_, i) => ranges[i].start < end && ranges[i].end > start);
+      if (touched.length === 0) continue;
+      matches.push({
+        kind,
+        text: value,
+        box: {
+          x0: Math.min(...touched.map(word => word.bbox.x0)),
+          y0: Math.min(...touched.map(word => word.bbox.y0)),
+          x1: Math.max(...touched.map(word => word.bbox.x1)),
+          y1: Math.max(...touched.map(word => word.bbox.y1)),
+        },
+      });
+    }
+  });
+  return matches;
+};
+
+let recognizerPromise: Promise<TextRecognizer> | null = null;
+
+const isSimdSupported = () =>
+  WebAssembly.validate(new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]));
+
+/**
+ * Loads the OCR engine once per page. The model is looked up by file name in
+ * `langPath`, which is why the build keeps that file's name unhashed.
+ */
+export const loadTextRecognizer = (): Promise<TextRecognizer> => {
+  if (!recognizerPromise) {
+    recognizerPromise = (async () => {
+      const { createWorker, OEM } = await import('tesseract.js');
+      const absolute = (url: string) => new URL(url, window.location.href).href;
+      return createWorker('eng', OEM.LSTM_ONLY, {
+        workerPath: absolute(workerUrl),
+        workerBlobURL: false,
+        corePath: absolute(isSimdSupported() ? coreSimdUrl : coreUrl),
+        langPath: absolute(englishModelUrl).replace(/\/[^/]*$/, ''),
+        gzip: true,
+        // The model is already cached by the service worker with the rest of the app
+        cacheMethod: 'none',
+      });
+    })();
+    // Let a later attempt retry instead of caching the failure
+    recognizerPromise.catch(() => {
+      recognizerPromise = null;
+    });
+  }
+  return recognizerPromise;
+};
+
+const waitForEvent = (video: HTMLVideoElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, SEEK_TIMEOUT_MS);
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('Video could not be decoded'));
+    };
+    const cleanup = () => {
+      window.clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+interface PiiTrack {
+  kind: PiiKind;
+  text: string;
+  keyframes: RedactionKeyframe[];
+  lastSample: number;
+}
+
+/**
+ * Reads the text in a frame every `interval` seconds and returns what looked
+ * private. A match seen again in the next sample, even somewhere else after a
+ * scroll, continues the same suggestion with another keyframe. Anything on
+ * screen only between two samples is missed, so suggestions start and end
+ * half an interval around the samples they were seen in.
+ */
+export async function scanForPii(url: string, duration: number, options: PiiScanOptions): Promise<PiiSuggestion[]> {
+  const { interval, signal, onProgress } = options;
+  const recognizer = await loadTextRecognizer();
+
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+
+    const scale = Math.min(1, MAX_FRAME_WIDTH / (video.videoWidth || MAX_FRAME_WIDTH));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+    canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+
+    const times: number[] = [];
+    for (let time = Math.min(interval / 2, duration / 2); time < duration; time += interval) times.push(time);
+    const tracks: PiiTrack[] = [];
+
+    for (let sample = 0; sample < times.length; sample++) {
+      if (signal?.aborted) throw new DOMException('Scan cancelled', 'AbortError');
+      const time = times[sample];
+      const seeked = waitForEvent(video, 'seeked');
+      video.currentTime = time;
+      await seeked;
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      const { data } = await recognizer.recognize(canvas, {}, { blocks: true, text: false });
+      const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+
+      lines.flatMap(line => findPiiInLine(line)).forEach(match => {
+        const padding = (match.box.y1 - match.box.y0) * BOX_PADDING;
+        const x = Math.max(0, match.box.x0 - padding) / canvas.width;
+        const y = Math.max(0, match.box.y0 - padding) / canvas.height;
+        const keyframe: RedactionKeyframe = {
+          time,
+          x,
+          y,
+          width: Math.min(1, (match.box.x1 + padding) / canvas.width) - x,
+          height: Math.min(1, (match.box.y1 + padding) / canvas.height) - y,
+        };
+
+        // Continue the closest track that saw the same text in the previous sample
+        const candidates = tracks.filter(track =>
+          track.kind === match.kind && track.text === match.text && track.lastSample === sample - 1
+        );
+        const last = (track: PiiTrack) => track.keyframes[track.keyframes.length - 1];
+        const distance = (track: PiiTrack) => Math.hypot(last(track).x - keyframe.x, last(track).y - keyframe.y);
+        const track = candidates.sort((a, b) => distance(a) - distance(b))[0];
+        if (track) {
+          track.keyframes.push(keyframe);
+          track.lastSample = sample;
+        } else {
+          tracks.push({ kind: match.kind, text: match.text, keyframes: [keyframe], lastSample: sample });
+        }
+      });
+
+      onProgress?.((sample + 1) / times.length);
+    }
+
+    return tracks.map((track, index) => ({
+      id: `pii-${Date.now()}-${index}`,
+      kind: track.kind,
+      preview: maskMatch(track.text),
+      startTime: Math.max(0, track.keyframes[0].time - interval / 2),
+      endTime: Math.min(duration, track.keyframes[track.keyframes.length - 1].time + interval / 2),
+      keyframes: track.keyframes,
+    }));
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
@@ -0,0 +1,207 @@
+// Privacy redaction in the editor: boxes over parts of the frame that are
+// pixelated, blurred or painted over between two source times. Keyframes let
+// a box follow something that moves, such as a row in a scrolling page.
+import type { CaptureRegion } from '@/lib/captureRegion';
+
+export type RedactionStyle = 'pixelate' | 'blur' | 'solid';
+
+// Where the box is at a source time, fractions of the frame
+export interface RedactionKeyframe extends CaptureRegion {
+  time: number;
+}
+
+export interface RedactionRegion {
+  id: string;
+  startTime: number; // source times
+  endTime: number;
+  style: RedactionStyle;
+  color: string; // fill for solid boxes
+  keyframes: RedactionKeyframe[]; // sorted by time, never empty; the box moves linearly between them
+}
+
+export const REDACTION_STYLES: { value: RedactionStyle; label: string }[] = [
+  { value: 'pixelate', label: 'Pixelate' },
+  { value: 'blur', label: 'Blur' },
+  { value: 'solid', label: 'Solid' },
+];
+
+export const REDACTION_COLORS = ['#000000', '#ffffff', '#6b7280', '#ef4444'];
+
+// Keyframes closer together than this are the same keyframe; about one frame
+const KEYFRAME_TOLERANCE_SECONDS = 1 / 30;
+const MIN_BOX_SIZE = 0.01;
+
+export const createRedactionRegionId = () => `redaction-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createRedactionRegion = (
+  startTime: number,
+  endTime: number,
+  box: CaptureRegion = { x: 0.35, y: 0.45, width: 0.3, height: 0.1 }
+): RedactionRegion => ({
+  id: createRedactionRegionId(),
+  startTime,
+  endTime,
+  style: 'pixelate',
+  color: REDACTION_COLORS[0],
+  keyframes: [{ time: startTime, ...box }],
+});
+
+export const isRedactionVisible = (region: Pick<RedactionRegion, 'startTime' | 'endTime'>, time: number) =>
+  time >= region.startTime && time <= region.endTime;
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+// The box at a source time; it holds still before the first keyframe and after the last
+export const getRedactionBox = (region: Pick<RedactionRegion, 'keyframes'>, time: number): CaptureRegion => {
+  const { keyframes } = region;
+  const nextIndex = keyframes.findIndex(keyframe => keyframe.time > time);
+  if (nextIndex === 0) return keyframes[0];
+  if (nextIndex === -1) return keyframes[keyframes.length - 1];
+
+  const previous = keyframes[nextIndex - 1];
+  const next = keyframes[nextIndex];
+  const t = (time - previous.time) / (next.time - previous.time);
+  return {
+    x: lerp(previous.x, next.x, t),
+    y: lerp(previous.y, next.y, t),
+    width: lerp(previous.width, next.width, t),
+    height: lerp(previous.height, next.height, t),
+  };
+};
+
+export const findRedactionKeyframe = (region: RedactionRegion, time: number) =>
+  region.keyframes.find(keyframe => Math.abs(keyframe.time - time) < KEYFRAME_TOLERANCE_SECONDS) ?? null;
+
+// Keeps the box inside the frame and big enough to grab
+export const clampRedactionBox = (box: CaptureRegion): CaptureRegion => {
+  const width = Math.min(1, Math.max(MIN_BOX_SIZE, box.width));
+  const height = Math.min(1, Math.max(MIN_BOX_SIZE, box.height));
+  return {
+    x: Math.min(1 - width, Math.max(0, box.x)),
+    y: Math.min(1 - height, Math.max(0, box.y)),
+    width,
+    height,
+  };
+};
+
+// Places the box at `time`, replacing a keyframe already there or adding one
+export const setRedactionKeyframe = (region: RedactionRegion, time: number, box: CaptureRegion): RedactionRegion => {
+  const keyframe = { time, ...clampRedactionBox(box) };
+  const existing = findRedactionKeyframe(region, time);
+  const keyframes = existing
+    ? region.keyframes.map(k => (k === existing ? { ...keyframe, time: existing.time } : k))
+    : [...region.keyframes, keyframe].sort((a, b) => a.time - b.time);
+  return { ...region, keyframes };
+};
+
+// The last keyframe stays, so a region always has a box
+export const removeRedactionKeyframe = (region: RedactionRegion, time: number): RedactionRegion => {
+  if (region.keyframes.length <= 1) return region;
+  return { ...region, keyframes: region.keyframes.filter(keyframe => keyframe.time !== time) };
+};
+
+// Scratch canvas for pixelating and blurring, reused across frames
+let scratch: HTMLCanvasElement | null = null;
+
+const getScratch = (width: number, height: number) => {
+  if (!scratch) scratch = document.createElement('canvas');
+  if (scratch.width !== width) scratch.width = width;
+  if (scratch.height !== height) scratch.height = height;
+  return scratch;
+};
+
+/**
+ * Draws the regions visible at `time` over a `width` x `height` frame, under
+ * whatever transform `ctx` already has. Pixels are taken from `video`, for a
+ * preview drawn over it, or else from what is already on the canvas. The
+ * content is shrunk to a few pixels per box before it is scaled back up, so
+ * pixelated and blurred boxes can't be sharpened back into the original.
+ */
+export const drawRedactions = (
+  ctx: CanvasRenderingContext2D,
+  regions: RedactionRegion[],
+  time: number,
+  width: number,
+  height: number,
+  video?: HTMLVideoElement
+) => {
+  const transform = ctx.getTransform();
+  // Block size in output pixels, so boxes look the same at any zoom
+  const blockSize = Math.max(6, Math.round(ctx.canvas.height * 0.02));
+
+  regions.forEach(region => {
+    if (!isRedactionVisible(region, time)) return;
+    const box = getRedactionBox(region, time);
+
+    // The box on the canvas itself; zooms only scale and translate, so it stays a rectangle
+    const topLeft = transform.transformPoint({ x: box.x * width, y: box.y * height });
+    const bottomRight = transform.transformPoint({ x: (box.x + box.width) * width, y: (box.y + box.height) * height });
+    const x = Math.round(Math.min(topLeft.x, bottomRight.x));
+    const y = Math.round(Math.min(topLeft.y, bottomRight.y));
+    const w = Math.round(Math.abs(bottomRight.x - topLeft.x));
+    const h = Math.round(Math.abs(bottomRight.y - topLeft.y));
+    if (w < 1 || h < 1) return;
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    if (region.style === 'solid') {
+      ctx.fillStyle = region.color;
+      ctx.fillRect(x, y, w, h);
+      ctx.restore();
+      return;
+    }
+
+    // Blur keeps more blocks than pixelate and smooths between them
+    const cellSize = region.style === 'blur' ? blockSize / 2 : blockSize;
+    const columns = Math.max(1, Math.round(w / cellSize));
+    const rows = Math.max(1, Math.round(h / cellSize));
+    const cells = getScratch(columns, rows);
+    const cellsCtx = cells.getContext('2d');
+    if (!cellsCtx) {
+      ctx.restore();
+      return;
+    }
+    cellsCtx.imageSmoothingEnabled = true;
+    cellsCtx.clearRect(0, 0, columns, rows);
+    if (video) {
+      cellsCtx.drawImage(
+        video,
+        box.x * video.videoWidth,
+        box.y * video.videoHeight,
+        box.width * video.videoWidth,
+        box.height * video.videoHeight,
+        0,
+        0,
+        columns,
+        rows
+      );
+    } else {
+      cellsCtx.drawImage(ctx.canvas, x, y, w, h, 0, 0, columns, rows);
+    }
+
+    if (region.style === 'pixelate') {
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(cells, 0, 0, columns, rows, x, y, w, h);
+    } else {
+      ctx.beginPath();
+      ctx.rect(x, y, w, h);
+      ctx.clip();
+      ctx.imageSmoothingEnabled = true;
+      ctx.drawImage(cells, 0, 0, columns, rows, x, y, w, h);
+      // A second, filtered pass softens the block edges; the first keeps the box opaque at its edges
+      ctx.filter = `blur(${cellSize}px)`;
+      ctx.drawImage(cells, 0, 0, columns, rows, x, y, w, h);
+    }
+    ctx.restore();
+  });
+};
+
+export const clampRedactionRegions = (regions: RedactionRegion[], duration: number) =>
+  regions
+    .map(region => ({
+      ...region,
+      startTime: Math.max(0, Math.min(region.startTime, duration)),
+      endTime: Math.max(0, Math.min(region.endTime, duration)),
+    }))
+    .filter(region => region.endTime > region.startTime && region.keyframes.length > 0);
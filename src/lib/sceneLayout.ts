@@ -0,0 +1,167 @@
+// How the screen and camera share the recorded frame, and the animated switch between layouts
+import type { LayerTransform } from '@/lib/compositor';
+import type { WebcamRect } from '@/lib/webcamLayout';
+
+export type SceneLayout = 'screen' | 'camera' | 'side-by-side' | 'screen-pip';
+
+export const SCENE_LAYOUTS: { id: SceneLayout; label: string; needsScreen: boolean; needsCamera: boolean }[] = [
+  { id: 'screen', label: 'Screen', needsScreen: true, needsCamera: false },
+  { id: 'camera', label: 'Camera only', needsScreen: false, needsCamera: true },
+  { id: 'side-by-side', label: 'Side by side', needsScreen: true, needsCamera: true },
+  { id: 'screen-pip', label: 'Screen in corner', needsScreen: true, needsCamera: true },
+];
+
+// Canvas pixels; the screen keeps the canvas's aspect ratio in every layout
+export interface Placement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+  opacity: number;
+}
+
+export interface SceneFrame {
+  screen: Placement;
+  camera: Placement;
+  cameraChrome: number; // 0-1, how much of the webcam border and shadow to draw
+  screenOnTop: boolean; // the screen sits over the full-frame camera in the corner layout, and while switching to or from it
+}
+
+export interface SceneAnimator {
+  getLayout: () => SceneLayout;
+  setLayout: (layout: SceneLayout, now: number) => void;
+  // `bubble` is the webcam's free-positioned rect, used by the plain screen layout
+  getFrame: (now: number, width: number, height: number, bubble: WebcamRect | null, showBubble: boolean) => SceneFrame;
+}
+
+const TRANSITION_MS = 450;
+const SIDE_BY_SIDE_SCREEN_SCALE = 0.64;
+const PIP_SCREEN_SCALE = 0.28;
+const PANEL_RADIUS = 12;
+
+export const getAvailableLayouts = (hasScreen: boolean, hasCamera: boolean): SceneLayout[] =>
+  SCENE_LAYOUTS
+    .filter(layout => (!layout.needsScreen || hasScreen) && (!layout.needsCamera || hasCamera))
+    .map(layout => layout.id);
+
+// The layout after `current`, wrapping around; used by the cycle button and hotkey
+export const getNextLayout = (current: SceneLayout, available: SceneLayout[]): SceneLayout =>
+  available[(available.indexOf(current) + 1) % available.length] ?? current;
+
+export const getLayoutLabel = (layout: SceneLayout) =>
+  SCENE_LAYOUTS.find(option => option.id === layout)?.label ?? layout;
+
+const fullFrame = (width: number, height: number, opacity: number): Placement => ({
+  x: 0, y: 0, width, height, radius: 0, opacity,
+});
+
+const getSceneTarget = (
+  layout: SceneLayout,
+  width: number,
+  height: number,
+  bubble: WebcamRect | null,
+  showBubble: boolean
+): SceneFrame => {
+  switch (layout) {
+    case 'camera':
+      return { screen: fullFrame(width, height, 0), camera: fullFrame(width, height, 1), cameraChrome: 0, screenOnTop: false };
+
+    case 'side-by-side': {
+      const gap = width * 0.02;
+      const screenWidth = width * SIDE_BY_SIDE_SCREEN_SCALE;
+      const panelHeight = height * SIDE_BY_SIDE_SCREEN_SCALE;
+      const y = (height - panelHeight) / 2;
+      const cameraX = gap * 2 + screenWidth;
+      return {
+        screen: { x: gap, y, width: screenWidth, height: panelHeight, radius: 0, opacity: 1 },
+        camera: { x: cameraX, y, width: width - cameraX - gap, height: panelHeight, radius: PANEL_RADIUS, opacity: 1 },
+        cameraChrome: 1,
+        screenOnTop: false,
+      };
+    }
+
+    case 'screen-pip': {
+      const margin = Math.min(width, height) * 0.03;
+      const screenWidth = width * PIP_SCREEN_SCALE;
+      const screenHeight = height * PIP_SCREEN_SCALE;
+      return {
+        screen: { x: width - screenWidth - margin, y: height - screenHeight - margin, width: screenWidth, height: screenHeight, radius: 0, opacity: 1 },
+        camera: fullFrame(width, height, 1),
+        cameraChrome: 0,
+        screenOnTop: true,
+      };
+    }
+
+    case 'screen':
+    default:
+      return {
+        screen: fullFrame(width, height, 1),
+        camera: bubble ? { ...bubble, opacity: showBubble ? 1 : 0 } : fullFrame(width, height, 0),
+        cameraChrome: 1,
+        screenOnTop: false,
+      };
+  }
+};
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+const lerpPlacement = (from: Placement, to: Placement, t: number): Placement => ({
+  x: lerp(from.x, to.x, t),
+  y: lerp(from.y, to.y, t),
+  width: lerp(from.width, to.width, t),
+  height: lerp(from.height, to.height, t),
+  radius: lerp(from.radius, to.radius, t),
+  opacity: lerp(from.opacity, to.opacity, t),
+});
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+/**
+ * Tracks the active layout and blends from wherever the scene was when the
+ * layout last changed. The target is recomputed every frame, so the webcam
+ * bubble can keep moving while a transition runs.
+ */
+export const createSceneAnimator = (initial: SceneLayout): SceneAnimator => {
+  let layout = initial;
+  let from: SceneFrame | null = null;
+  let changedAt = 0;
+  let last: SceneFrame | null = null;
+
+  return {
+    getLayout: () => layout,
+    setLayout: (next, now) => {
+      if (next === layout) return;
+      layout = next;
+      from = last;
+      changedAt = now;
+    },
+    getFrame: (now, width, height, bubble, showBubble) => {
+      const target = getSceneTarget(layout, width, height, bubble, showBubble);
+      const progress = Math.min(1, Math.max(0, (now - changedAt) / TRANSITION_MS));
+
+      if (!from || progress >= 1) {
+        from = null;
+        last = target;
+        return target;
+      }
+
+      const t = easeInOutCubic(progress);
+      last = {
+        screen: lerpPlacement(from.screen, target.screen, t),
+        camera: lerpPlacement(from.camera, target.camera, t),
+        cameraChrome: lerp(from.cameraChrome, target.cameraChrome, t),
+        screenOnTop: from.screenOnTop || target.screenOnTop,
+      };
+      return last;
+    },
+  };
+};
+
+// The screen layer draws the whole canvas, so its placement becomes a layer transform
+export const toLayerTransform = (placement: Placement, width: number, height: number): LayerTransform => ({
+  x: placement.x / width,
+  y: placement.y / height,
+  scale: placement.width / width,
+  opacity: placement.opacity,
+});
@@ -0,0 +1,206 @@
+// localStorage helper for persisting recording settings and named presets
+import type { RecordingSettings } from '@/contexts/RecordingContext';
+
+const STORAGE_KEY = 'flowrec-recording-settings';
+
+/**
+ * Bump SETTINGS_VERSION whenever a stored field is renamed, removed or changes
+ * meaning, and add a migration that upgrades data saved by the previous version.
+ * Purely additive fields need no migration: missing keys fall back to defaults.
+ */
+export const SETTINGS_VERSION = 1;
+
+type StoredSettings = Record<string, unknown>;
+
+// migrations[n] upgrades settings saved at version n to version n + 1
+const migrations: Record<number, (settings: StoredSettings) => StoredSettings> = {};
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: Partial<RecordingSettings>;
+  builtIn?: boolean;
+}
+
+interface SettingsEnvelope {
+  version: number;
+  settings: StoredSettings;
+  presets: Array<Omit<SettingsPreset, 'settings'> & { settings: StoredSettings }>;
+}
+
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  {
+    id: 'builtin-bug-report',
+    name: 'Bug report',
+    builtIn: true,
+    settings: {
+      screenSource: 'tab',
+      audioSource: 'mic',
+      cameraEnabled: false,
+      quality: '1080p',
+      fps: 30,
+      showCursor: true,
+      clickAnimation: true,
+      cursorSpotlight: false,
+      keystrokeDisplay: true,
+    },
+  },
+  {
+    id: 'builtin-tutorial',
+    name: 'Tutorial',
+    builtIn: true,
+    settings: {
+      screenSource: 'screen',
+      audioSource: 'both',
+      cameraEnabled: true,
+      cameraShape: 'circle',
+      quality: '1080p',
+      fps: 60,
+      showCursor: true,
+      clickAnimation: true,
+      cursorSpotlight: true,
+      keystrokeDisplay: true,
+      webcamSize: 'medium',
+      webcamCorner: 'bottom-right',
+    },
+  },
+  {
+    id: 'builtin-presentation',
+    name: 'Presentation',
+    builtIn: true,
+    settings: {
+      screenSource: 'window',
+      audioSource: 'mic',
+      cameraEnabled: true,
+      cameraShape: 'rounded',
+      quality: '1080p',
+      fps: 30,
+      showCursor: false,
+      clickAnimation: false,
+      cursorSpotlight: false,
+      keystrokeDisplay: false,
+      webcamSize: 'large',
+      webcamCorner: 'bottom-right',
+    },
+  },
+];
+
+// Specific to this browser: devices are known by per-site ids and the background image lives in IndexedDB
+const DEVICE_SPECIFIC_SETTINGS: Array<keyof RecordingSettings> = ['micDeviceId', 'cameraDeviceId', 'webcamBackgroundImage'];
+
+// The part of the settings a preset keeps
+export function toPresetSettings(settings: Partial<RecordingSettings>): Partial<RecordingSettings> {
+  const result = { ...settings };
+  DEVICE_SPECIFIC_SETTINGS.forEach(key => delete result[key]);
+  return result;
+}
+
+function migrate(settings: StoredSettings, fromVersion: number): StoredSettings {
+  let migrated = settings;
+  for (let version = fromVersion; version < SETTINGS_VERSION; version++) {
+    const step = migrations[version];
+    if (step) migrated = step(migrated);
+  }
+  return migrated;
+}
+
+// Settings that take one of a fixed set of values; anything else stored for them is dropped
+const SETTING_CHOICES: { [K in keyof RecordingSettings]?: readonly RecordingSettings[K][] } = {
+  screenSource: ['screen', 'window', 'tab'],
+  recordingLayout: ['screen', 'camera', 'side-by-side', 'screen-pip'],
+  audioSource: ['mic', 'system', 'both', 'none'],
+  cameraShape: ['circle', 'rounded', 'square'],
+  quality: ['720p', '1080p', '2k'],
+  fps: [30, 60],
+  keystrokePosition: ['bottom-center', 'bottom-left', 'bottom-right', 'top-center'],
+  keystrokeSize: ['small', 'medium', 'large'],
+  keystrokeTheme: ['dark', 'light'],
+  webcamSize: ['small', 'medium', 'large'],
+  webcamCorner: ['bottom-right', 'bottom-left', 'top-right', 'top-left'],
+  webcamBackground: ['none', 'blur', 'image'],
+};
+
+// Keep only known keys whose stored value has the same type as the default, and is one of its choices if it has them
+function sanitize(stored: StoredSettings, defaults: RecordingSettings): Partial<RecordingSettings> {
+  const result: Record<string, unknown> = {};
+  (Object.keys(defaults) as Array<keyof RecordingSettings>).forEach((key) => {
+    const value = stored[key];
+    const choices: readonly unknown[] | undefined = SETTING_CHOICES[key];
+    if (value === undefined || typeof value !== typeof defaults[key]) return;
+    if (choices && !choices.includes(value)) return;
+    result[key] = value;
+  });
+  return result as Partial<RecordingSettings>;
+}
+
+function readEnvelope(): SettingsEnvelope | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const parsed = JSON.parse(raw) as Partial<SettingsEnvelope>;
+    if (typeof parsed.version !== 'number' || typeof parsed.settings !== 'object' || parsed.settings === null) {
+      return null;
+    }
+    return {
+      version: parsed.version,
+      settings: parsed.settings,
+      presets: Array.isArray(parsed.presets) ? parsed.presets : [],
+    };
+  } catch (err) {
+    console.warn('Failed to read stored settings:', err);
+    return null;
+  }
+}
+
+function writeEnvelope(envelope: SettingsEnvelope): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+    return true;
+  } catch (err) {
+    console.warn('Failed to persist settings:', err);
+    return false;
+  }
+}
+
+export function loadStoredSettings(defaults: RecordingSettings): {
+  settings: RecordingSettings;
+  presets: SettingsPreset[];
+} {
+  const envelope = readEnvelope();
+  // Data written by a newer build can't be safely downgraded; it is left as it is, see saveStoredSettings
+  if (!envelope || envelope.version > SETTINGS_VERSION) {
+    return { settings: defaults, presets: BUILT_IN_PRESETS };
+  }
+
+  const settings = {
+    ...defaults,
+    ...sanitize(migrate(envelope.settings, envelope.version), defaults),
+  };
+
+  const customPresets = envelope.presets
+    .filter(preset => typeof preset.id === 'string' && typeof preset.name === 'string')
+    .map(preset => ({
+      id: preset.id,
+      name: preset.name,
+      settings: toPresetSettings(sanitize(migrate(preset.settings ?? {}, envelope.version), defaults)),
+    }));
+
+  return { settings, presets: [...BUILT_IN_PRESETS, ...customPresets] };
+}
+
+// Returns false when storage refused the write, e.g. because it is full
+export function saveStoredSettings(settings: RecordingSettings, presets: SettingsPreset[]): boolean {
+  // Don't replace settings a newer build saved; changes made here last until the page is closed
+  const stored = readEnvelope();
+  if (stored && stored.version > SETTINGS_VERSION) return true;
+
+  return writeEnvelope({
+    version: SETTINGS_VERSION,
+    settings: { ...settings },
+    // Built-in presets ship with the app, only user presets are persisted
+    presets: presets
+      .filter(preset => !preset.builtIn)
+      .map(preset => ({ id: preset.id, name: preset.name, settings: { ...preset.settings } })),
+  });
+}
@@ -0,0 +1,86 @@
+// Finds dead air in a recording's audio track
+import type { SourceRange } from '@/lib/timeline';
+
+export interface SilenceDetectionOptions {
+  thresholdDb: number; // windows quieter than this count as silent
+  minDuration: number; // shorter pauses are natural speech rhythm and are kept
+  padding: number; // seconds of silence left on each side so cuts don't clip words
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceDetectionOptions = {
+  thresholdDb: -40,
+  minDuration: 1,
+  padding: 0.15,
+};
+
+// Speech level analysis doesn't need full fidelity; a low rate keeps long recordings small in memory
+const ANALYSIS_SAMPLE_RATE = 8000;
+const WINDOW_SECONDS = 0.02;
+
+/**
+ * Scans decoded audio in short windows and returns the silent stretches, in
+ * seconds, that last at least `minDuration`.
+ */
+export function findSilentRanges(audio: AudioBuffer, options: SilenceDetectionOptions): SourceRange[] {
+  const windowSize = Math.max(1, Math.round(audio.sampleRate * WINDOW_SECONDS));
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i));
+  const threshold = Math.pow(10, options.thresholdDb / 20);
+  const ranges: SourceRange[] = [];
+
+  const addRange = (start: number, end: number) => {
+    if (end - start < options.minDuration) return;
+    // Leading and trailing silence has no speech to protect
+    const paddedStart = start > 0 ? start + options.padding : start;
+    const paddedEnd = end < audio.duration ? end - options.padding : end;
+    if (paddedEnd > paddedStart) {
+      ranges.push({ start: paddedStart, end: paddedEnd });
+    }
+  };
+
+  let silenceStart: number | null = null;
+
+  for (let offset = 0; offset < audio.length; offset += windowSize) {
+    const end = Math.min(offset + windowSize, audio.length);
+    let sumOfSquares = 0;
+
+    for (let i = offset; i < end; i++) {
+      let sample = 0;
+      for (const channel of channels) sample += channel[i];
+      sample /= channels.length;
+      sumOfSquares += sample * sample;
+    }
+
+    const rms = Math.sqrt(sumOfSquares / (end - offset));
+    const time = offset / audio.sampleRate;
+
+    if (rms < threshold) {
+      if (silenceStart === null) silenceStart = time;
+    } else if (silenceStart !== null) {
+      addRange(silenceStart, time);
+      silenceStart = null;
+    }
+  }
+
+  if (silenceStart !== null) {
+    addRange(silenceStart, audio.duration);
+  }
+
+  return ranges;
+}
+
+// Decodes the audio track of a video file and returns its silent stretches
+export async function detectSilences(
+  data: ArrayBuffer,
+  options: SilenceDetectionOptions = DEFAULT_SILENCE_OPTIONS
+): Promise<SourceRange[]> {
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+
+  let audio: AudioBuffer;
+  try {
+    audio = await context.decodeAudioData(data);
+  } catch {
+    throw new Error('This video has no audio track that can be analyzed');
+  }
+
+  return findSilentRanges(audio, options);
+}
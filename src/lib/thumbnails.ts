@@ -0,0 +1,128 @@
+// Poster frames and hover-scrub sprite sheets for recordings
+import type { ThumbnailSprite } from '@/contexts/RecordingContext';
+
+const POSTER_WIDTH = 480;
+const SPRITE_FRAME_WIDTH = 192;
+const SPRITE_FRAME_COUNT = 12;
+const JPEG_QUALITY = 0.72;
+const SEEK_TIMEOUT_MS = 4000;
+
+const scaledSize = (sourceWidth: number, sourceHeight: number, targetWidth: number) => {
+  const width = Math.min(targetWidth, sourceWidth || targetWidth);
+  const aspect = sourceWidth && sourceHeight ? sourceHeight / sourceWidth : 9 / 16;
+  return { width: Math.round(width), height: Math.round(width * aspect) };
+};
+
+/**
+ * Snapshot of whatever the source currently shows, scaled down to poster size.
+ * Used with the composite canvas right before a recording is torn down.
+ */
+export function capturePosterFrame(source: HTMLCanvasElement | HTMLVideoElement): string | undefined {
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  if (!sourceWidth || !sourceHeight) return undefined;
+
+  const { width, height } = scaledSize(sourceWidth, sourceHeight, POSTER_WIDTH);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+
+  try {
+    ctx.drawImage(source, 0, 0, width, height);
+    return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  } catch (err) {
+    console.warn('Could not capture poster frame:', err);
+    return undefined;
+  }
+}
+
+const waitForEvent = (video: HTMLVideoElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for ${event}`));
+    }, SEEK_TIMEOUT_MS);
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error('Video could not be decoded'));
+    };
+    const cleanup = () => {
+      window.clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+/**
+ * Seeks through the recording and draws evenly spaced frames into a single
+ * horizontal sprite sheet. The first frame doubles as the poster when the
+ * recording has none yet.
+ *
+ * MediaRecorder WebM files often report an infinite duration, so the stored
+ * recording duration is used to pick seek targets in that case.
+ */
+export async function generateThumbnailsFromBlob(
+  blob: Blob,
+  knownDuration: number
+): Promise<{ thumbnail?: string; sprite?: ThumbnailSprite }> {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+
+    const duration = isFinite(video.duration) && video.duration > 0 ? video.duration : knownDuration;
+    const frameCount = duration > 1 ? SPRITE_FRAME_COUNT : 1;
+    const { width: frameWidth, height: frameHeight } = scaledSize(video.videoWidth, video.videoHeight, SPRITE_FRAME_WIDTH);
+
+    const sheet = document.createElement('canvas');
+    sheet.width = frameWidth * frameCount;
+    sheet.height = frameHeight;
+    const ctx = sheet.getContext('2d');
+    if (!ctx) return {};
+
+    let thumbnail: string | undefined;
+
+    for (let i = 0; i < frameCount; i++) {
+      const target = frameCount === 1 ? 0 : (duration * (i + 0.5)) / frameCount;
+      if (Math.abs(video.currentTime - target) > 0.01) {
+        const seeked = waitForEvent(video, 'seeked');
+        video.currentTime = target;
+        await seeked;
+      }
+      ctx.drawImage(video, i * frameWidth, 0, frameWidth, frameHeight);
+
+      if (i === 0) {
+        thumbnail = capturePosterFrame(video);
+      }
+    }
+
+    return {
+      thumbnail,
+      sprite: {
+        imageData: sheet.toDataURL('image/jpeg', JPEG_QUALITY),
+        frameCount,
+        frameWidth,
+        frameHeight,
+      },
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
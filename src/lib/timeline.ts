@@ -0,0 +1,204 @@
+// Segment math for the VideoEditor cut/splice timeline.
+// "Source time" is a position in the original video, "timeline time" is a
+// position in the edited output where kept segments play back to back, each
+// at its own speed.
+
+export interface TimelineSegment {
+  id: string;
+  sourceStart: number;
+  sourceEnd: number;
+  speed?: number; // playback rate multiplier, 1 when omitted
+}
+
+export interface SourceRange {
+  start: number;
+  end: number;
+}
+
+// Splits closer than this to a segment edge would leave an unusable sliver
+export const MIN_SEGMENT_DURATION = 0.1;
+
+export const createSegmentId = () => `seg-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createSegment = (sourceStart: number, sourceEnd: number): TimelineSegment => ({
+  id: createSegmentId(),
+  sourceStart,
+  sourceEnd,
+});
+
+export const getSegmentSpeed = (segment: TimelineSegment) =>
+  segment.speed && segment.speed > 0 ? segment.speed : 1;
+
+// Length of source material the segment covers
+export const getSegmentDuration = (segment: TimelineSegment) =>
+  Math.max(0, segment.sourceEnd - segment.sourceStart);
+
+// Time the segment takes in the edited output
+export const getSegmentOutputDuration = (segment: TimelineSegment) =>
+  getSegmentDuration(segment) / getSegmentSpeed(segment);
+
+export const getTimelineDuration = (segments: TimelineSegment[]) =>
+  segments.reduce((total, segment) => total + getSegmentOutputDuration(segment), 0);
+
+/**
+ * Index of the segment playing the given source time. Segments may overlap
+ * after reordering, so the preferred index wins when it contains the time.
+ */
+export const findSegmentIndex = (segments: TimelineSegment[], sourceTime: number, preferredIndex = -1) => {
+  const contains = (segment: TimelineSegment) =>
+    sourceTime >= segment.sourceStart && sourceTime < segment.sourceEnd;
+
+  if (preferredIndex >= 0 && preferredIndex < segments.length && contains(segments[preferredIndex])) {
+    return preferredIndex;
+  }
+  return segments.findIndex(contains);
+};
+
+export const getSegmentTimelineStart = (segments: TimelineSegment[], index: number) =>
+  getTimelineDuration(segments.slice(0, index));
+
+// Timeline position of a source time, or null when that moment was cut out
+export const sourceToTimelineTime = (segments: TimelineSegment[], sourceTime: number, preferredIndex = -1) => {
+  const index = findSegmentIndex(segments, sourceTime, preferredIndex);
+  if (index === -1) return null;
+  const segment = segments[index];
+  return getSegmentTimelineStart(segments, index) + (sourceTime - segment.sourceStart) / getSegmentSpeed(segment);
+};
+
+export const timelineToSourceTime = (segments: TimelineSegment[], timelineTime: number) => {
+  let remaining = Math.max(0, timelineTime);
+
+  for (let index = 0; index < segments.length; index++) {
+    const segment = segments[index];
+    const duration = getSegmentOutputDuration(segment);
+    if (remaining < duration || index === segments.length - 1) {
+      return {
+        index,
+        sourceTime: segment.sourceStart + Math.min(remaining, duration) * getSegmentSpeed(segment),
+      };
+    }
+    remaining -= duration;
+  }
+
+  return { index: -1, sourceTime: 0 };
+};
+
+// Splits the segment at the given source time in two, or returns the list unchanged
+export const splitSegmentAt = (segments: TimelineSegment[], sourceTime: number, preferredIndex = -1) => {
+  const index = findSegmentIndex(segments, sourceTime, preferredIndex);
+  if (index === -1) return segments;
+
+  const segment = segments[index];
+  if (
+    sourceTime - segment.sourceStart < MIN_SEGMENT_DURATION ||
+    segment.sourceEnd - sourceTime < MIN_SEGMENT_DURATION
+  ) {
+    return segments;
+  }
+
+  return [
+    ...segments.slice(0, index),
+    { ...segment, sourceEnd: sourceTime },
+    { ...segment, id: createSegmentId(), sourceStart: sourceTime },
+    ...segments.slice(index + 1),
+  ];
+};
+
+// Pieces shorter than this are dropped when ranges are cut out of segments
+const MIN_PIECE_DURATION = 0.01;
+
+// Splits a segment into consecutive pieces, flagging those that fall inside any range
+const partitionSegment = (segment: TimelineSegment, ranges: SourceRange[]) => {
+  const pieces: Array<{ start: number; end: number; inRange: boolean }> = [];
+  const overlapping = ranges
+    .filter(range => range.end > segment.sourceStart && range.start < segment.sourceEnd)
+    .sort((a, b) => a.start - b.start);
+
+  let cursor = segment.sourceStart;
+  overlapping.forEach(range => {
+    const start = Math.max(range.start, cursor);
+    const end = Math.min(range.end, segment.sourceEnd);
+    if (end <= cursor) return;
+    if (start > cursor) pieces.push({ start: cursor, end: start, inRange: false });
+    pieces.push({ start, end, inRange: true });
+    cursor = end;
+  });
+  if (cursor < segment.sourceEnd) pieces.push({ start: cursor, end: segment.sourceEnd, inRange: false });
+
+  return pieces.filter(piece => piece.end - piece.start >= MIN_PIECE_DURATION);
+};
+
+// The first piece keeps the segment's id so selection survives where possible
+const piecesToSegments = (
+  segment: TimelineSegment,
+  pieces: Array<{ start: number; end: number; speed?: number }>
+): TimelineSegment[] =>
+  pieces.map((piece, i) => ({
+    ...segment,
+    id: i === 0 ? segment.id : createSegmentId(),
+    sourceStart: piece.start,
+    sourceEnd: piece.end,
+    speed: piece.speed ?? segment.speed,
+  }));
+
+// Cuts the given source ranges out of every segment
+export const removeSourceRanges = (segments: TimelineSegment[], ranges: SourceRange[]) =>
+  segments.flatMap(segment =>
+    piecesToSegments(segment, partitionSegment(segment, ranges).filter(piece => !piece.inRange))
+  );
+
+// Plays the given source ranges at a different speed, leaving the rest untouched
+export const setSourceRangesSpeed = (segments: TimelineSegment[], ranges: SourceRange[], speed: number) =>
+  segments.flatMap(segment =>
+    piecesToSegments(
+      segment,
+      partitionSegment(segment, ranges).map(piece => ({
+        start: piece.start,
+        end: piece.end,
+        speed: piece.inRange ? speed : segment.speed,
+      }))
+    )
+  );
+
+// Where a source range appears on the timeline; one entry per segment it overlaps
+export const mapSourceRangeToTimeline = (segments: TimelineSegment[], range: SourceRange): SourceRange[] => {
+  const mapped: SourceRange[] = [];
+  let timelineStart = 0;
+
+  segments.forEach(segment => {
+    const start = Math.max(range.start, segment.sourceStart);
+    const end = Math.min(range.end, segment.sourceEnd);
+    if (end > start) {
+      const speed = getSegmentSpeed(segment);
+      mapped.push({
+        start: timelineStart + (start - segment.sourceStart) / speed,
+        end: timelineStart + (end - segment.sourceStart) / speed,
+      });
+    }
+    timelineStart += getSegmentOutputDuration(segment);
+  });
+
+  return mapped;
+};
+
+export const moveSegment = (segments: TimelineSegment[], index: number, offset: number) => {
+  const target = index + offset;
+  if (index < 0 || index >= segments.length || target < 0 || target >= segments.length) {
+    return segments;
+  }
+
+  const next = [...segments];
+  const [segment] = next.splice(index, 1);
+  next.splice(target, 0, segment);
+  return next;
+};
+
+// Clamp segments into [0, duration] and drop any that end up empty
+export const clampSegments = (segments: TimelineSegment[], duration: number) =>
+  segments
+    .map(segment => ({
+      ...segment,
+      sourceStart: Math.max(0, Math.min(segment.sourceStart, duration)),
+      sourceEnd: Math.max(0, Math.min(segment.sourceEnd, duration)),
+    }))
+    .filter(segment => segment.sourceEnd - segment.sourceStart > 0);
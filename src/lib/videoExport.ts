@@ -0,0 +1,453 @@
+// Output containers for the VideoEditor export. WebM goes through MediaRecorder;
+// MP4 is encoded with WebCodecs and written by the in-app muxer, falling back
+// to MediaRecorder on browsers that can record MP4 natively. GIF and WebP are
+// silent animations built from frames read back off the export canvas.
+import { createGifEncoder } from '@/lib/gifEncoder';
+import { createMp4Muxer } from '@/lib/mp4Muxer';
+import { createWebpMuxer } from '@/lib/webpMuxer';
+
+export type ExportFormat = 'webm' | 'mp4' | 'gif' | 'webp';
+
+export const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string; description: string }> = [
+  { value: 'webm', label: 'WebM', description: 'VP9/Opus, smallest files' },
+  { value: 'mp4', label: 'MP4', description: 'H.264/AAC, plays everywhere' },
+  { value: 'gif', label: 'GIF', description: 'Animated, no audio' },
+  { value: 'webp', label: 'WebP', description: 'Animated, smaller than GIF' },
+];
+
+export const isAnimatedFormat = (format: ExportFormat) => format === 'gif' || format === 'webp';
+
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const MP4_MIME_TYPES = ['video/mp4;codecs=avc1,mp4a.40.2', 'video/mp4'];
+
+// Tried from most to least capable; High profile level 5.1 covers up to 4K
+const H264_CODECS = ['avc1.640033', 'avc1.4d0033', 'avc1.420033'];
+const AAC_CODEC = 'mp4a.40.2';
+const AUDIO_BITRATE = 128000;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+// Past this many queued frames the export waits for the encoder to catch up
+const MAX_ENCODE_QUEUE = 30;
+const WEBP_QUALITY = 0.8;
+
+// Chromium exposes this without TypeScript lib typings yet
+declare class MediaStreamTrackProcessor<T> {
+  constructor(init: { track: MediaStreamTrack });
+  readonly readable: ReadableStream<T>;
+}
+
+export const getFileExtension = (mimeType: string | undefined) => {
+  if (mimeType?.startsWith('video/mp4')) return 'mp4';
+  if (mimeType?.startsWith('audio/mp4')) return 'm4a';
+  if (mimeType?.startsWith('image/gif')) return 'gif';
+  if (mimeType?.startsWith('image/webp')) return 'webp';
+  return 'webm';
+};
+
+const pickRecorderMimeType = (candidates: string[]) =>
+  candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+const hasWebCodecs = () =>
+  typeof VideoEncoder !== 'undefined' &&
+  typeof VideoFrame !== 'undefined' &&
+  typeof AudioEncoder !== 'undefined' &&
+  typeof MediaStreamTrackProcessor !== 'undefined';
+
+const findH264Config = async (width: number, height: number, bitrate: number, frameRate: number) => {
+  for (const codec of H264_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      bitrate,
+      framerate: frameRate,
+      avc: { format: 'avc' },
+    };
+    try {
+      const { supported } = await VideoEncoder.isConfigSupported(config);
+      if (supported) return config;
+    } catch {
+      // Try the next profile
+    }
+  }
+  return null;
+};
+
+const isAacSupported = async () => {
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: AAC_CODEC,
+      sampleRate: 48000,
+      numberOfChannels: 2,
+      bitrate: AUDIO_BITRATE,
+    });
+    return !!supported;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Receives the rendered export. The editor draws into the canvas, then calls
+ * `captureFrame` with the frame's position in the exported video. `pause` and
+ * `resume` bracket seeks between segments so nothing from the jump ends up in
+ * the file.
+ */
+export interface ExportSink {
+  mimeType: string;
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  captureFrame: (outputTime: number) => void;
+  // Resolves once the encoder has caught up, or null when it isn't behind; sinks that keep up on their own leave it out
+  backlog?: () => Promise<void> | null;
+  finish: () => Promise<Blob>;
+  onerror: ((error: Error) => void) | null;
+}
+
+interface ExportSinkOptions {
+  format: ExportFormat;
+  canvas: HTMLCanvasElement;
+  audioTrack: MediaStreamTrack | null;
+  bitrate: number;
+  frameRate: number;
+  paletteSize?: number; // GIF only
+}
+
+const createMediaRecorderSink = (
+  { canvas, audioTrack, bitrate, frameRate }: ExportSinkOptions,
+  mimeType: string
+): ExportSink => {
+  const stream = canvas.captureStream(frameRate);
+  if (stream.getVideoTracks().length === 0) {
+    throw new Error('Could not capture canvas stream');
+  }
+  if (audioTrack) stream.addTrack(audioTrack);
+
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: bitrate,
+    audioBitsPerSecond: AUDIO_BITRATE,
+  });
+  const chunks: Blob[] = [];
+  const blobType = mimeType.split(';')[0];
+
+  recorder.ondataavailable = (e) => {
+    if (e.data && e.data.size > 0) chunks.push(e.data);
+  };
+
+  const sink: ExportSink = {
+    mimeType: blobType,
+    // Collect chunks periodically to reduce the chance of 0B results.
+    start: () => recorder.start(1000),
+    pause: () => {
+      if (recorder.state === 'recording') recorder.pause();
+    },
+    resume: () => {
+      if (recorder.state === 'paused') recorder.resume();
+    },
+    captureFrame: () => {
+      // captureStream picks up canvas changes by itself
+    },
+    finish: () =>
+      new Promise<Blob>((resolve) => {
+        recorder.onstop = () => resolve(new Blob(chunks, { type: blobType }));
+        if (recorder.state === 'inactive') {
+          resolve(new Blob(chunks, { type: blobType }));
+          return;
+        }
+        try {
+          recorder.requestData();
+        } catch {
+          // ignore
+        }
+        recorder.stop();
+      }),
+    onerror: null,
+  };
+
+  recorder.onerror = () => sink.onerror?.(new Error('MediaRecorder error'));
+  return sink;
+};
+
+const createWebCodecsMp4Sink = (
+  { canvas, audioTrack, frameRate }: ExportSinkOptions,
+  videoConfig: VideoEncoderConfig,
+  withAudio: boolean
+): ExportSink => {
+  let failed = false;
+  const fail = (error: Error) => {
+    if (failed) return;
+    failed = true;
+    sink.onerror?.(error);
+  };
+
+  let audioFormat: { sampleRate: number; numberOfChannels: number } | null = null;
+  let muxer: ReturnType<typeof createMp4Muxer> | null = null;
+  // Video chunks that arrive before the audio format is known wait here
+  const pendingVideo: Array<[EncodedVideoChunk, EncodedVideoChunkMetadata | undefined]> = [];
+
+  const getMuxer = () => {
+    if (!muxer) {
+      muxer = createMp4Muxer({
+        video: { width: canvas.width, height: canvas.height },
+        audio: audioFormat ?? undefined,
+      });
+    }
+    return muxer;
+  };
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      if (withAudio && !muxer) {
+        pendingVideo.push([chunk, metadata]);
+        return;
+      }
+      getMuxer().addVideoChunk(chunk, metadata);
+    },
+    error: (err) => fail(err instanceof Error ? err : new Error('Video encoding failed')),
+  });
+  videoEncoder.configure(videoConfig);
+
+  let audioEncoder: AudioEncoder | null = null;
+  let audioReader: ReadableStreamDefaultReader<AudioData> | null = null;
+  let audioLoop: Promise<void> = Promise.resolve();
+
+  let capturing = false;
+  let lastFrameTime = -Infinity;
+  let lastKeyFrameTime = -Infinity;
+  // A dropped frame may have been the one the next frames are predicted from
+  let forceKeyFrame = false;
+  const frameInterval = 1 / frameRate;
+
+  const readAudio = async () => {
+    while (audioReader) {
+      const { value, done } = await audioReader.read();
+      if (done || !value) break;
+
+      if (capturing && !failed) {
+        if (!audioEncoder) {
+          audioFormat = { sampleRate: value.sampleRate, numberOfChannels: value.numberOfChannels };
+          audioEncoder = new AudioEncoder({
+            output: (chunk, metadata) => getMuxer().addAudioChunk(chunk, metadata),
+            error: (err) => fail(err instanceof Error ? err : new Error('Audio encoding failed')),
+          });
+          audioEncoder.configure({ codec: AAC_CODEC, ...audioFormat, bitrate: AUDIO_BITRATE });
+          const mux = getMuxer();
+          pendingVideo.splice(0).forEach(([chunk, metadata]) => mux.addVideoChunk(chunk, metadata));
+        }
+        audioEncoder.encode(value);
+      }
+      value.close();
+    }
+  };
+
+  const sink: ExportSink = {
+    mimeType: 'video/mp4',
+    start: () => {
+      if (withAudio && audioTrack) {
+        const processor = new MediaStreamTrackProcessor<AudioData>({ track: audioTrack });
+        audioReader = processor.readable.getReader();
+        audioLoop = readAudio().catch((err) =>
+          fail(err instanceof Error ? err : new Error('Audio capture failed'))
+        );
+      }
+      capturing = true;
+    },
+    pause: () => {
+      capturing = false;
+    },
+    resume: () => {
+      capturing = true;
+    },
+    captureFrame: (outputTime) => {
+      if (!capturing || failed) return;
+      if (outputTime - lastFrameTime < frameInterval * 0.9) return;
+      // Only reached when the caller doesn't wait on `backlog`
+      if (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        forceKeyFrame = true;
+        return;
+      }
+
+      const keyFrame = forceKeyFrame || outputTime - lastKeyFrameTime >= KEYFRAME_INTERVAL_SECONDS;
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(outputTime * 1_000_000) });
+      try {
+        videoEncoder.encode(frame, { keyFrame });
+      } finally {
+        frame.close();
+      }
+      if (keyFrame) {
+        lastKeyFrameTime = outputTime;
+        forceKeyFrame = false;
+      }
+      lastFrameTime = outputTime;
+    },
+    backlog: () => {
+      if (failed || videoEncoder.encodeQueueSize <= MAX_ENCODE_QUEUE) return null;
+      return new Promise<void>((resolve) => {
+        const check = () => {
+          if (!failed && videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) return;
+          videoEncoder.removeEventListener('dequeue', check);
+          resolve();
+        };
+        videoEncoder.addEventListener('dequeue', check);
+      });
+    },
+    finish: async () => {
+      capturing = false;
+      const reader = audioReader;
+      audioReader = null;
+      await reader?.cancel().catch(() => {});
+      await audioLoop;
+
+      await videoEncoder.flush();
+      videoEncoder.close();
+      if (audioEncoder) {
+        await audioEncoder.flush();
+        audioEncoder.close();
+      }
+
+      // The audio track never produced data (e.g. a silent video), so the file is video-only
+      const mux = getMuxer();
+      pendingVideo.splice(0).forEach(([chunk, metadata]) => mux.addVideoChunk(chunk, metadata));
+      return mux.finalize();
+    },
+    onerror: null,
+  };
+
+  return sink;
+};
+
+const canEncodeWebpImages = () =>
+  document.createElement('canvas').toDataURL('image/webp').startsWith('data:image/webp');
+
+// Animated GIF/WebP; the canvas is expected to already be at the output size
+const createAnimatedImageSink = ({ format, canvas, frameRate, paletteSize = 256 }: ExportSinkOptions): ExportSink => {
+  const { width, height } = canvas;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  const gif = format === 'gif' ? createGifEncoder({ width, height, colors: paletteSize }) : null;
+  const webp = format === 'webp' ? createWebpMuxer({ width, height }) : null;
+  // WebP frames are encoded asynchronously by the browser
+  const pendingFrames: Promise<void>[] = [];
+
+  let capturing = false;
+  let lastFrameTime = -Infinity;
+  const frameInterval = 1 / frameRate;
+
+  const captureWebpFrame = (outputTime: number) =>
+    new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/webp', WEBP_QUALITY))
+      .then(async (blob) => {
+        if (!blob || blob.type !== 'image/webp') {
+          throw new Error('This browser cannot encode WebP images');
+        }
+        webp.addFrame(await blob.arrayBuffer(), outputTime);
+      });
+
+  const sink: ExportSink = {
+    mimeType: format === 'gif' ? 'image/gif' : 'image/webp',
+    start: () => {
+      capturing = true;
+    },
+    pause: () => {
+      capturing = false;
+    },
+    resume: () => {
+      capturing = true;
+    },
+    captureFrame: (outputTime) => {
+      if (!capturing || outputTime - lastFrameTime < frameInterval * 0.9) return;
+      lastFrameTime = outputTime;
+
+      if (gif) {
+        try {
+          gif.addFrame(ctx.getImageData(0, 0, width, height).data, outputTime);
+        } catch (err) {
+          capturing = false;
+          sink.onerror?.(err instanceof Error ? err : new Error('Could not read export frame'));
+        }
+        return;
+      }
+
+      pendingFrames.push(
+        captureWebpFrame(outputTime).catch((err) => {
+          capturing = false;
+          sink.onerror?.(err instanceof Error ? err : new Error('Could not encode export frame'));
+        })
+      );
+    },
+    finish: async () => {
+      capturing = false;
+      if (gif) return gif.finish();
+      await Promise.all(pendingFrames);
+      return webp.finish();
+    },
+    onerror: null,
+  };
+
+  return sink;
+};
+
+// Rough compressed bytes per pixel per frame for typical screen content
+const GIF_BYTES_PER_PIXEL_PER_BIT = 0.06;
+const WEBP_BYTES_PER_PIXEL = 0.05;
+
+export const estimateAnimatedImageSize = (
+  format: ExportFormat,
+  { width, height, duration, frameRate, paletteSize }: {
+    width: number;
+    height: number;
+    duration: number;
+    frameRate: number;
+    paletteSize: number;
+  }
+) => {
+  const frames = Math.max(1, Math.ceil(duration * frameRate));
+  const bytesPerPixel = format === 'gif'
+    ? GIF_BYTES_PER_PIXEL_PER_BIT * Math.log2(Math.max(2, paletteSize))
+    : WEBP_BYTES_PER_PIXEL;
+  return Math.round(width * height * frames * bytesPerPixel);
+};
+
+/**
+ * Picks the best available encoder for the requested container. MP4 prefers
+ * WebCodecs and needs even canvas dimensions for H.264.
+ */
+export async function createExportSink(options: ExportSinkOptions): Promise<ExportSink> {
+  if (isAnimatedFormat(options.format)) {
+    if (options.format === 'webp' && !canEncodeWebpImages()) {
+      throw new Error('WebP export is not supported in this browser. Choose GIF instead.');
+    }
+    return createAnimatedImageSink(options);
+  }
+
+  if (options.format === 'mp4') {
+    if (hasWebCodecs()) {
+      const videoConfig = await findH264Config(
+        options.canvas.width,
+        options.canvas.height,
+        options.bitrate,
+        options.frameRate
+      );
+      const aacSupported = !options.audioTrack || (await isAacSupported());
+      if (videoConfig && aacSupported) {
+        return createWebCodecsMp4Sink(options, videoConfig, !!options.audioTrack);
+      }
+    }
+
+    const recorderMimeType = pickRecorderMimeType(MP4_MIME_TYPES);
+    if (recorderMimeType) {
+      return createMediaRecorderSink(options, recorderMimeType);
+    }
+
+    throw new Error('MP4 export is not supported in this browser. Choose WebM instead.');
+  }
+
+  return createMediaRecorderSink(options, pickRecorderMimeType(WEBM_MIME_TYPES) ?? 'video/webm');
+}
+
+export const isExportFormatSupported = (format: ExportFormat) => {
+  if (format === 'mp4') return hasWebCodecs() || pickRecorderMimeType(MP4_MIME_TYPES) !== null;
+  if (format === 'webp') return canEncodeWebpImages();
+  return true;
+};
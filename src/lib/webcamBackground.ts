@@ -0,0 +1,262 @@
+// Webcam background blur and replacement. People are segmented locally with a
+// bundled MediaPipe selfie model running on the CPU through WebAssembly.
+import type { ImageSegmenter } from '@mediapipe/tasks-vision';
+// Only the model file is used from the legacy solution package; the task runtime loads it
+import modelUrl from '@mediapipe/selfie_segmentation/selfie_segmentation_landscape.tflite?url';
+import wasmLoaderUrl from '@mediapipe/tasks-vision/wasm/vision_wasm_internal.js?url';
+import wasmBinaryUrl from '@mediapipe/tasks-vision/wasm/vision_wasm_internal.wasm?url';
+import wasmNoSimdLoaderUrl from '@mediapipe/tasks-vision/wasm/vision_wasm_nosimd_internal.js?url';
+import wasmNoSimdBinaryUrl from '@mediapipe/tasks-vision/wasm/vision_wasm_nosimd_internal.wasm?url';
+
+export type WebcamBackground = 'none' | 'blur' | 'image';
+
+export interface WebcamBackgroundOptions {
+  mode: WebcamBackground;
+  imageUrl: string; // replacement background; blur is used while it is empty or loading
+}
+
+// The landscape model's native input size; segmenting at this size keeps inference cheap
+const MASK_WIDTH = 256;
+const MASK_HEIGHT = 144;
+const MAX_OUTPUT_WIDTH = 960;
+// Blur by drawing through a canvas this many times smaller
+const BLUR_DOWNSCALE = 16;
+
+// Adaptive segmentation rate: back off when inference is slow or frames get dropped,
+// creep back towards every frame once things have been smooth for a while
+const SEGMENT_BUDGET_MS = 16;
+const DROPPED_FRAME_MS = 50;
+const MAX_SEGMENT_INTERVAL_MS = 500;
+const MIN_SEGMENT_INTERVAL_MS = 33;
+const BACKOFF = 1.5;
+const RECOVERY = 0.75;
+const RECOVERY_SEGMENTS = 60;
+
+const REPLACEMENT_IMAGE_MAX_WIDTH = 1280;
+const REPLACEMENT_IMAGE_MAX_HEIGHT = 720;
+
+export interface WebcamBackgroundProcessor {
+  // The processed frame, or the video itself while effects are off or the model is loading
+  render: (video: HTMLVideoElement, now: number) => HTMLVideoElement | HTMLCanvasElement;
+  dispose: () => void;
+}
+
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+// Video-mode segmentation needs strictly increasing timestamps across every caller
+let lastTimestamp = 0;
+
+/**
+ * Loads the segmentation runtime and model once per page. Everything is served
+ * from the app's own origin, so it works offline once cached.
+ */
+export const loadSegmenter = (): Promise<ImageSegmenter> => {
+  if (!segmenterPromise) {
+    segmenterPromise = (async () => {
+      const { FilesetResolver, ImageSegmenter } = await import('@mediapipe/tasks-vision');
+      const simd = await FilesetResolver.isSimdSupported();
+      return ImageSegmenter.createFromOptions(
+        {
+          wasmLoaderPath: simd ? wasmLoaderUrl : wasmNoSimdLoaderUrl,
+          wasmBinaryPath: simd ? wasmBinaryUrl : wasmNoSimdBinaryUrl,
+        },
+        {
+          baseOptions: { modelAssetPath: modelUrl, delegate: 'CPU' },
+          runningMode: 'VIDEO',
+          outputConfidenceMasks: true,
+          outputCategoryMask: false,
+        }
+      );
+    })();
+    // Let a later attempt retry instead of caching the failure
+    segmenterPromise.catch(() => {
+      segmenterPromise = null;
+    });
+  }
+  return segmenterPromise;
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Draws `image` over the whole canvas, cropping whatever doesn't fit its aspect ratio
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+export const createWebcamBackgroundProcessor = (
+  getOptions: () => WebcamBackgroundOptions
+): WebcamBackgroundProcessor => {
+  const output = createCanvas(1, 1);
+  const outputCtx = output.getContext('2d');
+  const person = createCanvas(1, 1);
+  const personCtx = person.getContext('2d');
+  const input = createCanvas(MASK_WIDTH, MASK_HEIGHT);
+  const inputCtx = input.getContext('2d', { willReadFrequently: true });
+  const mask = createCanvas(MASK_WIDTH, MASK_HEIGHT);
+  const maskCtx = mask.getContext('2d');
+  const maskPixels = new ImageData(MASK_WIDTH, MASK_HEIGHT);
+  const blurred = createCanvas(1, 1);
+  const blurredCtx = blurred.getContext('2d');
+
+  let segmenter: ImageSegmenter | null = null;
+  let loadState: 'idle' | 'loading' | 'ready' | 'failed' = 'idle';
+  let hasMask = false;
+  let disposed = false;
+
+  let segmentInterval = 0;
+  let lastSegmentAt = -Infinity;
+  let lastRenderAt: number | null = null;
+  let smoothSegments = 0;
+
+  let image: HTMLImageElement | null = null;
+  let imageUrl = '';
+
+  const slowDown = () => {
+    segmentInterval = Math.min(MAX_SEGMENT_INTERVAL_MS, Math.max(MIN_SEGMENT_INTERVAL_MS, segmentInterval * BACKOFF));
+    smoothSegments = 0;
+  };
+
+  // A failed load leaves the webcam unprocessed rather than retrying every frame
+  const ensureSegmenter = () => {
+    if (loadState !== 'idle') return;
+    loadState = 'loading';
+    loadSegmenter()
+      .then(loaded => {
+        loadState = 'ready';
+        if (!disposed) segmenter = loaded;
+      })
+      .catch(err => {
+        loadState = 'failed';
+        console.error('Could not load background segmentation:', err);
+      });
+  };
+
+  const ensureImage = (url: string) => {
+    if (url === imageUrl) return;
+    imageUrl = url;
+    image = null;
+    if (!url) return;
+
+    const next = new Image();
+    next.onload = () => {
+      if (imageUrl === url) image = next;
+    };
+    next.onerror = () => console.warn('Could not load the webcam background image');
+    next.src = url;
+  };
+
+  const segment = (video: HTMLVideoElement) => {
+    if (!segmenter || !inputCtx || !maskCtx) return;
+
+    inputCtx.drawImage(video, 0, 0, MASK_WIDTH, MASK_HEIGHT);
+    lastTimestamp = Math.max(performance.now(), lastTimestamp + 1);
+    const startedAt = performance.now();
+
+    segmenter.segmentForVideo(input, lastTimestamp, result => {
+      const confidence = result.confidenceMasks?.[0]?.getAsFloat32Array();
+      if (!confidence || confidence.length !== MASK_WIDTH * MASK_HEIGHT) return;
+      const pixels = maskPixels.data;
+      for (let i = 0; i < confidence.length; i++) {
+        pixels[i * 4 + 3] = Math.round(Math.min(1, Math.max(0, confidence[i])) * 255);
+      }
+      maskCtx.putImageData(maskPixels, 0, 0);
+      hasMask = true;
+    });
+
+    if (performance.now() - startedAt > SEGMENT_BUDGET_MS) {
+      slowDown();
+    } else if (segmentInterval > 0 && ++smoothSegments >= RECOVERY_SEGMENTS) {
+      segmentInterval = segmentInterval * RECOVERY < MIN_SEGMENT_INTERVAL_MS ? 0 : segmentInterval * RECOVERY;
+      smoothSegments = 0;
+    }
+  };
+
+  const render = (video: HTMLVideoElement, now: number): HTMLVideoElement | HTMLCanvasElement => {
+    const { mode, imageUrl: nextImageUrl } = getOptions();
+    const previousRenderAt = lastRenderAt;
+    lastRenderAt = now;
+    if (mode === 'none' || !outputCtx || !personCtx || !blurredCtx || video.videoWidth === 0) return video;
+
+    ensureSegmenter();
+    ensureImage(mode === 'image' ? nextImageUrl : '');
+    if (previousRenderAt !== null && now - previousRenderAt > DROPPED_FRAME_MS) slowDown();
+
+    if (now - lastSegmentAt >= segmentInterval) {
+      lastSegmentAt = now;
+      segment(video);
+    }
+    if (!hasMask) return video;
+
+    const scale = Math.min(1, MAX_OUTPUT_WIDTH / video.videoWidth);
+    const width = Math.round(video.videoWidth * scale);
+    const height = Math.round(video.videoHeight * scale);
+    if (output.width !== width || output.height !== height) {
+      output.width = person.width = width;
+      output.height = person.height = height;
+      blurred.width = Math.max(1, Math.round(width / BLUR_DOWNSCALE));
+      blurred.height = Math.max(1, Math.round(height / BLUR_DOWNSCALE));
+    }
+
+    // Background
+    if (mode === 'image' && image) {
+      drawCover(outputCtx, image, width, height);
+    } else {
+      blurredCtx.drawImage(video, 0, 0, blurred.width, blurred.height);
+      outputCtx.imageSmoothingQuality = 'high';
+      outputCtx.drawImage(blurred, 0, 0, width, height);
+    }
+
+    // Person, cut out with the upscaled mask, which also softens its edges
+    personCtx.globalCompositeOperation = 'copy';
+    personCtx.drawImage(mask, 0, 0, width, height);
+    personCtx.globalCompositeOperation = 'source-in';
+    personCtx.drawImage(video, 0, 0, width, height);
+    personCtx.globalCompositeOperation = 'source-over';
+    outputCtx.drawImage(person, 0, 0);
+
+    return output;
+  };
+
+  return {
+    render,
+    dispose: () => {
+      disposed = true;
+      segmenter = null;
+      image = null;
+    },
+  };
+};
+
+// Shrinks a picked background image to a JPEG no larger than the camera frame needs
+export const prepareBackgroundImage = (file: File): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, REPLACEMENT_IMAGE_MAX_WIDTH / img.naturalWidth, REPLACEMENT_IMAGE_MAX_HEIGHT / img.naturalHeight);
+      const canvas = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (blob) resolve(blob);
+        else reject(new Error('Could not encode the image'));
+      }, 'image/jpeg', 0.85);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('That file is not an image this browser can read'));
+    };
+    img.src = url;
+  });
@@ -0,0 +1,95 @@
+// Where the webcam bubble sits in the composite, independent of the canvas resolution
+import type { CameraShape, WebcamCorner, WebcamSize } from '@/contexts/RecordingContext';
+
+/**
+ * Top-left corner as a fraction of the canvas width and height. `size` is the
+ * bubble height as a fraction of the canvas's shorter side.
+ */
+export interface WebcamLayout {
+  x: number;
+  y: number;
+  size: number;
+}
+
+// A layout the bubble moved to, stored with the recording
+export interface WebcamKeyframe extends WebcamLayout {
+  time: number; // seconds into the recording, pauses excluded
+}
+
+export interface WebcamRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+}
+
+export const WEBCAM_SIZE_FRACTIONS: Record<WebcamSize, number> = {
+  small: 0.12,
+  medium: 0.18,
+  large: 0.24,
+};
+
+export const MIN_WEBCAM_SIZE = 0.08;
+export const MAX_WEBCAM_SIZE = 0.6;
+
+const CORNER_PADDING = 20;
+const RECT_ASPECT = 1.33;
+const ROUNDED_RADIUS = 16;
+
+// Bubble dimensions in canvas pixels for a given size fraction
+const getBubbleSize = (size: number, shape: CameraShape, canvasWidth: number, canvasHeight: number) => {
+  const height = Math.min(canvasWidth, canvasHeight) * size;
+  return { width: shape === 'circle' ? height : height * RECT_ASPECT, height };
+};
+
+export const getWebcamRect = (
+  layout: WebcamLayout,
+  shape: CameraShape,
+  canvasWidth: number,
+  canvasHeight: number
+): WebcamRect => {
+  const { width, height } = getBubbleSize(layout.size, shape, canvasWidth, canvasHeight);
+  const radius = shape === 'circle' ? height / 2 : shape === 'rounded' ? ROUNDED_RADIUS : 0;
+  return { x: layout.x * canvasWidth, y: layout.y * canvasHeight, width, height, radius };
+};
+
+// Keeps the bubble inside the canvas, shrinking it first if it can't fit
+export const clampWebcamLayout = (
+  layout: WebcamLayout,
+  shape: CameraShape,
+  canvasWidth: number,
+  canvasHeight: number
+): WebcamLayout => {
+  let size = Math.min(MAX_WEBCAM_SIZE, Math.max(MIN_WEBCAM_SIZE, layout.size));
+  const fit = getBubbleSize(size, shape, canvasWidth, canvasHeight);
+  const overflow = Math.max(fit.width / canvasWidth, fit.height / canvasHeight);
+  if (overflow > 1) size /= overflow;
+
+  const { width, height } = getBubbleSize(size, shape, canvasWidth, canvasHeight);
+  return {
+    x: Math.min(1 - width / canvasWidth, Math.max(0, layout.x)),
+    y: Math.min(1 - height / canvasHeight, Math.max(0, layout.y)),
+    size,
+  };
+};
+
+// The fixed corner placement used before the bubble could be dragged
+export const getCornerLayout = (
+  corner: WebcamCorner,
+  webcamSize: WebcamSize,
+  shape: CameraShape,
+  canvasWidth: number,
+  canvasHeight: number
+): WebcamLayout => {
+  const size = WEBCAM_SIZE_FRACTIONS[webcamSize];
+  const { width, height } = getBubbleSize(size, shape, canvasWidth, canvasHeight);
+  const left = CORNER_PADDING;
+  const right = canvasWidth - width - CORNER_PADDING;
+  const top = CORNER_PADDING;
+  const bottom = canvasHeight - height - CORNER_PADDING;
+
+  const x = corner === 'bottom-left' || corner === 'top-left' ? left : right;
+  const y = corner === 'top-left' || corner === 'top-right' ? top : bottom;
+  return { x: x / canvasWidth, y: y / canvasHeight, size };
+};
@@ -0,0 +1,106 @@
+// Assembles still WebP images (as produced by canvas.toBlob) into an animated WebP.
+
+interface WebpFrame {
+  chunks: Uint8Array[]; // ALPH/VP8/VP8L chunks, headers included
+  hasAlpha: boolean;
+  timestamp: number; // seconds
+}
+
+const fourccAt = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const u24le = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+
+const u32le = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+
+const chunk = (type: string, payload: Uint8Array[]) => {
+  const size = payload.reduce((total, part) => total + part.length, 0);
+  const parts: Uint8Array[] = [new Uint8Array([...Array.from(type, char => char.charCodeAt(0)), ...u32le(size)]), ...payload];
+  // Chunks are padded to an even length
+  if (size % 2 === 1) parts.push(new Uint8Array([0]));
+  return { parts, size: size + 8 + (size % 2) };
+};
+
+// Pulls the image data chunks out of a still WebP file
+const readImageChunks = (bytes: Uint8Array) => {
+  if (fourccAt(bytes, 0) !== 'RIFF' || fourccAt(bytes, 8) !== 'WEBP') {
+    throw new Error('Not a WebP image');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let hasAlpha = false;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = fourccAt(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const paddedEnd = offset + 8 + size + (size % 2);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      chunks.push(bytes.slice(offset, paddedEnd));
+      if (type !== 'VP8 ') hasAlpha = true;
+    }
+    offset = paddedEnd;
+  }
+
+  if (chunks.length === 0) throw new Error('WebP image has no image data');
+  return { chunks, hasAlpha };
+};
+
+export const createWebpMuxer = ({ width, height }: { width: number; height: number }) => {
+  const frames: WebpFrame[] = [];
+
+  const addFrame = (image: ArrayBuffer, timestamp: number) => {
+    frames.push({ ...readImageChunks(new Uint8Array(image)), timestamp });
+  };
+
+  const finish = () => {
+    if (frames.length === 0) throw new Error('No frames were captured');
+
+    // Frames can finish encoding out of order
+    frames.sort((a, b) => a.timestamp - b.timestamp);
+    const hasAlpha = frames.some(frame => frame.hasAlpha);
+    const vp8x = chunk('VP8X', [
+      new Uint8Array([
+        0x02 | (hasAlpha ? 0x10 : 0), // animation, alpha
+        0,
+        0,
+        0,
+        ...u24le(width - 1),
+        ...u24le(height - 1),
+      ]),
+    ]);
+    // Transparent background, loop forever
+    const anim = chunk('ANIM', [new Uint8Array([0, 0, 0, 0, 0, 0])]);
+
+    const anmfChunks = frames.map((frame, i) => {
+      // Durations are in milliseconds; rounding the running total keeps the clip from drifting
+      const next = frames[i + 1];
+      const end = next ? next.timestamp : frame.timestamp + (frames.length > 1 ? frame.timestamp - frames[i - 1].timestamp : 0.1);
+      const duration = Math.max(1, Math.round(end * 1000) - Math.round(frame.timestamp * 1000));
+
+      return chunk('ANMF', [
+        new Uint8Array([
+          ...u24le(0),
+          ...u24le(0),
+          ...u24le(width - 1),
+          ...u24le(height - 1),
+          ...u24le(duration),
+          0x02, // replace rather than blend, no disposal
+        ]),
+        ...frame.chunks,
+      ]);
+    });
+
+    const body = [vp8x, anim, ...anmfChunks];
+    const riffSize = 4 + body.reduce((total, part) => total + part.size, 0);
+    const header = new Uint8Array([...Array.from('RIFF', char => char.charCodeAt(0)), ...u32le(riffSize), ...Array.from('WEBP', char => char.charCodeAt(0))]);
+
+    return new Blob([header, ...body.flatMap(part => part.parts)], { type: 'image/webp' });
+  };
+
+  return {
+    addFrame,
+    finish,
+  };
+};
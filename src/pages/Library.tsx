@@ -8,6 +8,8 @@ import { cn } from '@/lib/utils';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getFileExtension } from '@/lib/videoExport';
+
 const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
 
 const formatDuration = (seconds: number) => {
@@ -44,10 +46,10 @@ const Library = () => {
     return screenshot.timestamp.toLocaleDateString().includes(searchQuery);
   });
 
-  const handleDownload = (recording: { url: string; id: string }) => {
+  const handleDownload = (recording: { url: string; id: string; mimeType?: string }) => {
     const a = document.createElement('a');
     a.href = recording.url;
-    a.download = `flowrec-${recording.id}.webm`;
+    a.download = `flowrec-${recording.id}.${getFileExtension(recording.mimeType)}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -287,6 +289,7 @@ const Library = () => {
               <video
                 ref={videoRef}
                 src={playingVideo}
+                poster={recordings.find(r => r.url === playingVideo)?.thumbnail}
                 controls
                 autoPlay
                 className="w-full rounded-2xl shadow-2xl"
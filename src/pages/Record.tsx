@@ -6,8 +6,11 @@ import { useRecording } from '@/contexts/RecordingContext';
 import { SourceSelector } from '@/components/recording/SourceSelector';
 import { AudioSelector } from '@/components/recording/AudioSelector';
 import { CameraPreview } from '@/components/recording/CameraPreview';
+import { PresetSelector } from '@/components/recording/PresetSelector';
 import { QualitySettings } from '@/components/recording/QualitySettings';
 import { CountdownOverlay } from '@/components/recording/CountdownOverlay';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { useCountdown } from '@/hooks/useCountdown';
 import { cn } from '@/lib/utils';
 
@@ -62,6 +65,11 @@ const Record = () => {
       </motion.div>
 
       <div className="grid gap-6">
+        {/* Presets */}
+        <motion.div variants={itemVariants} className="card-elevated p-6">
+          <PresetSelector />
+        </motion.div>
+
         {/* Source Selection */}
         <motion.div variants={itemVariants} className="card-elevated p-6">
           <SourceSelector />
@@ -121,6 +129,17 @@ const Record = () => {
             >
               Cursor Spotlight
             </button>
+            <button
+              onClick={() => updateSettings({ customCursor: !settings.customCursor })}
+              className={cn(
+                "px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all",
+                settings.customCursor
+                  ? "border-primary bg-primary/10 text-primary"
+                  : "border-border bg-card text-muted-foreground hover:border-primary/50"
+              )}
+            >
+              Smooth Cursor
+            </button>
             <button
               onClick={() => updateSettings({ keystrokeDisplay: !settings.keystrokeDisplay })}
               className={cn(
@@ -134,6 +153,16 @@ const Record = () => {
               Show Keystrokes
             </button>
           </div>
+          <div className="mt-4 space-y-2 max-w-sm">
+            <Label htmlFor="watermark-text" className="text-sm text-foreground">Watermark</Label>
+            <Input
+              id="watermark-text"
+              value={settings.watermarkText}
+              onChange={(e) => updateSettings({ watermarkText: e.target.value })}
+              placeholder="Text shown in the corner of the video"
+              maxLength={60}
+            />
+          </div>
         </motion.div>
 
         {/* Start Recording Button */}
@@ -11,7 +11,7 @@ import {
   Monitor
 } from 'lucide-react';
 import { useTheme } from '@/contexts/ThemeContext';
-import { useRecording } from '@/contexts/RecordingContext';
+import { useRecording, KeystrokePosition, KeystrokeSize, KeystrokeTheme } from '@/contexts/RecordingContext';
 import { cn } from '@/lib/utils';
 
 const Settings = () => {
@@ -144,7 +144,8 @@ const Settings = () => {
               { key: 'showCursor', label: 'Show Cursor', description: 'Display mouse cursor in recordings' },
               { key: 'clickAnimation', label: 'Click Animation', description: 'Highlight mouse clicks with ripple effect' },
               { key: 'cursorSpotlight', label: 'Cursor Spotlight', description: 'Add spotlight glow around cursor' },
-              { key: 'keystrokeDisplay', label: 'Keystroke Display', description: 'Show keyboard shortcuts on screen' },
+              { key: 'customCursor', label: 'Smooth Cursor', description: 'Draw a smoothed, enlarged cursor into the video' },
+              { key: 'keystrokeDisplay', label: 'Keystroke Display', description: 'Burn pressed keys into the recording' },
             ].map((item) => (
               <div key={item.key} className="flex items-center justify-between">
                 <div>
@@ -165,6 +166,77 @@ const Settings = () => {
                 </button>
               </div>
             ))}
+
+            {settings.keystrokeDisplay && (
+              <div className="space-y-4 pt-4 border-t border-border">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-foreground">Keystroke Position</p>
+                    <p className="text-sm text-muted-foreground">Where key chips appear in the video</p>
+                  </div>
+                  <select
+                    value={settings.keystrokePosition}
+                    onChange={(e) => updateSettings({ keystrokePosition: e.target.value as KeystrokePosition })}
+                    className="px-4 py-2 rounded-lg bg-secondary border border-border text-foreground"
+                  >
+                    <option value="bottom-center">Bottom Center</option>
+                    <option value="bottom-left">Bottom Left</option>
+                    <option value="bottom-right">Bottom Right</option>
+                    <option value="top-center">Top Center</option>
+                  </select>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-foreground">Keystroke Size</p>
+                    <p className="text-sm text-muted-foreground">Chip size relative to the video</p>
+                  </div>
+                  <div className="flex gap-2">
+                    {(['small', 'medium', 'large'] as KeystrokeSize[]).map((size) => (
+                      <button
+                        key={size}
+                        onClick={() => updateSettings({ keystrokeSize: size })}
+                        className={cn(
+                          "px-4 py-2 rounded-lg font-medium capitalize transition-all",
+                          settings.keystrokeSize === size
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-secondary text-foreground hover:bg-secondary/80"
+                        )}
+                      >
+                        {size}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-foreground">Keystroke Theme</p>
+                    <p className="text-sm text-muted-foreground">Chip colors</p>
+                  </div>
+                  <div className="flex gap-2">
+                    {(['dark', 'light'] as KeystrokeTheme[]).map((keystrokeTheme) => (
+                      <button
+                        key={keystrokeTheme}
+                        onClick={() => updateSettings({ keystrokeTheme })}
+                        className={cn(
+                          "px-4 py-2 rounded-lg font-medium capitalize transition-all",
+                          settings.keystrokeTheme === keystrokeTheme
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-secondary text-foreground hover:bg-secondary/80"
+                        )}
+                      >
+                        {keystrokeTheme}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Keys are captured only while this app has focus. Characters typed into password fields are masked.
+                </p>
+              </div>
+            )}
           </div>
         </motion.div>
 
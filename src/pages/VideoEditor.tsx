@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, type SetStateAction } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
@@ -20,13 +20,106 @@ import {
   RotateCcw,
   Check,
   Gauge,
+  Undo2,
+  Redo2,
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+  AudioWaveform,
+  ZoomIn,
+  Plus,
+  Wand2,
+  PenLine,
+  Shield,
+  ScanText,
+  X,
 } from 'lucide-react';
-import { useRecording, Recording, CanvasOverlay } from '@/contexts/RecordingContext';
+import { useRecording, Recording, CanvasOverlay, AudioStem } from '@/contexts/RecordingContext';
+import { useUndoableState } from '@/hooks/useUndoableState';
+import { loadEditProject, saveEditProject } from '@/hooks/useLocalStorage';
+import {
+  EditProject,
+  EditState,
+  ExportSettings,
+  FilterState,
+  NoiseReductionSettings,
+  StemLevel,
+  StemMix,
+  TextOverlay,
+  createEditState,
+  defaultFilter,
+  restoreEditProject,
+  toEditProject,
+} from '@/lib/editProject';
+import {
+  TimelineSegment,
+  SourceRange,
+  MIN_SEGMENT_DURATION,
+  clampSegments,
+  createSegment,
+  findSegmentIndex,
+  getSegmentDuration,
+  getSegmentOutputDuration,
+  getSegmentSpeed,
+  getSegmentTimelineStart,
+  getTimelineDuration,
+  mapSourceRangeToTimeline,
+  moveSegment,
+  removeSourceRanges,
+  setSourceRangesSpeed,
+  sourceToTimelineTime,
+  splitSegmentAt,
+  timelineToSourceTime,
+} from '@/lib/timeline';
+import { DEFAULT_SILENCE_OPTIONS, SilenceDetectionOptions, detectSilences } from '@/lib/silenceDetection';
+import { createStemPlayer, StemPlayer } from '@/lib/audioStems';
+import { createNoiseSuppressor, learnNoiseFromMedia } from '@/lib/noiseSuppression';
+import {
+  applyZoomTransform,
+  createZoomRegion,
+  generateZoomRegions,
+  getZoomAt,
+  getZoomCrop,
+  MIN_ZOOM_DURATION,
+  RecordedClick,
+  ZOOM_SCALE_RANGE,
+  ZoomRegion,
+} from '@/lib/autoZoom';
+import {
+  Annotation,
+  prepareRecordedAnnotations,
+  drawAnnotations,
+  getAnnotationBounds,
+  getAnnotationLabel,
+} from '@/lib/annotations';
+import {
+  REDACTION_COLORS,
+  REDACTION_STYLES,
+  RedactionRegion,
+  clampRedactionBox,
+  createRedactionRegion,
+  drawRedactions,
+  getRedactionBox,
+  isRedactionVisible,
+  removeRedactionKeyframe,
+  setRedactionKeyframe,
+} from '@/lib/redaction';
+import type { CaptureRegion } from '@/lib/captureRegion';
+import { DEFAULT_PII_SCAN_INTERVAL, PII_LABELS, PiiSuggestion, scanForPii } from '@/lib/piiDetection';
+import {
+  EXPORT_FORMATS,
+  createExportSink,
+  estimateAnimatedImageSize,
+  getFileExtension,
+  isAnimatedFormat,
+  isExportFormatSupported,
+} from '@/lib/videoExport';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
@@ -39,41 +132,14 @@ interface VideoState {
   volume: number;
 }
 
-interface TrimState {
-  startTime: number;
-  endTime: number;
-}
-
-interface FilterState {
-  brightness: number;
-  contrast: number;
-  saturation: number;
-  hue: number;
-  blur: number;
-  grayscale: number;
-}
-
-interface TextOverlay {
-  id: string;
-  text: string;
-  x: number;
-  y: number;
-  fontSize: number;
-  color: string;
-  startTime: number;
-  endTime: number;
-}
-
-const defaultFilter: FilterState = {
-  brightness: 100,
-  contrast: 100,
-  saturation: 100,
-  hue: 0,
-  blur: 0,
-  grayscale: 0,
-};
-
 const PLAYBACK_SPEEDS = [0.5, 0.75, 1, 1.25, 1.5, 2];
+// Shortest redaction added at the playhead, and how far from its corner the resize handle can be grabbed
+const MIN_REDACTION_DURATION = 0.1;
+const REDACTION_HANDLE_PX = 10;
+const PII_SCAN_INTERVALS = [1, 2, 5];
+// How close to a segment's end preview playback jumps to the next segment
+const SEGMENT_END_TOLERANCE = 0.03;
+const SILENCE_SPEEDS = [2, 4, 8];
 const EXPORT_SPEEDS = [
   { value: 1, label: '1x (Original)' },
   { value: 1.25, label: '1.25x (Faster)' },
@@ -90,11 +156,44 @@ const QUALITY_PRESETS = [
 
 const BITRATE_RANGE = { min: 1000000, max: 15000000 }; // 1-15 Mbps
 
+const STEM_LABELS: Record<AudioStem['source'], string> = {
+  mic: 'Microphone',
+  system: 'System Audio',
+};
+const MAX_STEM_VOLUME = 1.5;
+// Seconds of audio from the playhead used to learn the noise profile
+const NOISE_SAMPLE_SECONDS = 1.5;
+
+// GIF/WebP options; animations stay short, so modest rates keep files shareable
+const ANIMATION_FPS = [5, 10, 15, 20];
+const PALETTE_SIZES = [32, 64, 128, 256];
+const ANIMATION_SCALES = [
+  { value: 1, label: '100%' },
+  { value: 0.75, label: '75%' },
+  { value: 0.5, label: '50%' },
+  { value: 0.25, label: '25%' },
+];
+
 const formatBitrate = (bps: number) => {
   const mbps = bps / 1000000;
   return `${mbps.toFixed(1)} Mbps`;
 };
 
+const applyUpdate = <T,>(update: SetStateAction<T>, prev: T): T =>
+  typeof update === 'function' ? (update as (prev: T) => T)(prev) : update;
+
+// `prev` itself when nothing in `changes` differs, so the undo history skips the no-op
+const mergeUpdate = <T extends object>(prev: T, changes: Partial<T>): T =>
+  (Object.keys(changes) as Array<keyof T>).every(key => Object.is(changes[key], prev[key])) ? prev : { ...prev, ...changes };
+
+// A box in frame fractions as CSS pixels on the preview, which shows only the zoom crop inside the video's box
+const toPreviewRect = (box: CaptureRegion, crop: CaptureRegion, video: HTMLVideoElement) => ({
+  x: video.offsetLeft + ((box.x - crop.x) / crop.width) * video.offsetWidth,
+  y: video.offsetTop + ((box.y - crop.y) / crop.height) * video.offsetHeight,
+  width: (box.width / crop.width) * video.offsetWidth,
+  height: (box.height / crop.height) * video.offsetHeight,
+});
+
 const formatFileSize = (bytes: number) => {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -118,6 +217,9 @@ const VideoEditor = () => {
   const [activeTab, setActiveTab] = useState('trim');
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState(0);
+  const [unsupportedFormats] = useState(() =>
+    EXPORT_FORMATS.filter(format => !isExportFormatSupported(format.value)).map(format => format.value)
+  );
   
   const [videoState, setVideoState] = useState<VideoState>({
     url: '',
@@ -128,29 +230,144 @@ const VideoEditor = () => {
     volume: 1,
   });
   
-  const [trimState, setTrimState] = useState<TrimState>({
-    startTime: 0,
-    endTime: 0,
-  });
-  
-  const [filter, setFilter] = useState<FilterState>(defaultFilter);
-  const [textOverlays, setTextOverlays] = useState<TextOverlay[]>([]);
+  // Every user edit lives in one undoable, serializable edit state
+  const {
+    state: editState,
+    set: updateEditState,
+    replace: replaceEditState,
+    reset: resetEditState,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoableState<EditState>(() => createEditState(0));
+  const { segments, filter, textOverlays, playbackSpeed, stemMix, noiseReduction, zoomRegions, annotations, redactions } = editState;
+  const {
+    speed: exportSpeed,
+    quality: exportQuality,
+    bitrate: exportBitrate,
+    format: exportFormat,
+    animation: exportAnimation,
+  } = editState.export;
+  const isAnimatedExport = isAnimatedFormat(exportFormat);
+
+  const setSegments = useCallback((update: SetStateAction<TimelineSegment[]>) => {
+    updateEditState(prev => mergeUpdate(prev, { segments: applyUpdate(update, prev.segments) }));
+  }, [updateEditState]);
+
+  // Slider drags pass a coalesce key so a whole drag undoes in one step
+  const setFilter = useCallback((update: SetStateAction<FilterState>, coalesceKey?: string) => {
+    updateEditState(prev => mergeUpdate(prev, { filter: applyUpdate(update, prev.filter) }), coalesceKey);
+  }, [updateEditState]);
+
+  const setTextOverlays = useCallback((update: SetStateAction<TextOverlay[]>) => {
+    updateEditState(prev => mergeUpdate(prev, { textOverlays: applyUpdate(update, prev.textOverlays) }));
+  }, [updateEditState]);
+
+  const setPlaybackSpeed = useCallback((speed: number) => {
+    updateEditState(prev => mergeUpdate(prev, { playbackSpeed: speed }));
+  }, [updateEditState]);
+
+  const setExportSettings = useCallback((settings: Partial<ExportSettings>, coalesceKey?: string) => {
+    updateEditState(prev => mergeUpdate(prev, { export: mergeUpdate(prev.export, settings) }), coalesceKey);
+  }, [updateEditState]);
+
+  const setStemMix = useCallback((update: SetStateAction<StemMix>, coalesceKey?: string) => {
+    updateEditState(prev => mergeUpdate(prev, { stemMix: applyUpdate(update, prev.stemMix) }), coalesceKey);
+  }, [updateEditState]);
+
+  const setNoiseReduction = useCallback((settings: Partial<NoiseReductionSettings>, coalesceKey?: string) => {
+    updateEditState(prev => mergeUpdate(prev, { noiseReduction: mergeUpdate(prev.noiseReduction, settings) }), coalesceKey);
+  }, [updateEditState]);
+
+  const setZoomRegions = useCallback((update: SetStateAction<ZoomRegion[]>, coalesceKey?: string) => {
+    updateEditState(prev => mergeUpdate(prev, { zoomRegions: applyUpdate(update, prev.zoomRegions) }), coalesceKey);
+  }, [updateEditState]);
+
+  const setRedactions = useCallback((update: SetStateAction<RedactionRegion[]>, coalesceKey?: string) => {
+    updateEditState(prev => mergeUpdate(prev, { redactions: applyUpdate(update, prev.redactions) }), coalesceKey);
+  }, [updateEditState]);
+
+  const setStemLevel = (source: AudioStem['source'], level: Partial<StemLevel>, coalesceKey?: string) => {
+    setStemMix(prev => mergeUpdate(prev, { [source]: mergeUpdate(prev[source], level) }), coalesceKey);
+  };
+
   const [canvasOverlaysForExport, setCanvasOverlaysForExport] = useState<CanvasOverlay[]>([]);
+  const [audioStems, setAudioStems] = useState<AudioStem[]>([]);
+  const [recordedClicks, setRecordedClicks] = useState<RecordedClick[]>([]);
+  // Read when a new project is created, to start it with zooms around the clicks
+  const recordedClicksRef = useRef<RecordedClick[]>([]);
+  const [selectedZoomId, setSelectedZoomId] = useState<string | null>(null);
+  // Drawings as recorded, which a new project starts from
+  const recordedAnnotationsRef = useRef<Annotation[]>([]);
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const annotationCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [selectedRedactionId, setSelectedRedactionId] = useState<string | null>(null);
+  const redactionCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Dragging the selected redaction's box on the preview; a whole drag undoes in one step
+  const redactionDragRef = useRef<{
+    mode: 'move' | 'resize' | 'draw';
+    origin: { x: number; y: number };
+    box: CaptureRegion;
+    coalesceKey: string;
+  } | null>(null);
+  const [previewStemPlayer, setPreviewStemPlayer] = useState<StemPlayer | null>(null);
   const [loadedOverlayImages, setLoadedOverlayImages] = useState<Map<string, HTMLImageElement>>(new Map());
   const [newText, setNewText] = useState('');
-  const [playbackSpeed, setPlaybackSpeed] = useState(1);
-  const [exportSpeed, setExportSpeed] = useState(1);
-  const [exportQuality, setExportQuality] = useState('original');
-  const [exportBitrate, setExportBitrate] = useState(5000000);
+  const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
+  const [silences, setSilences] = useState<SourceRange[]>([]);
+  const [silenceOptions, setSilenceOptions] = useState<SilenceDetectionOptions>(DEFAULT_SILENCE_OPTIONS);
+  const [silenceSpeed, setSilenceSpeed] = useState(4);
+  const [isDetectingSilence, setIsDetectingSilence] = useState(false);
+  const [isLearningNoise, setIsLearningNoise] = useState(false);
+  // Private info found by scanning, waiting to be accepted as redactions or rejected
+  const [piiSuggestions, setPiiSuggestions] = useState<PiiSuggestion[]>([]);
+  const [piiScanInterval, setPiiScanInterval] = useState(DEFAULT_PII_SCAN_INTERVAL);
+  const [piiScanProgress, setPiiScanProgress] = useState<number | null>(null);
+  const piiScanAbortRef = useRef<AbortController | null>(null);
+
+  // Segment currently under the playhead; source ranges can repeat after reordering,
+  // so the index disambiguates which copy is playing
+  const activeSegmentIndexRef = useRef(0);
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
+  const playbackSpeedRef = useRef(playbackSpeed);
+  playbackSpeedRef.current = playbackSpeed;
+
+  // Preview rate is the chosen playback speed times the active segment's own speed
+  const syncPlaybackRate = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const segment = segmentsRef.current[activeSegmentIndexRef.current];
+    video.playbackRate = playbackSpeedRef.current * (segment ? getSegmentSpeed(segment) : 1);
+  }, []);
   
   const recordingId = searchParams.get('id');
+  const loadedRecordingIdRef = useRef<string | null>(null);
+  // Saving only starts once the stored project has been restored, so defaults never overwrite it
+  const isProjectRestoredRef = useRef(false);
   
   // Load video from recording or wait for file upload
   useEffect(() => {
     if (recordingId) {
       const recording = recordings.find(r => r.id === recordingId);
       if (recording) {
-        loadVideoFromUrl(recording.url);
+        // Recordings also change when background work such as thumbnail generation
+        // finishes, which must not reset the editor
+        if (loadedRecordingIdRef.current === recording.id) return;
+        loadedRecordingIdRef.current = recording.id;
+
+        setIsLoading(true);
+        recordedClicksRef.current = recording.clicks ?? [];
+        setRecordedClicks(recording.clicks ?? []);
+        recordedAnnotationsRef.current = recording.annotations ?? [];
+        loadEditProject(recording.id)
+          .catch(err => {
+            console.error('Failed to load edit project:', err);
+            return null;
+          })
+          .then(project => loadVideoFromUrl(recording.url, project, recording.duration));
+        setAudioStems(recording.stems ?? []);
         
         // Load canvas overlays if present
         if (recording.canvasOverlays && recording.canvasOverlays.length > 0) {
@@ -177,72 +394,111 @@ const VideoEditor = () => {
     }
   }, [recordingId, recordings]);
   
-  const loadVideoFromUrl = useCallback((url: string) => {
+  // Set while the edit state waits for a duration the loader couldn't find
+  const pendingRestoreRef = useRef<((duration: number) => void) | null>(null);
+
+  // `knownDuration` is the recording's own length, in case the file doesn't state it
+  const loadVideoFromUrl = useCallback((url: string, savedProject: EditProject | null = null, knownDuration = 0) => {
     setIsLoading(true);
     setLoadError(null);
+    pendingRestoreRef.current = null;
     
     const video = document.createElement('video');
     video.src = url;
     video.preload = 'metadata';
     
-    // Use loadeddata event for more reliable duration detection
-    const handleVideoReady = () => {
-      // Wait for valid duration
-      if (isFinite(video.duration) && video.duration > 0) {
-        setVideoState(prev => ({
-          ...prev,
-          url,
-          duration: video.duration,
-          currentTime: 0,
-        }));
-        setTrimState({
-          startTime: 0,
-          endTime: video.duration,
-        });
-        setIsLoading(false);
-      } else {
-        // Duration not ready yet, try waiting
-        setTimeout(() => {
-          if (isFinite(video.duration) && video.duration > 0) {
-            setVideoState(prev => ({
-              ...prev,
-              url,
-              duration: video.duration,
-              currentTime: 0,
-            }));
-            setTrimState({
-              startTime: 0,
-              endTime: video.duration,
-            });
-          } else {
-            // Fallback: use a default duration, will be updated when video plays
-            setVideoState(prev => ({
-              ...prev,
-              url,
-              duration: 0,
-              currentTime: 0,
-            }));
-            setTrimState({
-              startTime: 0,
-              endTime: 0,
-            });
+    const restoreEditState = (duration: number) => {
+      const recordedAnnotations = prepareRecordedAnnotations(recordedAnnotationsRef.current, duration);
+      resetEditState(savedProject
+        ? {
+            ...restoreEditProject(savedProject, duration),
+            // Projects saved before drawings were kept pick up the recorded ones
+            ...(!Array.isArray(savedProject.annotations) && { annotations: recordedAnnotations }),
           }
-          setIsLoading(false);
-        }, 500);
-      }
+        : {
+            ...createEditState(duration),
+            zoomRegions: generateZoomRegions(recordedClicksRef.current, duration),
+            annotations: recordedAnnotations,
+          });
+      isProjectRestoredRef.current = true;
     };
     
-    video.onloadeddata = handleVideoReady;
-    video.onloadedmetadata = () => {
-      if (isFinite(video.duration) && video.duration > 0) {
-        handleVideoReady();
+    const finishLoading = (duration: number) => {
+      setVideoState(prev => ({
+        ...prev,
+        url,
+        duration,
+        currentTime: 0,
+      }));
+      setIsLoading(false);
+      if (duration > 0) {
+        restoreEditState(duration);
+      } else {
+        // Zooms and drawings are placed against the duration, so restoring waits for it, and saving with it
+        pendingRestoreRef.current = restoreEditState;
+      }
+    };
+
+    let settled = false;
+    const settle = (duration: number) => {
+      if (settled) return;
+      settled = true;
+      video.ondurationchange = null;
+      finishLoading(duration);
+    };
+    const hasDuration = () => isFinite(video.duration) && video.duration > 0;
+
+    const handleVideoReady = () => {
+      if (hasDuration()) {
+        settle(video.duration);
+        return;
       }
+      // MediaRecorder WebM files don't state their duration; seeking past the end makes the browser work it out
+      video.ondurationchange = () => {
+        if (hasDuration()) settle(video.duration);
+      };
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+      // Otherwise fall back to the duration recorded with the video, or wait for the player to find it
+      setTimeout(() => settle(knownDuration), 1500);
     };
+
+    video.onloadedmetadata = handleVideoReady;
     
     video.onerror = () => {
       setLoadError('Failed to load video');
       setIsLoading(false);
     };
+  }, [resetEditState]);
+  
+  // Persist the edit project shortly after each change
+  const pendingProjectRef = useRef<EditProject | null>(null);
+
+  useEffect(() => {
+    if (!recordingId || !isProjectRestoredRef.current) return;
+
+    pendingProjectRef.current = toEditProject(recordingId, editState);
+    const timer = window.setTimeout(() => {
+      const project = pendingProjectRef.current;
+      pendingProjectRef.current = null;
+      if (project) {
+        saveEditProject(project).catch(err => {
+          console.error('Failed to save edit project:', err);
+        });
+      }
+    }, 500);
+
+    return () => window.clearTimeout(timer);
+  }, [recordingId, editState]);
+
+  // Flush a save that was still waiting when the editor closes
+  useEffect(() => {
+    return () => {
+      if (pendingProjectRef.current) {
+        saveEditProject(pendingProjectRef.current).catch(err => {
+          console.error('Failed to save edit project:', err);
+        });
+      }
+    };
   }, []);
   
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -264,10 +520,23 @@ const VideoEditor = () => {
   
   // Video playback controls
   const play = useCallback(() => {
-    if (!videoRef.current) return;
-    videoRef.current.play();
+    const video = videoRef.current;
+    if (!video) return;
+
+    // Start from the first segment when the playhead sits on cut material or the end
+    const currentSegments = segmentsRef.current;
+    const index = findSegmentIndex(currentSegments, video.currentTime, activeSegmentIndexRef.current);
+    if (index === -1 && currentSegments.length > 0) {
+      activeSegmentIndexRef.current = 0;
+      video.currentTime = currentSegments[0].sourceStart;
+    } else {
+      activeSegmentIndexRef.current = index;
+    }
+    syncPlaybackRate();
+
+    video.play();
     setVideoState(prev => ({ ...prev, isPlaying: true }));
-  }, []);
+  }, [syncPlaybackRate]);
   
   const pause = useCallback(() => {
     if (!videoRef.current) return;
@@ -283,15 +552,21 @@ const VideoEditor = () => {
     }
   };
   
+  // Seek to a position on the edited timeline
   const seek = useCallback((time: number) => {
-    if (!videoRef.current) return;
-    const clampedTime = Math.max(trimState.startTime, Math.min(time, trimState.endTime));
-    videoRef.current.currentTime = clampedTime;
-    setVideoState(prev => ({ ...prev, currentTime: clampedTime }));
-  }, [trimState]);
+    if (!videoRef.current || segments.length === 0) return;
+    const { index, sourceTime } = timelineToSourceTime(segments, time);
+    activeSegmentIndexRef.current = index;
+    videoRef.current.currentTime = sourceTime;
+    syncPlaybackRate();
+    setVideoState(prev => ({ ...prev, currentTime: sourceTime }));
+  }, [segments, syncPlaybackRate]);
+
+  const timelineDuration = getTimelineDuration(segments);
+  const timelineTime = sourceToTimelineTime(segments, videoState.currentTime, activeSegmentIndexRef.current) ?? 0;
   
-  const skipBack = () => seek(videoState.currentTime - 5);
-  const skipForward = () => seek(videoState.currentTime + 5);
+  const skipBack = () => seek(timelineTime - 5);
+  const skipForward = () => seek(timelineTime + 5);
   
   const toggleMute = () => {
     if (!videoRef.current) return;
@@ -305,12 +580,46 @@ const VideoEditor = () => {
     setVideoState(prev => ({ ...prev, volume: value }));
   };
 
-  // Handle playback speed change
+  // Handle playback speed change, and segment speeds changing under the playhead
   useEffect(() => {
-    if (videoRef.current) {
-      videoRef.current.playbackRate = playbackSpeed;
-    }
-  }, [playbackSpeed]);
+    syncPlaybackRate();
+  }, [playbackSpeed, segments, syncPlaybackRate]);
+
+  // Remixed stems stand in for the video's own audio; export builds its own player
+  const isRemixing = audioStems.length > 0 && stemMix.enabled;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !videoState.url || !isRemixing || isExporting) return;
+
+    const context = new AudioContext();
+    const player = createStemPlayer(context, audioStems, video);
+    player.output.connect(context.destination);
+    setPreviewStemPlayer(player);
+
+    return () => {
+      player.dispose();
+      context.close().catch(console.error);
+      setPreviewStemPlayer(null);
+    };
+  }, [videoState.url, isRemixing, isExporting, audioStems]);
+
+  useEffect(() => {
+    if (!previewStemPlayer) return;
+    previewStemPlayer.setLevels(stemMix);
+    previewStemPlayer.output.gain.value = videoState.isMuted ? 0 : videoState.volume;
+  }, [previewStemPlayer, stemMix, videoState.isMuted, videoState.volume]);
+
+  const downloadStem = (stem: AudioStem) => {
+    const url = URL.createObjectURL(stem.blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `recording-${recordingId ?? Date.now()}-${stem.source}.${getFileExtension(stem.mimeType)}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.setTimeout(() => URL.revokeObjectURL(url), 2000);
+  };
   
   // Handle video time update and duration detection
   useEffect(() => {
@@ -320,13 +629,6 @@ const VideoEditor = () => {
     const handleTimeUpdate = () => {
       const time = video.currentTime;
       setVideoState(prev => ({ ...prev, currentTime: time }));
-      
-      // Stop at trim end point (only if endTime is valid)
-      if (trimState.endTime > 0 && time >= trimState.endTime) {
-        video.pause();
-        video.currentTime = trimState.startTime;
-        setVideoState(prev => ({ ...prev, isPlaying: false, currentTime: trimState.startTime }));
-      }
     };
     
     const handleEnded = () => {
@@ -336,15 +638,19 @@ const VideoEditor = () => {
     // Update duration when video loads (handles streaming/blob videos)
     const handleDurationChange = () => {
       if (isFinite(video.duration) && video.duration > 0) {
+        const restore = pendingRestoreRef.current;
+        pendingRestoreRef.current = null;
+        restore?.(video.duration);
         setVideoState(prev => {
           if (prev.duration === 0) {
             return { ...prev, duration: video.duration };
           }
           return prev;
         });
-        setTrimState(prev => {
-          if (prev.endTime === 0) {
-            return { ...prev, endTime: video.duration };
+        // Late duration discovery is not a user edit, so it stays out of undo history
+        replaceEditState(prev => {
+          if (prev.segments.length === 1 && prev.segments[0].sourceEnd === 0) {
+            return { ...prev, segments: [{ ...prev.segments[0], sourceEnd: video.duration }] };
           }
           return prev;
         });
@@ -362,7 +668,42 @@ const VideoEditor = () => {
       video.removeEventListener('durationchange', handleDurationChange);
       video.removeEventListener('loadedmetadata', handleDurationChange);
     };
-  }, [trimState]);
+  }, [replaceEditState]);
+
+  // Skip over cut material while previewing so playback matches the export.
+  // timeupdate fires only a few times per second, too coarse for short cuts.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !videoState.isPlaying) return;
+
+    let frameHandle: number;
+    const checkSegmentEnd = () => {
+      const currentSegments = segmentsRef.current;
+      const index = activeSegmentIndexRef.current;
+      const segment = currentSegments[index];
+
+      if (!segment || video.currentTime >= segment.sourceEnd - SEGMENT_END_TOLERANCE) {
+        const next = segment ? currentSegments[index + 1] : undefined;
+        if (next) {
+          activeSegmentIndexRef.current = index + 1;
+          video.currentTime = next.sourceStart;
+          syncPlaybackRate();
+        } else {
+          const restartAt = currentSegments[0]?.sourceStart ?? 0;
+          video.pause();
+          video.currentTime = restartAt;
+          activeSegmentIndexRef.current = 0;
+          setVideoState(prev => ({ ...prev, isPlaying: false, currentTime: restartAt }));
+          return;
+        }
+      }
+
+      frameHandle = requestAnimationFrame(checkSegmentEnd);
+    };
+
+    frameHandle = requestAnimationFrame(checkSegmentEnd);
+    return () => cancelAnimationFrame(frameHandle);
+  }, [videoState.isPlaying, syncPlaybackRate]);
   
   // Fullscreen handling
   const toggleFullscreen = async () => {
@@ -384,12 +725,445 @@ const VideoEditor = () => {
     document.addEventListener('fullscreenchange', handleFullscreenChange);
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
+
+  // Undo/redo shortcuts, left to the browser while typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
   
   // Filter CSS
   const filterStyle = {
     filter: `brightness(${filter.brightness}%) contrast(${filter.contrast}%) saturate(${filter.saturation}%) hue-rotate(${filter.hue}deg) blur(${filter.blur}px) grayscale(${filter.grayscale}%)`,
   };
   
+  // Auto-zoom preview: the video shows only the zoomed crop, scaled back up to its own box
+  const previewZoomCrop = getZoomCrop(getZoomAt(zoomRegions, videoState.currentTime));
+  const videoStyle = previewZoomCrop.width < 1
+    ? {
+        ...filterStyle,
+        transformOrigin: '0 0',
+        transform: `scale(${1 / previewZoomCrop.width}) translate(${-previewZoomCrop.x * 100}%, ${-previewZoomCrop.y * 100}%)`,
+        clipPath: `inset(${previewZoomCrop.y * 100}% ${(1 - previewZoomCrop.x - previewZoomCrop.width) * 100}% ${(1 - previewZoomCrop.y - previewZoomCrop.height) * 100}% ${previewZoomCrop.x * 100}%)`,
+      }
+    : filterStyle;
+
+  // Zoom editing
+  const selectedZoom = zoomRegions.find(region => region.id === selectedZoomId) ?? null;
+
+  const updateZoomRegion = (id: string, changes: Partial<ZoomRegion>, coalesceKey?: string) => {
+    setZoomRegions(prev => prev.map(region => (region.id === id ? { ...region, ...changes } : region)), coalesceKey);
+  };
+
+  const selectZoomRegion = (region: ZoomRegion) => {
+    setSelectedZoomId(region.id);
+    setActiveTab('zoom');
+    const start = sourceToTimelineTime(segments, region.startTime);
+    if (start !== null) seek(start);
+  };
+
+  const regenerateZooms = () => {
+    const regions = generateZoomRegions(recordedClicks, videoState.duration);
+    setZoomRegions(regions);
+    setSelectedZoomId(null);
+    toast({
+      title: 'Zooms generated',
+      description: `${regions.length} zoom${regions.length === 1 ? '' : 's'} from ${recordedClicks.length} recorded click${recordedClicks.length === 1 ? '' : 's'}`,
+    });
+  };
+
+  const addZoomAtPlayhead = () => {
+    const startTime = videoState.currentTime;
+    const endTime = Math.min(startTime + 3, videoState.duration);
+    if (endTime - startTime < MIN_ZOOM_DURATION) {
+      toast({
+        title: 'Not enough room',
+        description: 'Move the playhead further from the end of the video',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const region = createZoomRegion(startTime, endTime);
+    setZoomRegions(prev => [...prev, region].sort((a, b) => a.startTime - b.startTime));
+    setSelectedZoomId(region.id);
+  };
+
+  // Moves one edge of the selected zoom to the playhead, keeping it long enough to ease in and out
+  const setZoomEdgeToPlayhead = (edge: 'start' | 'end') => {
+    if (!selectedZoom) return;
+    const time = videoState.currentTime;
+    const changes = edge === 'start' ? { startTime: time } : { endTime: time };
+    const next = { ...selectedZoom, ...changes };
+    if (next.endTime - next.startTime < MIN_ZOOM_DURATION) {
+      toast({
+        title: 'Zoom too short',
+        description: `A zoom needs at least ${MIN_ZOOM_DURATION.toFixed(1)}s to ease in and out`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    setZoomRegions(prev =>
+      prev.map(region => (region.id === next.id ? next : region)).sort((a, b) => a.startTime - b.startTime)
+    );
+  };
+
+  const removeZoomRegion = (id: string) => {
+    setZoomRegions(prev => prev.filter(region => region.id !== id));
+    if (selectedZoomId === id) setSelectedZoomId(null);
+  };
+
+  // Drawing editing
+  const selectedAnnotation = annotations.find(annotation => annotation.id === selectedAnnotationId) ?? null;
+
+  const selectAnnotation = (annotation: Annotation) => {
+    setSelectedAnnotationId(annotation.id);
+    setActiveTab('drawings');
+    const start = sourceToTimelineTime(segments, annotation.startTime);
+    if (start !== null) seek(start);
+  };
+
+  // Draw the recorded drawings over the preview, inside the video's box and zoomed along with it
+  useEffect(() => {
+    const canvas = annotationCanvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    const draw = () => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = canvas.clientWidth * pixelRatio;
+      canvas.height = canvas.clientHeight * pixelRatio;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      // Layout box, ignoring the zoom transform on the video
+      const width = video.offsetWidth;
+      const height = video.offsetHeight;
+      if (!width || !height) return;
+      ctx.scale(pixelRatio, pixelRatio);
+      ctx.translate(video.offsetLeft, video.offsetTop);
+      ctx.beginPath();
+      ctx.rect(0, 0, width, height);
+      ctx.clip();
+      applyZoomTransform(ctx, getZoomCrop(getZoomAt(zoomRegions, video.currentTime)), width, height);
+      drawAnnotations(ctx, annotations, video.currentTime, width, height, video);
+
+      if (selectedAnnotation) {
+        const bounds = getAnnotationBounds(selectedAnnotation);
+        const padding = 6;
+        ctx.setLineDash([6, 4]);
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = '#ffffff';
+        ctx.strokeRect(
+          bounds.x * width - padding,
+          bounds.y * height - padding,
+          bounds.width * width + padding * 2,
+          bounds.height * height + padding * 2
+        );
+      }
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    observer.observe(video);
+
+    // Blur boxes blur the frame underneath, so redraw them with every frame while playing
+    let frame = 0;
+    const tick = () => {
+      if (!video.paused) draw();
+      frame = requestAnimationFrame(tick);
+    };
+    if (annotations.some(annotation => annotation.kind === 'blur')) frame = requestAnimationFrame(tick);
+
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame);
+    };
+  }, [annotations, zoomRegions, videoState.currentTime, videoState.url, selectedAnnotation]);
+
+  // Redaction editing
+  const selectedRedaction = redactions.find(region => region.id === selectedRedactionId) ?? null;
+  const selectedRedactionBox = selectedRedaction ? getRedactionBox(selectedRedaction, videoState.currentTime) : null;
+  const isSelectedRedactionVisible = !!selectedRedaction && isRedactionVisible(selectedRedaction, videoState.currentTime);
+
+  const updateRedaction = (id: string, update: (region: RedactionRegion) => RedactionRegion, coalesceKey?: string) => {
+    setRedactions(prev => prev.map(region => (region.id === id ? update(region) : region)), coalesceKey);
+  };
+
+  const selectRedaction = (region: RedactionRegion) => {
+    setSelectedRedactionId(region.id);
+    setActiveTab('redact');
+    const start = sourceToTimelineTime(segments, region.startTime);
+    if (start !== null) seek(start);
+  };
+
+  const seekToSourceTime = (time: number) => {
+    const timelineTime = sourceToTimelineTime(segments, time);
+    if (timelineTime !== null) seek(timelineTime);
+  };
+
+  const addRedactionAtPlayhead = () => {
+    const startTime = videoState.currentTime;
+    const endTime = Math.min(startTime + 3, videoState.duration);
+    if (endTime - startTime < MIN_REDACTION_DURATION) {
+      toast({
+        title: 'Not enough room',
+        description: 'Move the playhead further from the end of the video',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const region = createRedactionRegion(startTime, endTime);
+    setRedactions(prev => [...prev, region].sort((a, b) => a.startTime - b.startTime));
+    setSelectedRedactionId(region.id);
+  };
+
+  const setRedactionEdgeToPlayhead = (edge: 'start' | 'end') => {
+    if (!selectedRedaction) return;
+    const time = videoState.currentTime;
+    const next = edge === 'start' ? { ...selectedRedaction, startTime: time } : { ...selectedRedaction, endTime: time };
+    if (next.endTime <= next.startTime) {
+      toast({
+        title: 'Invalid range',
+        description: edge === 'start' ? 'The start must be before the end' : 'The end must be after the start',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setRedactions(prev =>
+      prev.map(region => (region.id === next.id ? next : region)).sort((a, b) => a.startTime - b.startTime)
+    );
+  };
+
+  // Changing the box adds a keyframe at the playhead, or moves the one already there
+  const setRedactionBoxAtPlayhead = (id: string, box: CaptureRegion, coalesceKey?: string) => {
+    const time = videoRef.current?.currentTime ?? videoState.currentTime;
+    updateRedaction(id, region => setRedactionKeyframe(region, time, box), coalesceKey);
+  };
+
+  const removeRedaction = (id: string) => {
+    setRedactions(prev => prev.filter(region => region.id !== id));
+    if (selectedRedactionId === id) setSelectedRedactionId(null);
+  };
+
+  // Private info scanning
+  useEffect(() => () => piiScanAbortRef.current?.abort(), []);
+
+  const scanForPrivateInfo = async () => {
+    if (!videoState.url) return;
+    // A WebM file may not state its length until it has played through; the recording's own length stands in
+    const duration = videoState.duration || recordings.find(r => r.id === recordingId)?.duration || 0;
+    if (!duration) {
+      toast({
+        title: 'Video still loading',
+        description: "This video's length isn't known yet. Play it to the end once, then scan again.",
+        variant: 'destructive',
+      });
+      return;
+    }
+    const controller = new AbortController();
+    piiScanAbortRef.current = controller;
+    setPiiScanProgress(0);
+
+    try {
+      const found = await scanForPii(videoState.url, duration, {
+        interval: piiScanInterval,
+        signal: controller.signal,
+        onProgress: setPiiScanProgress,
+      });
+      setPiiSuggestions(found);
+      toast({
+        title: found.length > 0 ? 'Private info found' : 'No private info found',
+        description: found.length > 0
+          ? `${found.length} suggested redaction${found.length === 1 ? '' : 's'} to review`
+          : 'No emails, card numbers, phone numbers or keys were read in the sampled frames',
+      });
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Private info scan failed:', err);
+      toast({
+        title: 'Scan failed',
+        description: err instanceof Error ? err.message : 'Could not read the video',
+        variant: 'destructive',
+      });
+    } finally {
+      if (piiScanAbortRef.current === controller) piiScanAbortRef.current = null;
+      setPiiScanProgress(null);
+    }
+  };
+
+  const cancelPiiScan = () => {
+    piiScanAbortRef.current?.abort();
+  };
+
+  const toRedactionRegion = (suggestion: PiiSuggestion): RedactionRegion => ({
+    ...createRedactionRegion(suggestion.startTime, suggestion.endTime),
+    keyframes: suggestion.keyframes.map(keyframe => ({ ...keyframe, ...clampRedactionBox(keyframe) })),
+  });
+
+  const acceptPiiSuggestions = (accepted: PiiSuggestion[]) => {
+    const regions = accepted.map(toRedactionRegion);
+    setRedactions(prev => [...prev, ...regions].sort((a, b) => a.startTime - b.startTime));
+    setPiiSuggestions(prev => prev.filter(suggestion => !accepted.includes(suggestion)));
+  };
+
+  const rejectPiiSuggestion = (id: string) => {
+    setPiiSuggestions(prev => prev.filter(suggestion => suggestion.id !== id));
+  };
+
+  // The pointer on the preview, and where that is in the frame once the zoom is undone
+  const getRedactionPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const video = videoRef.current;
+    if (!video || !video.offsetWidth || !video.offsetHeight) return null;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const crop = getZoomCrop(getZoomAt(zoomRegions, video.currentTime));
+    const x = e.clientX - bounds.left;
+    const y = e.clientY - bounds.top;
+    return {
+      video,
+      crop,
+      preview: { x, y },
+      frame: {
+        x: crop.x + ((x - video.offsetLeft) / video.offsetWidth) * crop.width,
+        y: crop.y + ((y - video.offsetTop) / video.offsetHeight) * crop.height,
+      },
+    };
+  };
+
+  // Drag inside the box to move it, its corner to resize it, or anywhere else to draw it again
+  const handleRedactionPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const pointer = getRedactionPointer(e);
+    if (!selectedRedaction || !pointer) return;
+    const box = getRedactionBox(selectedRedaction, pointer.video.currentTime);
+    const rect = toPreviewRect(box, pointer.crop, pointer.video);
+    const { x, y } = pointer.preview;
+    const onCorner = Math.abs(x - (rect.x + rect.width)) <= REDACTION_HANDLE_PX
+      && Math.abs(y - (rect.y + rect.height)) <= REDACTION_HANDLE_PX;
+    const inside = x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    redactionDragRef.current = {
+      mode: onCorner ? 'resize' : inside ? 'move' : 'draw',
+      origin: pointer.frame,
+      box,
+      coalesceKey: `redaction-box-${selectedRedaction.id}-${Date.now()}`,
+    };
+  };
+
+  const handleRedactionPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = redactionDragRef.current;
+    const pointer = getRedactionPointer(e);
+    if (!drag || !selectedRedaction || !pointer) return;
+    const dx = pointer.frame.x - drag.origin.x;
+    const dy = pointer.frame.y - drag.origin.y;
+
+    let box: CaptureRegion;
+    if (drag.mode === 'move') {
+      box = { ...drag.box, x: drag.box.x + dx, y: drag.box.y + dy };
+    } else if (drag.mode === 'resize') {
+      box = { ...drag.box, width: drag.box.width + dx, height: drag.box.height + dy };
+    } else {
+      box = {
+        x: Math.min(drag.origin.x, pointer.frame.x),
+        y: Math.min(drag.origin.y, pointer.frame.y),
+        width: Math.abs(dx),
+        height: Math.abs(dy),
+      };
+    }
+    setRedactionBoxAtPlayhead(selectedRedaction.id, box, drag.coalesceKey);
+  };
+
+  const handleRedactionPointerUp = () => {
+    redactionDragRef.current = null;
+  };
+
+  // Preview the redactions on their own canvas, inside the video's box and zoomed along with it
+  useEffect(() => {
+    const canvas = redactionCanvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    const draw = () => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const pixelRatio = window.devicePixelRatio || 1;
+      canvas.width = canvas.clientWidth * pixelRatio;
+      canvas.height = canvas.clientHeight * pixelRatio;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const width = video.offsetWidth;
+      const height = video.offsetHeight;
+      if (!width || !height) return;
+      const time = video.currentTime;
+      const crop = getZoomCrop(getZoomAt(zoomRegions, time));
+      ctx.scale(pixelRatio, pixelRatio);
+
+      ctx.save();
+      ctx.translate(video.offsetLeft, video.offsetTop);
+      ctx.beginPath();
+      ctx.rect(0, 0, width, height);
+      ctx.clip();
+      applyZoomTransform(ctx, crop, width, height);
+      drawRedactions(ctx, redactions, time, width, height, video);
+      ctx.restore();
+
+      // Suggestions still to be reviewed
+      ctx.setLineDash([4, 3]);
+      ctx.lineWidth = 1.5;
+      ctx.strokeStyle = '#f59e0b';
+      piiSuggestions.forEach(suggestion => {
+        if (!isRedactionVisible(suggestion, time)) return;
+        const rect = toPreviewRect(getRedactionBox(suggestion, time), crop, video);
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      });
+
+      if (selectedRedaction && isRedactionVisible(selectedRedaction, time)) {
+        const rect = toPreviewRect(getRedactionBox(selectedRedaction, time), crop, video);
+        ctx.setLineDash([6, 4]);
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = '#ffffff';
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+        ctx.setLineDash([]);
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(rect.x + rect.width - 4, rect.y + rect.height - 4, 8, 8);
+      }
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    observer.observe(video);
+
+    // Redactions follow the frames underneath, so redraw them with every frame while playing
+    let frame = 0;
+    const tick = () => {
+      if (!video.paused) draw();
+      frame = requestAnimationFrame(tick);
+    };
+    if (redactions.length > 0 || piiSuggestions.length > 0) frame = requestAnimationFrame(tick);
+
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame);
+    };
+  }, [redactions, piiSuggestions, zoomRegions, videoState.currentTime, videoState.url, selectedRedaction]);
+
   // Add text overlay
   const addTextOverlay = () => {
     if (!newText.trim()) return;
@@ -422,6 +1196,13 @@ const VideoEditor = () => {
   const visibleOverlays = textOverlays.filter(
     t => videoState.currentTime >= t.startTime && videoState.currentTime <= t.endTime
   );
+
+  const isCanvasOverlayVisible = (overlay: CanvasOverlay, time: number) =>
+    time >= overlay.recordingTime && time <= overlay.recordingTime + overlay.displayDuration;
+
+  const visibleCanvasOverlays = canvasOverlaysForExport.filter(
+    overlay => isCanvasOverlayVisible(overlay, videoState.currentTime)
+  );
   
   // Reset filters
   const resetFilters = () => {
@@ -429,60 +1210,218 @@ const VideoEditor = () => {
     toast({ title: 'Filters reset' });
   };
   
-  // Get effective duration (use trimState if valid, fallback to videoState.duration)
+  // Get effective duration (kept segments if valid, fallback to videoState.duration)
   const getEffectiveDuration = useCallback(() => {
-    const trimDuration = trimState.endTime - trimState.startTime;
-    if (trimDuration > 0) {
-      return trimDuration;
+    const editedDuration = getTimelineDuration(segments);
+    if (editedDuration > 0) {
+      return editedDuration;
     }
     return videoState.duration || 0;
-  }, [trimState, videoState.duration]);
+  }, [segments, videoState.duration]);
 
-  // Get selected quality preset
-  const getSelectedQualityPreset = useCallback(() => {
-    return QUALITY_PRESETS.find(q => q.value === exportQuality) || QUALITY_PRESETS[3];
-  }, [exportQuality]);
+  // Segment editing
+  const selectedSegmentIndex = segments.findIndex(segment => segment.id === selectedSegmentId);
+  const selectedSegment = selectedSegmentIndex === -1 ? null : segments[selectedSegmentIndex];
 
-  // Estimate file size based on bitrate, duration, and speed
-  const estimateFileSize = useCallback(() => {
-    const duration = getEffectiveDuration();
-    if (duration <= 0) return 0;
-    
-    const exportedDuration = duration / exportSpeed;
-    // Video bitrate + audio bitrate (128kbps)
-    const totalBitsPerSecond = exportBitrate + 128000;
-    const estimatedBits = totalBitsPerSecond * exportedDuration;
-    return Math.round(estimatedBits / 8);
-  }, [getEffectiveDuration, exportSpeed, exportBitrate]);
+  const selectSegment = (index: number) => {
+    setSelectedSegmentId(segments[index].id);
+    seek(getSegmentTimelineStart(segments, index));
+  };
 
-  // Handle quality preset change
-  const handleQualityChange = useCallback((quality: string) => {
-    setExportQuality(quality);
-    const preset = QUALITY_PRESETS.find(q => q.value === quality);
-    if (preset) {
-      setExportBitrate(preset.defaultBitrate);
+  const splitAtPlayhead = () => {
+    const next = splitSegmentAt(segments, videoState.currentTime, activeSegmentIndexRef.current);
+    if (next === segments) {
+      toast({
+        title: 'Cannot split here',
+        description: 'Move the playhead inside a segment, away from its edges',
+      });
+      return;
     }
-  }, []);
-  
-  // Export video with audio using real-time playback
-  const exportVideo = async () => {
-    if (!videoRef.current || !canvasRef.current) {
+    setSegments(next);
+  };
+
+  const deleteSegment = (id: string) => {
+    if (segments.length <= 1) {
       toast({
-        title: 'Export failed',
-        description: 'Video not ready',
+        title: 'Cannot delete segment',
+        description: 'At least one segment must remain',
         variant: 'destructive',
       });
       return;
     }
+    setSegments(prev => prev.filter(segment => segment.id !== id));
+    if (selectedSegmentId === id) setSelectedSegmentId(null);
+  };
 
-    setIsExporting(true);
-    setExportProgress(0);
+  const moveSegmentBy = (index: number, offset: number) => {
+    setSegments(prev => moveSegment(prev, index, offset));
+  };
+
+  // Move the selected segment's start or end to the playhead
+  const setSelectedSegmentBound = (edge: 'start' | 'end') => {
+    if (!selectedSegment) return;
+    const time = videoState.currentTime;
+    const isValid = edge === 'start'
+      ? time <= selectedSegment.sourceEnd - MIN_SEGMENT_DURATION
+      : time >= selectedSegment.sourceStart + MIN_SEGMENT_DURATION;
+
+    if (!isValid) {
+      toast({
+        title: `Cannot set ${edge} here`,
+        description: edge === 'start' ? 'Start must come before the segment end' : 'End must come after the segment start',
+      });
+      return;
+    }
+
+    setSegments(prev => prev.map(segment =>
+      segment.id === selectedSegment.id
+        ? { ...segment, [edge === 'start' ? 'sourceStart' : 'sourceEnd']: time }
+        : segment
+    ));
+  };
+
+  const resetSegments = () => {
+    setSegments([createSegment(0, videoState.duration)]);
+    setSelectedSegmentId(null);
+  };
+
+  // Silence detection
+  const totalSilence = silences.reduce((total, range) => total + (range.end - range.start), 0);
+
+  const detectSilence = async () => {
+    if (!videoState.url) return;
+    setIsDetectingSilence(true);
+
+    try {
+      const response = await fetch(videoState.url);
+      const ranges = await detectSilences(await response.arrayBuffer(), silenceOptions);
+      setSilences(ranges);
+
+      const total = ranges.reduce((sum, range) => sum + (range.end - range.start), 0);
+      toast({
+        title: ranges.length > 0 ? 'Silence detected' : 'No silence found',
+        description: ranges.length > 0
+          ? `${ranges.length} silent stretch${ranges.length > 1 ? 'es' : ''}, ${formatTime(total)} in total`
+          : 'Try a higher threshold or a shorter minimum length',
+      });
+    } catch (err) {
+      console.error('Silence detection failed:', err);
+      toast({
+        title: 'Silence detection failed',
+        description: err instanceof Error ? err.message : 'Could not analyze audio',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDetectingSilence(false);
+    }
+  };
+
+  const removeSilences = () => {
+    const next = removeSourceRanges(segments, silences);
+    if (next.length === 0) {
+      toast({
+        title: 'Cannot remove silence',
+        description: 'The whole video would be removed',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setSegments(next);
+    setSelectedSegmentId(null);
+    toast({ title: 'Silence removed', description: `${silences.length} silent stretch${silences.length > 1 ? 'es' : ''} cut` });
+  };
+
+  const speedUpSilences = () => {
+    setSegments(prev => setSourceRangesSpeed(prev, silences, silenceSpeed));
+    toast({ title: 'Silence sped up', description: `Silent stretches now play at ${silenceSpeed}x` });
+  };
+
+  // Learn the noise profile from a quiet stretch starting at the playhead
+  const learnNoiseAtPlayhead = async () => {
+    if (!videoState.url) return;
+    setIsLearningNoise(true);
+
+    try {
+      const profile = await learnNoiseFromMedia(videoState.url, videoState.currentTime, NOISE_SAMPLE_SECONDS);
+      setNoiseReduction({ enabled: true, profile });
+      toast({ title: 'Noise learned', description: `Sampled ${formatTime(videoState.currentTime)} onwards` });
+    } catch (err) {
+      console.error('Failed to learn noise:', err);
+      toast({
+        title: 'Could not learn noise',
+        description: err instanceof Error ? err.message : 'Could not analyze audio',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLearningNoise(false);
+    }
+  };
+
+  // Get selected quality preset
+  const getSelectedQualityPreset = useCallback(() => {
+    return QUALITY_PRESETS.find(q => q.value === exportQuality) || QUALITY_PRESETS[3];
+  }, [exportQuality]);
+
+  // Estimate file size based on bitrate, duration, and speed
+  const estimateFileSize = useCallback(() => {
+    const duration = getEffectiveDuration();
+    if (duration <= 0) return 0;
+    
+    const exportedDuration = duration / exportSpeed;
+
+    if (isAnimatedExport) {
+      const video = videoRef.current;
+      return estimateAnimatedImageSize(exportFormat, {
+        width: Math.round((video?.videoWidth || 1920) * exportAnimation.scale),
+        height: Math.round((video?.videoHeight || 1080) * exportAnimation.scale),
+        duration: exportedDuration,
+        frameRate: exportAnimation.fps,
+        paletteSize: exportAnimation.paletteSize,
+      });
+    }
+
+    // Video bitrate + audio bitrate (128kbps)
+    const totalBitsPerSecond = exportBitrate + 128000;
+    const estimatedBits = totalBitsPerSecond * exportedDuration;
+    return Math.round(estimatedBits / 8);
+  }, [getEffectiveDuration, exportSpeed, exportBitrate, isAnimatedExport, exportFormat, exportAnimation]);
+
+  // Handle quality preset change
+  const handleQualityChange = useCallback((quality: string) => {
+    const preset = QUALITY_PRESETS.find(q => q.value === quality);
+    setExportSettings(preset ? { quality, bitrate: preset.defaultBitrate } : { quality });
+  }, [setExportSettings]);
+  
+  // Export video with audio using real-time playback
+  const exportVideo = async () => {
+    if (!videoRef.current || !canvasRef.current) {
+      toast({
+        title: 'Export failed',
+        description: 'Video not ready',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (piiSuggestions.length > 0) {
+      toast({
+        title: 'Review suggested redactions',
+        description: `Accept or reject the ${piiSuggestions.length} suggested redaction${piiSuggestions.length === 1 ? '' : 's'} before exporting`,
+        variant: 'destructive',
+      });
+      setActiveTab('redact');
+      return;
+    }
+
+    setIsExporting(true);
+    setExportProgress(0);
 
     const video = videoRef.current;
     const canvas = canvasRef.current;
 
     const previousMuted = video.muted;
     const previousRate = video.playbackRate;
+    let exportStemPlayer: StemPlayer | null = null;
 
     try {
       const ctx = canvas.getContext('2d');
@@ -577,9 +1516,12 @@ const VideoEditor = () => {
 
       await ensureVideoReady();
 
-      // Set canvas dimensions based on quality preset
+      // Set canvas dimensions based on quality preset, or the chosen scale for animations
       const qualityPreset = getSelectedQualityPreset();
-      if (qualityPreset.value === 'original' || qualityPreset.width === 0) {
+      if (isAnimatedExport) {
+        canvas.width = Math.max(2, Math.round((video.videoWidth || 1920) * exportAnimation.scale));
+        canvas.height = Math.max(2, Math.round((video.videoHeight || 1080) * exportAnimation.scale));
+      } else if (qualityPreset.value === 'original' || qualityPreset.width === 0) {
         canvas.width = video.videoWidth || 1920;
         canvas.height = video.videoHeight || 1080;
       } else {
@@ -596,29 +1538,27 @@ const VideoEditor = () => {
         }
       }
 
-      const startTime = Math.max(0, Math.min(trimState.startTime || 0, video.duration));
-      const endTime =
-        trimState.endTime && trimState.endTime > startTime
-          ? Math.min(trimState.endTime, video.duration)
-          : video.duration;
-
-      const totalDuration = endTime - startTime;
-      if (!isFinite(totalDuration) || totalDuration <= 0) {
-        throw new Error('Invalid trim range. Please wait for the video to load, then try again.');
+      // H.264 only encodes even frame sizes
+      if (exportFormat === 'mp4') {
+        canvas.width -= canvas.width % 2;
+        canvas.height -= canvas.height % 2;
       }
 
-      const exportedDuration = totalDuration / exportSpeed;
-      const frameRate = 30;
+      // Kept segments are rendered back to back, in timeline order
+      const exportSegments = clampSegments(segments, video.duration);
+      const startTime = exportSegments[0]?.sourceStart ?? 0;
 
-      // Capture canvas stream
-      const canvasStream = canvas.captureStream(frameRate);
-      if (canvasStream.getVideoTracks().length === 0) {
-        throw new Error('Could not capture canvas stream');
+      const totalDuration = getTimelineDuration(exportSegments);
+      if (exportSegments.length === 0 || !isFinite(totalDuration) || totalDuration <= 0) {
+        throw new Error('Nothing to export. Please wait for the video to load and keep at least one segment.');
       }
 
+      const exportedDuration = totalDuration / exportSpeed;
+      const frameRate = isAnimatedExport ? exportAnimation.fps : 30;
+
       // Create audio context and capture audio from video element
       let audioContext: AudioContext | null = null;
-      let audioDestination: MediaStreamAudioDestinationNode | null = null;
+      let audioTrack: MediaStreamTrack | null = null;
 
       try {
         audioContext = new AudioContext();
@@ -627,45 +1567,63 @@ const VideoEditor = () => {
         } catch {
           // ignore (some browsers keep it suspended; export can still proceed without audio)
         }
-        const source = audioContext.createMediaElementSource(video);
-        audioDestination = audioContext.createMediaStreamDestination();
-        source.connect(audioDestination);
-        source.connect(audioContext.destination); // Play to speakers too
-
-        const audioTrack = audioDestination.stream.getAudioTracks()[0];
-        if (audioTrack) {
-          canvasStream.addTrack(audioTrack);
+        const audioDestination = audioContext.createMediaStreamDestination();
+        let audioOutput: AudioNode;
+        if (isRemixing) {
+          exportStemPlayer = createStemPlayer(audioContext, audioStems, video);
+          exportStemPlayer.setLevels(stemMix);
+          audioOutput = exportStemPlayer.output;
+        } else {
+          audioOutput = audioContext.createMediaElementSource(video);
+        }
+
+        if (noiseReduction.enabled) {
+          try {
+            const suppressor = await createNoiseSuppressor(audioContext, noiseReduction);
+            audioOutput.connect(suppressor.node);
+            audioOutput = suppressor.node;
+          } catch (err) {
+            console.warn('Noise reduction unavailable, exporting unprocessed audio:', err);
+          }
         }
+
+        audioOutput.connect(audioDestination);
+        audioOutput.connect(audioContext.destination); // Play to speakers too
+
+        audioTrack = audioDestination.stream.getAudioTracks()[0] ?? null;
       } catch (audioErr) {
         console.warn('Could not setup audio capture:', audioErr);
       }
 
-      // Setup MediaRecorder
-      const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9,opus')
-        ? 'video/webm;codecs=vp9,opus'
-        : MediaRecorder.isTypeSupported('video/webm;codecs=vp8,opus')
-          ? 'video/webm;codecs=vp8,opus'
-          : 'video/webm';
-
-      const mediaRecorder = new MediaRecorder(canvasStream, {
-        mimeType,
-        videoBitsPerSecond: exportBitrate,
-        audioBitsPerSecond: 128000,
+      const sink = await createExportSink({
+        format: exportFormat,
+        canvas,
+        audioTrack,
+        bitrate: exportBitrate,
+        frameRate,
+        paletteSize: exportAnimation.paletteSize,
       });
 
-      const chunks: Blob[] = [];
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data && e.data.size > 0) chunks.push(e.data);
-      };
+      // The filtered frame on its own, which blur boxes blur so they match the rest of the export
+      const frameCanvas = document.createElement('canvas');
+      const frameCtx = frameCanvas.getContext('2d');
+      if (!frameCtx) throw new Error('Canvas context not available');
 
       // Draw frame with filters and overlays
       const drawFrame = (currentTime: number) => {
-        ctx.filter = `brightness(${filter.brightness}%) contrast(${filter.contrast}%) saturate(${filter.saturation}%) hue-rotate(${filter.hue}deg) blur(${filter.blur}px) grayscale(${filter.grayscale}%)`;
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        ctx.filter = 'none';
+        if (frameCanvas.width !== canvas.width) frameCanvas.width = canvas.width;
+        if (frameCanvas.height !== canvas.height) frameCanvas.height = canvas.height;
+        frameCtx.filter = `brightness(${filter.brightness}%) contrast(${filter.contrast}%) saturate(${filter.saturation}%) hue-rotate(${filter.hue}deg) blur(${filter.blur}px) grayscale(${filter.grayscale}%)`;
+        frameCtx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+        // Drawings made during recording zoom along with the screen, text overlays stay put
+        ctx.save();
+        applyZoomTransform(ctx, getZoomCrop(getZoomAt(zoomRegions, currentTime)), canvas.width, canvas.height);
+        ctx.drawImage(frameCanvas, 0, 0, canvas.width, canvas.height);
 
-        // Draw canvas overlays (drawings saved during recording)
+        // Draw canvas overlays (drawings saved during recording) at the time they were captured
         canvasOverlaysForExport.forEach((overlay) => {
+          if (!isCanvasOverlayVisible(overlay, currentTime)) return;
           const img = loadedOverlayImages.get(overlay.id);
           if (img && img.complete) {
             const scale = Math.min(canvas.width / overlay.width, canvas.height / overlay.height);
@@ -676,6 +1634,11 @@ const VideoEditor = () => {
             ctx.drawImage(img, offsetX, offsetY, scaledWidth, scaledHeight);
           }
         });
+        drawAnnotations(ctx, annotations, currentTime, canvas.width, canvas.height, frameCanvas);
+        // Redactions go over everything drawn from the recording and replace those pixels,
+        // so nothing under them, blur boxes included, reaches the file
+        drawRedactions(ctx, redactions, currentTime, canvas.width, canvas.height);
+        ctx.restore();
 
         // Draw text overlays
         textOverlays.forEach((text) => {
@@ -696,7 +1659,7 @@ const VideoEditor = () => {
       };
 
       // Seek reliably
-      await new Promise<void>((resolve, reject) => {
+      const seekTo = (time: number) => new Promise<void>((resolve, reject) => {
         const onSeeked = () => {
           cleanup();
           resolve();
@@ -712,19 +1675,22 @@ const VideoEditor = () => {
 
         video.addEventListener('seeked', onSeeked);
         video.addEventListener('error', onError);
-        video.currentTime = startTime;
 
         // If browser doesn't dispatch seeked for same-time seeks.
-        if (Math.abs(video.currentTime - startTime) < 0.01) {
+        if (Math.abs(video.currentTime - time) < 0.01) {
           cleanup();
           resolve();
+          return;
         }
+        video.currentTime = time;
       });
 
+      await seekTo(startTime);
       await waitForCanPlay();
 
-      video.muted = false;
-      video.playbackRate = exportSpeed;
+      // Remixed stems carry the audio, the video's own mix stays silent
+      video.muted = isRemixing;
+      video.playbackRate = exportSpeed * getSegmentSpeed(exportSegments[0]);
 
       // Ensure at least one frame is drawn before recording starts (prevents 0B exports in some browsers).
       drawFrame(startTime);
@@ -736,6 +1702,8 @@ const VideoEditor = () => {
 
         let lastTime = startTime;
         let lastAdvanceAt = Date.now();
+        let segmentIndex = 0;
+        let completedDuration = 0;
 
         const cleanupLoop = () => {
           if (frameHandle != null) cancelAnimationFrame(frameHandle);
@@ -756,37 +1724,100 @@ const VideoEditor = () => {
           reject(err);
         };
 
+        let stopping = false;
         const stopRecording = () => {
-          try {
-            (mediaRecorder as any).requestData?.();
-          } catch {
-            // ignore
-          }
-          if (mediaRecorder.state !== 'inactive') {
-            mediaRecorder.stop();
-          }
+          if (stopping) return;
+          stopping = true;
+          sink.finish().then(finishResolve, (err) =>
+            finishReject(err instanceof Error ? err : new Error('Failed to finalize export'))
+          );
         };
 
-        mediaRecorder.onstop = () => {
-          finishResolve(new Blob(chunks, { type: 'video/webm' }));
+        sink.onerror = (err) => {
+          video.pause();
+          finishReject(err);
         };
-        mediaRecorder.onerror = () => {
-          finishReject(new Error('MediaRecorder error'));
+
+        // Position in the exported file, which also plays back at the export speed
+        const getOutputTime = (segment: TimelineSegment, t: number) =>
+          (completedDuration + Math.max(0, t - segment.sourceStart) / getSegmentSpeed(segment)) / exportSpeed;
+
+        // Pause the recorder while jumping between segments so the seek leaves no gap in the output
+        const startSegment = (index: number) => {
+          const segment = exportSegments[index];
+          sink.pause();
+          lastAdvanceAt = Date.now();
+
+          seekTo(segment.sourceStart)
+            .then(waitForCanPlay)
+            .then(() => {
+              drawFrame(segment.sourceStart);
+              lastTime = segment.sourceStart;
+              lastAdvanceAt = Date.now();
+              video.playbackRate = exportSpeed * getSegmentSpeed(segment);
+              sink.resume();
+              sink.captureFrame(getOutputTime(segment, segment.sourceStart));
+              return withTimeout(video.play(), 6000, 'Could not resume playback for export.');
+            })
+            .then(() => {
+              frameHandle = requestAnimationFrame(tick);
+            })
+            .catch((err) => {
+              video.pause();
+              stopRecording();
+              finishReject(err instanceof Error ? err : new Error('Failed to continue export playback'));
+            });
         };
 
         const tick = () => {
+          const segment = exportSegments[segmentIndex];
           const t = video.currentTime;
+
+          // Playback ran past the cut; neither this frame nor the audio after it belongs in the output
+          if (t >= segment.sourceEnd || video.ended) {
+            sink.pause();
+            video.pause();
+            completedDuration += getSegmentOutputDuration(segment);
+            segmentIndex++;
+
+            if (segmentIndex >= exportSegments.length) {
+              stopRecording();
+            } else {
+              startSegment(segmentIndex);
+            }
+            return;
+          }
+
           drawFrame(t);
-          setExportProgress(Math.max(0, Math.min(100, ((t - startTime) / totalDuration) * 100)));
+          const outputTime = getOutputTime(segment, t);
+          sink.captureFrame(outputTime);
+          setExportProgress(Math.max(0, Math.min(100, (outputTime / exportedDuration) * 100)));
 
           if (t > lastTime + 0.02) {
             lastTime = t;
             lastAdvanceAt = Date.now();
           }
 
-          if (t >= endTime || video.ended) {
+          // Hold playback while the encoder catches up instead of dropping frames
+          const backlog = sink.backlog?.();
+          if (backlog) {
+            sink.pause();
             video.pause();
-            stopRecording();
+            backlog
+              .then(() => {
+                if (settled) return;
+                lastAdvanceAt = Date.now();
+                sink.resume();
+                return withTimeout(video.play(), 6000, 'Could not resume playback for export.')
+                  .then(() => {
+                    frameHandle = requestAnimationFrame(tick);
+                  });
+              })
+              .catch((err) => {
+                video.pause();
+                stopRecording();
+                finishReject(err instanceof Error ? err : new Error('Failed to continue export playback'));
+              });
             return;
           }
 
@@ -804,8 +1835,8 @@ const VideoEditor = () => {
           }
         }, 500);
 
-        // Collect chunks periodically to reduce the chance of 0B results.
-        mediaRecorder.start(1000);
+        sink.start();
+        sink.captureFrame(0);
 
         withTimeout(video.play(), 6000, 'Could not start playback for export. Try lowering quality/bitrate.')
           .then(() => tick())
@@ -830,32 +1861,38 @@ const VideoEditor = () => {
       video.muted = previousMuted;
       video.currentTime = startTime;
       video.playbackRate = previousRate;
+      activeSegmentIndexRef.current = 0;
 
       // Download (revoke URL after a delay to avoid 0B downloads in some browsers)
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `edited-video-${exportSpeed > 1 ? `${exportSpeed}x-` : ''}${Date.now()}.webm`;
+      a.download = `edited-video-${exportSpeed > 1 ? `${exportSpeed}x-` : ''}${Date.now()}.${getFileExtension(blob.type)}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       window.setTimeout(() => URL.revokeObjectURL(url), 2000);
 
-      // Add to library
-      const newRecording: Recording = {
-        id: 'edited-' + Date.now(),
-        blob,
-        url: URL.createObjectURL(blob),
-        duration: exportedDuration,
-        timestamp: new Date(),
-        resolution: `${canvas.width}x${canvas.height}`,
-        size: blob.size,
-      };
-      addRecording(newRecording);
+      // Add to library; GIF/WebP animations are download-only since the library plays videos
+      if (!isAnimatedExport) {
+        const newRecording: Recording = {
+          id: 'edited-' + Date.now(),
+          blob,
+          url: URL.createObjectURL(blob),
+          duration: exportedDuration,
+          timestamp: new Date(),
+          resolution: `${canvas.width}x${canvas.height}`,
+          size: blob.size,
+          mimeType: blob.type,
+        };
+        addRecording(newRecording);
+      }
 
       toast({
         title: 'Export complete',
-        description: `Video saved at ${exportSpeed}x speed (${formatTime(exportedDuration)})`,
+        description: isAnimatedExport
+          ? `${exportFormat.toUpperCase()} downloaded (${formatTime(exportedDuration)}, ${formatFileSize(blob.size)})`
+          : `Video saved at ${exportSpeed}x speed (${formatTime(exportedDuration)})`,
       });
     } catch (error) {
       console.error('Export error:', error);
@@ -866,6 +1903,7 @@ const VideoEditor = () => {
       });
     } finally {
       // Always restore video state
+      exportStemPlayer?.dispose();
       video.muted = previousMuted;
       video.playbackRate = previousRate;
 
@@ -959,6 +1997,14 @@ const VideoEditor = () => {
             <ArrowLeft className="w-5 h-5" />
           </Button>
           <h1 className="text-lg font-semibold">Video Editor</h1>
+          <div className="flex items-center gap-1 ml-2">
+            <Button variant="ghost" size="icon" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
         
         <Button 
@@ -990,9 +2036,9 @@ const VideoEditor = () => {
               ref={videoRef}
               src={videoState.url}
               className="max-w-full max-h-full"
-              style={filterStyle}
+              style={videoStyle}
               playsInline
-              muted={videoState.isMuted}
+              muted={videoState.isMuted || isRemixing}
               onClick={togglePlay}
             />
             
@@ -1004,7 +2050,7 @@ const VideoEditor = () => {
             )}
             
             {/* Canvas overlays preview (scaled down) */}
-            {canvasOverlaysForExport.map(overlay => {
+            {visibleCanvasOverlays.map(overlay => {
               const img = loadedOverlayImages.get(overlay.id);
               if (!img) return null;
               return (
@@ -1017,6 +2063,22 @@ const VideoEditor = () => {
               );
             })}
             
+            {/* Recorded drawings */}
+            <canvas ref={annotationCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+
+            {/* Redactions, over the drawings as in the export; the selected one can be dragged while the Redact tab is open */}
+            <canvas
+              ref={redactionCanvasRef}
+              className={cn(
+                "absolute inset-0 w-full h-full",
+                activeTab === 'redact' && isSelectedRedactionVisible ? "cursor-crosshair touch-none" : "pointer-events-none"
+              )}
+              onPointerDown={handleRedactionPointerDown}
+              onPointerMove={handleRedactionPointerMove}
+              onPointerUp={handleRedactionPointerUp}
+              onPointerCancel={handleRedactionPointerUp}
+            />
+
             {/* Text overlays */}
             {visibleOverlays.map(overlay => (
               <div
@@ -1073,32 +2135,144 @@ const VideoEditor = () => {
               )}
             </div>
             
-            {/* Progress bar */}
+            {/* Progress bar (edited timeline) */}
             <div className="flex items-center gap-3">
               <span className="text-xs font-mono text-muted-foreground w-12">
-                {formatTime(videoState.currentTime)}
+                {formatTime(timelineTime)}
               </span>
-              <div className="flex-1 relative">
-                <Slider
-                  value={[videoState.currentTime]}
-                  min={0}
-                  max={videoState.duration || 1}
-                  step={0.01}
-                  onValueChange={(v) => seek(v[0])}
-                />
-                {/* Trim indicators */}
-                {videoState.duration > 0 && (
-                  <div 
-                    className="absolute top-1/2 -translate-y-1/2 h-4 bg-primary/20 pointer-events-none"
-                    style={{
-                      left: `${(trimState.startTime / videoState.duration) * 100}%`,
-                      width: `${((trimState.endTime - trimState.startTime) / videoState.duration) * 100}%`,
-                    }}
+              <div className="flex-1 space-y-2">
+                <div className="relative">
+                  <Slider
+                    value={[timelineTime]}
+                    min={0}
+                    max={timelineDuration || 1}
+                    step={0.01}
+                    onValueChange={(v) => seek(v[0])}
                   />
+                  {/* Detected silence markers */}
+                  {timelineDuration > 0 && silences.flatMap((range, i) =>
+                    mapSourceRangeToTimeline(segments, range).map((mapped, j) => (
+                      <div
+                        key={`${i}-${j}`}
+                        className="absolute top-1/2 -translate-y-1/2 h-1.5 bg-destructive/50 pointer-events-none"
+                        style={{
+                          left: `${(mapped.start / timelineDuration) * 100}%`,
+                          width: `${((mapped.end - mapped.start) / timelineDuration) * 100}%`,
+                        }}
+                      />
+                    ))
+                  )}
+                  {/* Drawing overlay markers, hidden when their moment was cut */}
+                  {timelineDuration > 0 && canvasOverlaysForExport.map(overlay => {
+                    const overlayStart = sourceToTimelineTime(segments, overlay.recordingTime);
+                    if (overlayStart === null) return null;
+                    return (
+                      <div
+                        key={overlay.id}
+                        className="absolute top-1/2 -translate-y-1/2 h-2 rounded-full bg-accent/70 pointer-events-none"
+                        style={{
+                          left: `${(overlayStart / timelineDuration) * 100}%`,
+                          width: `${(Math.min(overlay.displayDuration, timelineDuration - overlayStart) / timelineDuration) * 100}%`,
+                          minWidth: 4,
+                        }}
+                      />
+                    );
+                  })}
+                </div>
+                {/* Zoom strip */}
+                {timelineDuration > 0 && zoomRegions.length > 0 && (
+                  <div className="relative h-2.5">
+                    {zoomRegions.flatMap(region =>
+                      mapSourceRangeToTimeline(segments, { start: region.startTime, end: region.endTime }).map((mapped, i) => (
+                        <button
+                          key={`${region.id}-${i}`}
+                          onClick={() => selectZoomRegion(region)}
+                          className={cn(
+                            "absolute top-0 h-full rounded-sm transition-colors",
+                            region.id === selectedZoomId ? "bg-primary" : "bg-primary/40 hover:bg-primary/60"
+                          )}
+                          style={{
+                            left: `${(mapped.start / timelineDuration) * 100}%`,
+                            width: `${((mapped.end - mapped.start) / timelineDuration) * 100}%`,
+                            minWidth: 4,
+                          }}
+                          title={`Zoom ${region.scale.toFixed(1)}x · ${formatTime(region.startTime)} - ${formatTime(region.endTime)}`}
+                        />
+                      ))
+                    )}
+                  </div>
+                )}
+                {/* Drawing strip */}
+                {timelineDuration > 0 && annotations.length > 0 && (
+                  <div className="relative h-2.5">
+                    {annotations.flatMap(annotation =>
+                      mapSourceRangeToTimeline(segments, { start: annotation.startTime, end: annotation.endTime }).map((mapped, i) => (
+                        <button
+                          key={`${annotation.id}-${i}`}
+                          onClick={() => selectAnnotation(annotation)}
+                          className={cn(
+                            "absolute top-0 h-full rounded-sm transition-opacity",
+                            annotation.id === selectedAnnotationId ? "ring-1 ring-foreground" : "opacity-70 hover:opacity-100"
+                          )}
+                          style={{
+                            left: `${(mapped.start / timelineDuration) * 100}%`,
+                            width: `${((mapped.end - mapped.start) / timelineDuration) * 100}%`,
+                            minWidth: 4,
+                            backgroundColor: annotation.color,
+                          }}
+                          title={`${getAnnotationLabel(annotation)} · ${formatTime(annotation.startTime)} - ${formatTime(annotation.endTime)}`}
+                        />
+                      ))
+                    )}
+                  </div>
+                )}
+                {/* Redaction strip */}
+                {timelineDuration > 0 && redactions.length > 0 && (
+                  <div className="relative h-2.5">
+                    {redactions.flatMap((region, index) =>
+                      mapSourceRangeToTimeline(segments, { start: region.startTime, end: region.endTime }).map((mapped, i) => (
+                        <button
+                          key={`${region.id}-${i}`}
+                          onClick={() => selectRedaction(region)}
+                          className={cn(
+                            "absolute top-0 h-full rounded-sm transition-colors",
+                            region.id === selectedRedactionId ? "bg-destructive" : "bg-destructive/40 hover:bg-destructive/60"
+                          )}
+                          style={{
+                            left: `${(mapped.start / timelineDuration) * 100}%`,
+                            width: `${((mapped.end - mapped.start) / timelineDuration) * 100}%`,
+                            minWidth: 4,
+                          }}
+                          title={`Redaction ${index + 1} · ${formatTime(region.startTime)} - ${formatTime(region.endTime)}`}
+                        />
+                      ))
+                    )}
+                  </div>
+                )}
+                {/* Segment strip */}
+                {timelineDuration > 0 && (
+                  <div className="flex h-5 gap-0.5 rounded overflow-hidden">
+                    {segments.map((segment, index) => (
+                      <button
+                        key={segment.id}
+                        onClick={() => selectSegment(index)}
+                        className={cn(
+                          "h-full min-w-[6px] text-[10px] font-medium truncate transition-colors",
+                          segment.id === selectedSegmentId
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-primary/20 text-primary hover:bg-primary/30"
+                        )}
+                        style={{ flexGrow: getSegmentOutputDuration(segment), flexBasis: 0 }}
+                        title={`Segment ${index + 1}: ${formatTime(segment.sourceStart)} - ${formatTime(segment.sourceEnd)}`}
+                      >
+                        {index + 1}
+                      </button>
+                    ))}
+                  </div>
                 )}
               </div>
               <span className="text-xs font-mono text-muted-foreground w-12 text-right">
-                {formatTime(videoState.duration)}
+                {formatTime(timelineDuration)}
               </span>
             </div>
             
@@ -1161,10 +2335,10 @@ const VideoEditor = () => {
         {/* Sidebar */}
         <div className="w-80 border-l border-border bg-card overflow-hidden flex flex-col shrink-0">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
-            <TabsList className="grid grid-cols-4 m-3 shrink-0">
+            <TabsList className="grid grid-cols-8 m-3 shrink-0">
               <TabsTrigger value="trim" className="gap-1 text-xs px-2">
                 <Scissors className="w-3.5 h-3.5" />
-                Trim
+                Cut
               </TabsTrigger>
               <TabsTrigger value="speed" className="gap-1 text-xs px-2">
                 <Download className="w-3.5 h-3.5" />
@@ -1178,109 +2352,266 @@ const VideoEditor = () => {
                 <Type className="w-3.5 h-3.5" />
                 Text
               </TabsTrigger>
+              <TabsTrigger value="silence" className="gap-1 text-xs px-2" title="Audio">
+                <AudioWaveform className="w-3.5 h-3.5" />
+              </TabsTrigger>
+              <TabsTrigger value="zoom" className="gap-1 text-xs px-2" title="Zoom">
+                <ZoomIn className="w-3.5 h-3.5" />
+              </TabsTrigger>
+              <TabsTrigger value="drawings" className="gap-1 text-xs px-2" title="Drawings">
+                <PenLine className="w-3.5 h-3.5" />
+              </TabsTrigger>
+              <TabsTrigger value="redact" className="gap-1 text-xs px-2" title="Redact">
+                <Shield className="w-3.5 h-3.5" />
+              </TabsTrigger>
             </TabsList>
             
             <div className="flex-1 overflow-y-auto">
-              {/* Trim Tab */}
+              {/* Cut Tab */}
               <TabsContent value="trim" className="p-4 space-y-4 mt-0">
-                <div className="space-y-2">
-                  <Label>Start Time: {formatTime(trimState.startTime)}</Label>
-                  <Slider
-                    value={[trimState.startTime]}
-                    min={0}
-                    max={videoState.duration}
-                    step={0.1}
-                    onValueChange={(v) => setTrimState(prev => ({ 
-                      ...prev, 
-                      startTime: Math.min(v[0], prev.endTime - 0.5) 
-                    }))}
-                  />
+                <div className="grid grid-cols-2 gap-2">
+                  <Button variant="outline" size="sm" className="gap-1.5" onClick={splitAtPlayhead}>
+                    <Scissors className="w-3.5 h-3.5" />
+                    Split
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-1.5" onClick={resetSegments}>
+                    <RotateCcw className="w-3.5 h-3.5" />
+                    Reset Cuts
+                  </Button>
                 </div>
-                
+
                 <div className="space-y-2">
-                  <Label>End Time: {formatTime(trimState.endTime)}</Label>
-                  <Slider
-                    value={[trimState.endTime]}
-                    min={0}
-                    max={videoState.duration}
-                    step={0.1}
-                    onValueChange={(v) => setTrimState(prev => ({ 
-                      ...prev, 
-                      endTime: Math.max(v[0], prev.startTime + 0.5) 
-                    }))}
-                  />
+                  {segments.map((segment, index) => (
+                    <div
+                      key={segment.id}
+                      onClick={() => selectSegment(index)}
+                      className={cn(
+                        "flex items-center justify-between p-2 rounded-lg border cursor-pointer transition-colors",
+                        segment.id === selectedSegmentId
+                          ? "border-primary bg-primary/10"
+                          : "border-transparent bg-secondary/30 hover:bg-secondary/50"
+                      )}
+                    >
+                      <div>
+                        <p className="text-sm font-medium">
+                          Segment {index + 1}
+                          {getSegmentSpeed(segment) !== 1 && (
+                            <span className="ml-1.5 text-xs text-primary">{getSegmentSpeed(segment)}x</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatTime(segment.sourceStart)} - {formatTime(segment.sourceEnd)} · {formatTime(getSegmentDuration(segment))}
+                        </p>
+                      </div>
+                      <div className="flex items-center">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={index === 0}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            moveSegmentBy(index, -1);
+                          }}
+                          title="Move earlier"
+                        >
+                          <ChevronUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={index === segments.length - 1}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            moveSegmentBy(index, 1);
+                          }}
+                          title="Move later"
+                        >
+                          <ChevronDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive"
+                          disabled={segments.length <= 1}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            deleteSegment(segment.id);
+                          }}
+                          title="Delete segment"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
                 </div>
+
+                {selectedSegment && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setSelectedSegmentBound('start')}>
+                      Set Start
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setSelectedSegmentBound('end')}>
+                      Set End
+                    </Button>
+                  </div>
+                )}
                 
                 <div className="p-3 rounded-lg bg-secondary/30">
                   <p className="text-sm text-muted-foreground">
-                    Duration: <span className="font-medium text-foreground">
-                      {formatTime(trimState.endTime - trimState.startTime)}
+                    Edited duration: <span className="font-medium text-foreground">
+                      {formatTime(timelineDuration)}
                     </span>
+                    {' '}of {formatTime(videoState.duration)}
                   </p>
                 </div>
-                
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setTrimState({ startTime: videoState.currentTime, endTime: trimState.endTime })}
-                  >
-                    Set Start
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setTrimState({ startTime: trimState.startTime, endTime: videoState.currentTime })}
-                  >
-                    Set End
-                  </Button>
-                </div>
               </TabsContent>
 
               {/* Speed Tab - Now Export Settings */}
               <TabsContent value="speed" className="p-4 space-y-5 mt-0">
-                {/* Quality Presets */}
+                {/* Container Format */}
                 <div className="space-y-3">
-                  <Label className="text-sm font-medium">Export Quality</Label>
+                  <Label className="text-sm font-medium">Format</Label>
                   <div className="grid grid-cols-2 gap-2">
-                    {QUALITY_PRESETS.map((preset) => (
-                      <button
-                        key={preset.value}
-                        onClick={() => handleQualityChange(preset.value)}
-                        className={cn(
-                          "p-3 rounded-lg border text-sm font-medium transition-all",
-                          exportQuality === preset.value
-                            ? "border-primary bg-primary/10 text-primary"
-                            : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
-                        )}
-                      >
-                        <div className="font-medium">{preset.label}</div>
-                        {preset.width > 0 && (
-                          <div className="text-xs opacity-70">{preset.width}×{preset.height}</div>
-                        )}
-                      </button>
-                    ))}
+                    {EXPORT_FORMATS.map((format) => {
+                      const unavailable = unsupportedFormats.includes(format.value);
+                      return (
+                        <button
+                          key={format.value}
+                          onClick={() => setExportSettings({ format: format.value })}
+                          disabled={unavailable}
+                          title={unavailable ? `${format.label} encoding is not supported in this browser` : undefined}
+                          className={cn(
+                            "p-3 rounded-lg border text-sm font-medium transition-all text-left",
+                            exportFormat === format.value
+                              ? "border-primary bg-primary/10 text-primary"
+                              : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50",
+                            unavailable && "opacity-50 cursor-not-allowed"
+                          )}
+                        >
+                          <div className="font-medium">{format.label}</div>
+                          <div className="text-xs opacity-70">{format.description}</div>
+                        </button>
+                      );
+                    })}
                   </div>
                 </div>
 
-                {/* Bitrate Slider */}
-                <div className="space-y-3">
-                  <div className="flex justify-between">
-                    <Label className="text-sm font-medium">Bitrate</Label>
-                    <span className="text-sm font-medium text-primary">{formatBitrate(exportBitrate)}</span>
+                {isAnimatedExport ? (
+                  <>
+                    {/* Frame Rate */}
+                    <div className="space-y-3">
+                      <Label className="text-sm font-medium">Frame Rate</Label>
+                      <div className="grid grid-cols-4 gap-2">
+                        {ANIMATION_FPS.map((fps) => (
+                          <button
+                            key={fps}
+                            onClick={() => setExportSettings({ animation: { ...exportAnimation, fps } })}
+                            className={cn(
+                              "p-2 rounded-lg border text-xs font-medium transition-all",
+                              exportAnimation.fps === fps
+                                ? "border-primary bg-primary/10 text-primary"
+                                : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                            )}
+                          >
+                            {fps} fps
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Palette Size (GIF only; WebP keeps full color) */}
+                    {exportFormat === 'gif' && (
+                      <div className="space-y-3">
+                        <Label className="text-sm font-medium">Colors</Label>
+                        <div className="grid grid-cols-4 gap-2">
+                          {PALETTE_SIZES.map((size) => (
+                            <button
+                              key={size}
+                              onClick={() => setExportSettings({ animation: { ...exportAnimation, paletteSize: size } })}
+                              className={cn(
+                                "p-2 rounded-lg border text-xs font-medium transition-all",
+                                exportAnimation.paletteSize === size
+                                  ? "border-primary bg-primary/10 text-primary"
+                                  : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                              )}
+                            >
+                              {size}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Output Scale */}
+                    <div className="space-y-3">
+                      <Label className="text-sm font-medium">Scale</Label>
+                      <div className="grid grid-cols-4 gap-2">
+                        {ANIMATION_SCALES.map((scale) => (
+                          <button
+                            key={scale.value}
+                            onClick={() => setExportSettings({ animation: { ...exportAnimation, scale: scale.value } })}
+                            className={cn(
+                              "p-2 rounded-lg border text-xs font-medium transition-all",
+                              exportAnimation.scale === scale.value
+                                ? "border-primary bg-primary/10 text-primary"
+                                : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                            )}
+                          >
+                            {scale.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                  {/* Quality Presets */}
+                  <div className="space-y-3">
+                    <Label className="text-sm font-medium">Export Quality</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {QUALITY_PRESETS.map((preset) => (
+                        <button
+                          key={preset.value}
+                          onClick={() => handleQualityChange(preset.value)}
+                          className={cn(
+                            "p-3 rounded-lg border text-sm font-medium transition-all",
+                            exportQuality === preset.value
+                              ? "border-primary bg-primary/10 text-primary"
+                              : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                          )}
+                        >
+                          <div className="font-medium">{preset.label}</div>
+                          {preset.width > 0 && (
+                            <div className="text-xs opacity-70">{preset.width}×{preset.height}</div>
+                          )}
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                  <Slider
-                    value={[exportBitrate]}
-                    min={BITRATE_RANGE.min}
-                    max={BITRATE_RANGE.max}
-                    step={500000}
-                    onValueChange={(v) => setExportBitrate(v[0])}
-                  />
-                  <div className="flex justify-between text-xs text-muted-foreground">
-                    <span>Lower (smaller file)</span>
-                    <span>Higher (better quality)</span>
+
+                  {/* Bitrate Slider */}
+                  <div className="space-y-3">
+                    <div className="flex justify-between">
+                      <Label className="text-sm font-medium">Bitrate</Label>
+                      <span className="text-sm font-medium text-primary">{formatBitrate(exportBitrate)}</span>
+                    </div>
+                    <Slider
+                      value={[exportBitrate]}
+                      min={BITRATE_RANGE.min}
+                      max={BITRATE_RANGE.max}
+                      step={500000}
+                      onValueChange={(v) => setExportSettings({ bitrate: v[0] }, 'export-bitrate')}
+                    />
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Lower (smaller file)</span>
+                      <span>Higher (better quality)</span>
+                    </div>
                   </div>
-                </div>
+                  </>
+                )}
 
                 {/* Export Speed */}
                 <div className="space-y-3">
@@ -1289,7 +2620,7 @@ const VideoEditor = () => {
                     {EXPORT_SPEEDS.map((speed) => (
                       <button
                         key={speed.value}
-                        onClick={() => setExportSpeed(speed.value)}
+                        onClick={() => setExportSettings({ speed: speed.value })}
                         className={cn(
                           "p-2.5 rounded-lg border text-xs font-medium transition-all",
                           exportSpeed === speed.value
@@ -1312,17 +2643,34 @@ const VideoEditor = () => {
                     </span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Quality</span>
+                    <span className="text-muted-foreground">Format</span>
                     <span className="font-medium text-foreground">
-                      {getSelectedQualityPreset().label}
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Bitrate</span>
-                    <span className="font-medium text-foreground">
-                      {formatBitrate(exportBitrate)}
+                      {EXPORT_FORMATS.find(f => f.value === exportFormat)?.label}
                     </span>
                   </div>
+                  {isAnimatedExport ? (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Frames</span>
+                      <span className="font-medium text-foreground">
+                        {exportAnimation.fps} fps at {Math.round(exportAnimation.scale * 100)}%
+                      </span>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Quality</span>
+                        <span className="font-medium text-foreground">
+                          {getSelectedQualityPreset().label}
+                        </span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Bitrate</span>
+                        <span className="font-medium text-foreground">
+                          {formatBitrate(exportBitrate)}
+                        </span>
+                      </div>
+                    </>
+                  )}
                   <div className="pt-2 mt-2 border-t border-border/50">
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Est. File Size</span>
@@ -1346,7 +2694,7 @@ const VideoEditor = () => {
                       value={[filter.brightness]}
                       min={0}
                       max={200}
-                      onValueChange={(v) => setFilter(f => ({ ...f, brightness: v[0] }))}
+                      onValueChange={(v) => setFilter(f => ({ ...f, brightness: v[0] }), 'filter-brightness')}
                     />
                   </div>
                   
@@ -1359,7 +2707,7 @@ const VideoEditor = () => {
                       value={[filter.contrast]}
                       min={0}
                       max={200}
-                      onValueChange={(v) => setFilter(f => ({ ...f, contrast: v[0] }))}
+                      onValueChange={(v) => setFilter(f => ({ ...f, contrast: v[0] }), 'filter-contrast')}
                     />
                   </div>
                   
@@ -1372,7 +2720,7 @@ const VideoEditor = () => {
                       value={[filter.saturation]}
                       min={0}
                       max={200}
-                      onValueChange={(v) => setFilter(f => ({ ...f, saturation: v[0] }))}
+                      onValueChange={(v) => setFilter(f => ({ ...f, saturation: v[0] }), 'filter-saturation')}
                     />
                   </div>
                   
@@ -1385,7 +2733,7 @@ const VideoEditor = () => {
                       value={[filter.hue]}
                       min={0}
                       max={360}
-                      onValueChange={(v) => setFilter(f => ({ ...f, hue: v[0] }))}
+                      onValueChange={(v) => setFilter(f => ({ ...f, hue: v[0] }), 'filter-hue')}
                     />
                   </div>
                   
@@ -1398,7 +2746,7 @@ const VideoEditor = () => {
                       value={[filter.blur]}
                       min={0}
                       max={10}
-                      onValueChange={(v) => setFilter(f => ({ ...f, blur: v[0] }))}
+                      onValueChange={(v) => setFilter(f => ({ ...f, blur: v[0] }), 'filter-blur')}
                     />
                   </div>
                   
@@ -1411,7 +2759,7 @@ const VideoEditor = () => {
                       value={[filter.grayscale]}
                       min={0}
                       max={100}
-                      onValueChange={(v) => setFilter(f => ({ ...f, grayscale: v[0] }))}
+                      onValueChange={(v) => setFilter(f => ({ ...f, grayscale: v[0] }), 'filter-grayscale')}
                     />
                   </div>
                 </div>
@@ -1466,6 +2814,638 @@ const VideoEditor = () => {
                   )}
                 </div>
               </TabsContent>
+
+              {/* Zoom Tab */}
+              <TabsContent value="zoom" className="p-4 space-y-4 mt-0">
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1.5"
+                    onClick={regenerateZooms}
+                    disabled={recordedClicks.length === 0}
+                    title={recordedClicks.length === 0 ? 'No clicks were recorded with this video' : 'Replace the zooms with ones around the recorded clicks'}
+                  >
+                    <Wand2 className="w-3.5 h-3.5" />
+                    From Clicks
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-1.5" onClick={addZoomAtPlayhead}>
+                    <Plus className="w-3.5 h-3.5" />
+                    Add Zoom
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {recordedClicks.length > 0
+                    ? `${recordedClicks.length} click${recordedClicks.length === 1 ? '' : 's'} recorded. Zooms ease in and out at their edges.`
+                    : 'Clicks are recorded when capturing this tab or the screen the browser is on.'}
+                </p>
+
+                <div className="space-y-2">
+                  {zoomRegions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No zooms. Add one at the playhead.
+                    </p>
+                  ) : (
+                    zoomRegions.map((region, index) => (
+                      <div
+                        key={region.id}
+                        onClick={() => selectZoomRegion(region)}
+                        className={cn(
+                          "flex items-center justify-between p-2 rounded-lg border cursor-pointer transition-colors",
+                          region.id === selectedZoomId
+                            ? "border-primary bg-primary/10"
+                            : "border-transparent bg-secondary/30 hover:bg-secondary/50"
+                        )}
+                      >
+                        <div>
+                          <p className="text-sm font-medium">
+                            Zoom {index + 1}
+                            <span className="ml-1.5 text-xs text-primary">{region.scale.toFixed(1)}x</span>
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatTime(region.startTime)} - {formatTime(region.endTime)}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeZoomRegion(region.id);
+                          }}
+                          className="h-8 w-8 text-destructive"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {selectedZoom && (
+                  <div className="space-y-3 pt-4 border-t border-border">
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setZoomEdgeToPlayhead('start')}>
+                        Start at Playhead
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setZoomEdgeToPlayhead('end')}>
+                        End at Playhead
+                      </Button>
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <Label>Zoom</Label>
+                        <span className="text-muted-foreground">{selectedZoom.scale.toFixed(1)}x</span>
+                      </div>
+                      <Slider
+                        value={[selectedZoom.scale]}
+                        min={ZOOM_SCALE_RANGE.min}
+                        max={ZOOM_SCALE_RANGE.max}
+                        step={0.1}
+                        onValueChange={(v) => updateZoomRegion(selectedZoom.id, { scale: v[0] }, `zoom-scale-${selectedZoom.id}`)}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <Label>Focus Left/Right</Label>
+                        <span className="text-muted-foreground">{Math.round(selectedZoom.x * 100)}%</span>
+                      </div>
+                      <Slider
+                        value={[selectedZoom.x * 100]}
+                        min={0}
+                        max={100}
+                        onValueChange={(v) => updateZoomRegion(selectedZoom.id, { x: v[0] / 100 }, `zoom-x-${selectedZoom.id}`)}
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <Label>Focus Up/Down</Label>
+                        <span className="text-muted-foreground">{Math.round(selectedZoom.y * 100)}%</span>
+                      </div>
+                      <Slider
+                        value={[selectedZoom.y * 100]}
+                        min={0}
+                        max={100}
+                        onValueChange={(v) => updateZoomRegion(selectedZoom.id, { y: v[0] / 100 }, `zoom-y-${selectedZoom.id}`)}
+                      />
+                    </div>
+                  </div>
+                )}
+              </TabsContent>
+
+              {/* Drawings Tab */}
+              <TabsContent value="drawings" className="p-4 space-y-4 mt-0">
+                <p className="text-xs text-muted-foreground">
+                  Drawn on screen while recording, so they're part of the video itself and can't be changed here.
+                  Pick one to jump to it.
+                </p>
+
+                <div className="space-y-2">
+                  {annotations.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No drawings were recorded with this video.
+                    </p>
+                  ) : (
+                    annotations.map(annotation => (
+                      <div
+                        key={annotation.id}
+                        onClick={() => selectAnnotation(annotation)}
+                        className={cn(
+                          "flex items-center justify-between p-2 rounded-lg border cursor-pointer transition-colors",
+                          annotation.id === selectedAnnotationId
+                            ? "border-primary bg-primary/10"
+                            : "border-transparent bg-secondary/30 hover:bg-secondary/50"
+                        )}
+                      >
+                        <div className="flex items-center gap-2 min-w-0">
+                          <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: annotation.color }} />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{getAnnotationLabel(annotation)}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatTime(annotation.startTime)} - {formatTime(annotation.endTime)}
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </TabsContent>
+
+              {/* Redact Tab */}
+              <TabsContent value="redact" className="p-4 space-y-4 mt-0">
+                <Button variant="outline" size="sm" className="w-full gap-1.5" onClick={addRedactionAtPlayhead}>
+                  <Plus className="w-3.5 h-3.5" />
+                  Add Redaction
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Hides emails, keys and other private details. Exported videos keep only the redacted pixels.
+                </p>
+
+                <div className="space-y-3 pb-4 border-b border-border">
+                  <div>
+                    <Label className="text-sm font-medium">Find Private Info</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Reads the text in sampled frames on this device and suggests boxes over emails, card numbers, phone numbers and keys
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-2">
+                    {PII_SCAN_INTERVALS.map(interval => (
+                      <button
+                        key={interval}
+                        onClick={() => setPiiScanInterval(interval)}
+                        disabled={piiScanProgress !== null}
+                        className={cn(
+                          "p-2 rounded-lg border text-xs font-medium transition-all",
+                          piiScanInterval === interval
+                            ? "border-primary bg-primary/10 text-primary"
+                            : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                        )}
+                      >
+                        Every {interval}s
+                      </button>
+                    ))}
+                  </div>
+
+                  {piiScanProgress === null ? (
+                    <Button className="w-full gap-2" onClick={scanForPrivateInfo} disabled={!videoState.url}>
+                      <ScanText className="w-4 h-4" />
+                      Scan Video
+                    </Button>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin shrink-0" />
+                      <span className="flex-1 text-sm text-muted-foreground">
+                        Scanning... {Math.round(piiScanProgress * 100)}%
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={cancelPiiScan}>
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+
+                  {piiSuggestions.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-muted-foreground">
+                          Outlined on the preview. Text shown only between samples can be missed.
+                        </p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-1.5 shrink-0"
+                          onClick={() => acceptPiiSuggestions(piiSuggestions)}
+                        >
+                          <Check className="w-3.5 h-3.5" />
+                          Accept All
+                        </Button>
+                      </div>
+                      {piiSuggestions.map(suggestion => (
+                        <div
+                          key={suggestion.id}
+                          onClick={() => seekToSourceTime(suggestion.startTime)}
+                          className="flex items-center justify-between gap-2 p-2 rounded-lg border border-amber-500/40 bg-amber-500/10 cursor-pointer hover:bg-amber-500/20 transition-colors"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium">
+                              {PII_LABELS[suggestion.kind]}
+                              <span className="ml-1.5 text-xs font-mono text-muted-foreground">{suggestion.preview}</span>
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatTime(suggestion.startTime)} - {formatTime(suggestion.endTime)}
+                            </p>
+                          </div>
+                          <div className="flex shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                acceptPiiSuggestions([suggestion]);
+                              }}
+                              className="h-8 w-8 text-primary"
+                              title="Redact"
+                            >
+                              <Check className="w-3.5 h-3.5" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                rejectPiiSuggestion(suggestion.id);
+                              }}
+                              className="h-8 w-8 text-muted-foreground"
+                              title="Not private"
+                            >
+                              <X className="w-3.5 h-3.5" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {redactions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                      No redactions. Add one at the playhead.
+                    </p>
+                  ) : (
+                    redactions.map((region, index) => (
+                      <div
+                        key={region.id}
+                        onClick={() => selectRedaction(region)}
+                        className={cn(
+                          "flex items-center justify-between p-2 rounded-lg border cursor-pointer transition-colors",
+                          region.id === selectedRedactionId
+                            ? "border-primary bg-primary/10"
+                            : "border-transparent bg-secondary/30 hover:bg-secondary/50"
+                        )}
+                      >
+                        <div>
+                          <p className="text-sm font-medium">
+                            Redaction {index + 1}
+                            <span className="ml-1.5 text-xs text-primary">
+                              {REDACTION_STYLES.find(style => style.value === region.style)?.label}
+                            </span>
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatTime(region.startTime)} - {formatTime(region.endTime)}
+                            {region.keyframes.length > 1 && ` · ${region.keyframes.length} keyframes`}
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            removeRedaction(region.id);
+                          }}
+                          className="h-8 w-8 text-destructive"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
+
+                {selectedRedaction && selectedRedactionBox && (
+                  <div className="space-y-3 pt-4 border-t border-border">
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setRedactionEdgeToPlayhead('start')}>
+                        Start at Playhead
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setRedactionEdgeToPlayhead('end')}>
+                        End at Playhead
+                      </Button>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-sm">Style</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {REDACTION_STYLES.map(style => (
+                          <Button
+                            key={style.value}
+                            variant={selectedRedaction.style === style.value ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => updateRedaction(selectedRedaction.id, region => ({ ...region, style: style.value }))}
+                          >
+                            {style.label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {selectedRedaction.style === 'solid' && (
+                      <div className="space-y-2">
+                        <Label className="text-sm">Color</Label>
+                        <div className="flex flex-wrap gap-1.5">
+                          {REDACTION_COLORS.map(color => (
+                            <button
+                              key={color}
+                              onClick={() => updateRedaction(selectedRedaction.id, region => ({ ...region, color }))}
+                              className={cn(
+                                "w-6 h-6 rounded-full border-2 transition-transform hover:scale-110",
+                                selectedRedaction.color === color ? "border-primary scale-110" : "border-transparent"
+                              )}
+                              style={{ backgroundColor: color, boxShadow: color === '#ffffff' ? 'inset 0 0 0 1px #ccc' : undefined }}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    <p className="text-xs text-muted-foreground">
+                      {isSelectedRedactionVisible
+                        ? 'Drag the box on the preview to move it, its corner to resize it, or elsewhere to draw it again. Changes add a keyframe at the playhead.'
+                        : 'Move the playhead inside the redaction to change its box.'}
+                    </p>
+
+                    {([
+                      { key: 'x', label: 'Left/Right' },
+                      { key: 'y', label: 'Up/Down' },
+                      { key: 'width', label: 'Width' },
+                      { key: 'height', label: 'Height' },
+                    ] as const).map(({ key, label }) => (
+                      <div key={key} className="space-y-2">
+                        <div className="flex justify-between text-sm">
+                          <Label>{label}</Label>
+                          <span className="text-muted-foreground">{Math.round(selectedRedactionBox[key] * 100)}%</span>
+                        </div>
+                        <Slider
+                          value={[selectedRedactionBox[key] * 100]}
+                          min={0}
+                          max={100}
+                          disabled={!isSelectedRedactionVisible}
+                          onValueChange={(v) => setRedactionBoxAtPlayhead(
+                            selectedRedaction.id,
+                            clampRedactionBox({ ...selectedRedactionBox, [key]: v[0] / 100 }),
+                            `redaction-${key}-${selectedRedaction.id}`
+                          )}
+                        />
+                      </div>
+                    ))}
+
+                    <div className="space-y-2">
+                      <Label className="text-sm">Keyframes</Label>
+                      {selectedRedaction.keyframes.map(keyframe => (
+                        <div
+                          key={keyframe.time}
+                          onClick={() => seekToSourceTime(keyframe.time)}
+                          className="flex items-center justify-between px-2 py-1 rounded-md bg-secondary/30 hover:bg-secondary/50 cursor-pointer"
+                        >
+                          <span className="text-xs font-mono">{formatTime(keyframe.time)}</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={selectedRedaction.keyframes.length <= 1}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              updateRedaction(selectedRedaction.id, region => removeRedactionKeyframe(region, keyframe.time));
+                            }}
+                            className="h-6 w-6 text-destructive"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </TabsContent>
+
+              {/* Silence Tab */}
+              <TabsContent value="silence" className="p-4 space-y-4 mt-0">
+                {audioStems.length > 0 && (
+                  <div className="space-y-3 pb-4 border-b border-border">
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <Label className="text-sm font-medium">Remix Tracks</Label>
+                        <p className="text-xs text-muted-foreground">Use the separate tracks instead of the recorded mix</p>
+                      </div>
+                      <Switch
+                        checked={stemMix.enabled}
+                        onCheckedChange={(checked) => setStemMix(prev => ({ ...prev, enabled: checked }))}
+                      />
+                    </div>
+
+                    {audioStems.map((stem) => {
+                      const level = stemMix[stem.source];
+                      return (
+                        <div key={stem.source} className="space-y-1.5">
+                          <div className="flex items-center justify-between text-sm">
+                            <span>{STEM_LABELS[stem.source]}</span>
+                            <div className="flex items-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                onClick={() => setStemLevel(stem.source, { muted: !level.muted })}
+                                disabled={!stemMix.enabled}
+                                title={level.muted ? 'Unmute track' : 'Mute track'}
+                              >
+                                {level.muted ? <VolumeX className="w-3.5 h-3.5" /> : <Volume2 className="w-3.5 h-3.5" />}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                onClick={() => downloadStem(stem)}
+                                title="Download this track"
+                              >
+                                <Download className="w-3.5 h-3.5" />
+                              </Button>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Slider
+                              value={[level.volume * 100]}
+                              min={0}
+                              max={MAX_STEM_VOLUME * 100}
+                              step={5}
+                              onValueChange={(v) => setStemLevel(stem.source, { volume: v[0] / 100 }, `stem-${stem.source}`)}
+                              disabled={!stemMix.enabled || level.muted}
+                              className="flex-1"
+                            />
+                            <span className="text-xs font-mono text-muted-foreground w-10 text-right">
+                              {Math.round(level.volume * 100)}%
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <div className="space-y-3 pb-4 border-b border-border">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <Label className="text-sm font-medium">Noise Reduction</Label>
+                      <p className="text-xs text-muted-foreground">Applied to the exported audio</p>
+                    </div>
+                    <Switch
+                      checked={noiseReduction.enabled}
+                      onCheckedChange={(checked) => setNoiseReduction({ enabled: checked })}
+                    />
+                  </div>
+
+                  {noiseReduction.enabled && (
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <Label>Strength</Label>
+                        <span className="text-muted-foreground">{Math.round(noiseReduction.strength * 100)}%</span>
+                      </div>
+                      <Slider
+                        value={[noiseReduction.strength * 100]}
+                        min={0}
+                        max={100}
+                        step={5}
+                        onValueChange={(v) => setNoiseReduction({ strength: v[0] / 100 }, 'noise-strength')}
+                      />
+                    </div>
+                  )}
+
+                  <Button variant="outline" className="w-full gap-2" onClick={learnNoiseAtPlayhead} disabled={isLearningNoise}>
+                    {isLearningNoise ? <Loader2 className="w-4 h-4 animate-spin" /> : <AudioWaveform className="w-4 h-4" />}
+                    {isLearningNoise ? 'Analyzing Audio...' : 'Learn Noise at Playhead'}
+                  </Button>
+                  <p className="text-xs text-muted-foreground">
+                    {noiseReduction.profile
+                      ? 'Using the learned noise profile. '
+                      : `Put the playhead on ${NOISE_SAMPLE_SECONDS}s of background noise without speech, or leave it to adapt automatically. `}
+                    {noiseReduction.profile && (
+                      <button
+                        onClick={() => setNoiseReduction({ profile: null })}
+                        className="underline hover:text-foreground"
+                      >
+                        Forget it
+                      </button>
+                    )}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <Label>Threshold</Label>
+                    <span className="text-muted-foreground">{silenceOptions.thresholdDb} dB</span>
+                  </div>
+                  <Slider
+                    value={[silenceOptions.thresholdDb]}
+                    min={-70}
+                    max={-20}
+                    step={1}
+                    onValueChange={(v) => setSilenceOptions(prev => ({ ...prev, thresholdDb: v[0] }))}
+                  />
+                  <p className="text-xs text-muted-foreground">Anything quieter than this counts as silence</p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <Label>Minimum Length</Label>
+                    <span className="text-muted-foreground">{silenceOptions.minDuration.toFixed(1)}s</span>
+                  </div>
+                  <Slider
+                    value={[silenceOptions.minDuration]}
+                    min={0.3}
+                    max={5}
+                    step={0.1}
+                    onValueChange={(v) => setSilenceOptions(prev => ({ ...prev, minDuration: v[0] }))}
+                  />
+                </div>
+
+                <Button className="w-full gap-2" onClick={detectSilence} disabled={isDetectingSilence}>
+                  {isDetectingSilence ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <AudioWaveform className="w-4 h-4" />
+                  )}
+                  {isDetectingSilence ? 'Analyzing Audio...' : 'Detect Silence'}
+                </Button>
+
+                {silences.length > 0 && (
+                  <>
+                    <div className="p-3 rounded-lg bg-secondary/30">
+                      <p className="text-sm text-muted-foreground">
+                        {silences.length} silent stretch{silences.length > 1 ? 'es' : ''}:{' '}
+                        <span className="font-medium text-foreground">{formatTime(totalSilence)}</span>
+                      </p>
+                    </div>
+
+                    <Button variant="outline" className="w-full gap-2" onClick={removeSilences}>
+                      <Scissors className="w-4 h-4" />
+                      Remove All Silence
+                    </Button>
+
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Or speed it up</Label>
+                      <div className="grid grid-cols-3 gap-2">
+                        {SILENCE_SPEEDS.map((speed) => (
+                          <button
+                            key={speed}
+                            onClick={() => setSilenceSpeed(speed)}
+                            className={cn(
+                              "p-2 rounded-lg border text-xs font-medium transition-all",
+                              silenceSpeed === speed
+                                ? "border-primary bg-primary/10 text-primary"
+                                : "border-border bg-secondary/30 text-muted-foreground hover:bg-secondary/50"
+                            )}
+                          >
+                            {speed}x
+                          </button>
+                        ))}
+                      </div>
+                      <Button variant="outline" className="w-full gap-2" onClick={speedUpSilences}>
+                        <Gauge className="w-4 h-4" />
+                        Speed Up Silence
+                      </Button>
+                    </div>
+
+                    <div className="space-y-1">
+                      {silences.map((range, i) => {
+                        const timelineStart = sourceToTimelineTime(segments, range.start + 0.001);
+                        return (
+                          <button
+                            key={i}
+                            onClick={() => timelineStart !== null && seek(timelineStart)}
+                            disabled={timelineStart === null}
+                            className="w-full flex justify-between px-2 py-1.5 rounded text-xs hover:bg-secondary/50 disabled:opacity-50"
+                          >
+                            <span className="font-mono">{formatTime(range.start)} - {formatTime(range.end)}</span>
+                            <span className="text-muted-foreground">{(range.end - range.start).toFixed(1)}s</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
+              </TabsContent>
             </div>
           </Tabs>
         </div>
@@ -27,7 +27,31 @@ export default defineConfig(({ mode }) => ({
       manifest: false, // Use public/manifest.json
       workbox: {
         globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2}"],
+        // The OCR engine is too large to precache; it is cached at runtime below
+        globIgnores: ["**/tesseract-core-*.js"],
         runtimeCaching: [
+          {
+            // Segmentation runtime and model, too large to precache and only needed for webcam effects
+            urlPattern: /\.(?:wasm|tflite)$/i,
+            handler: "CacheFirst",
+            options: {
+              cacheName: "ml-models-cache",
+              expiration: {
+                maxEntries: 10,
+              },
+            },
+          },
+          {
+            // Text recognition engine and model for finding private details, only needed when scanning
+            urlPattern: /(?:tesseract-core[^/]*\.js|\.traineddata\.gz)$/i,
+            handler: "CacheFirst",
+            options: {
+              cacheName: "ocr-models-cache",
+              expiration: {
+                maxEntries: 10,
+              },
+            },
+          },
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
             handler: "CacheFirst",
@@ -57,9 +81,22 @@ export default defineConfig(({ mode }) => ({
       },
     }),
   ].filter(Boolean),
+  build: {
+    rollupOptions: {
+      output: {
+        // The OCR engine looks its model up by file name, so that file keeps its name
+        assetFileNames: (asset) =>
+          asset.name?.endsWith(".traineddata.gz")
+            ? "assets/tessdata/[name][extname]"
+            : "assets/[name]-[hash][extname]",
+      },
+    },
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // The package's exports map hides its WebAssembly files, which the webcam background effects load by URL
+      "@mediapipe/tasks-vision/wasm": path.resolve(__dirname, "./node_modules/@mediapipe/tasks-vision/wasm"),
     },
   },
 }));